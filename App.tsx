@@ -1,25 +1,100 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo } from 'react';
 import { TOPICS, TIER_2_TOPICS, MEDIA_TOPICS } from './data';
-import { Topic, Category } from './types';
+import { Topic, CustomTopic, ElementPack, InstalledPack, UserCategory, ElementTab, LinkState } from './types';
 import ElementCard from './components/ElementCard';
 import Modal from './components/Modal';
 import Marquee from './components/Marquee';
 import PromptBuilder from './components/PromptBuilder';
 import AmbientPlayer from './components/AmbientPlayer';
+import KeySettings from './components/KeySettings';
 import IntroScreen from './components/IntroScreen';
+import ElementEditor from './components/ElementEditor';
+import PackManager from './components/PackManager';
+import CategoryEditor from './components/CategoryEditor';
+import CommandPalette from './components/CommandPalette';
+import { customTopicStore } from './utils/customTopicStore';
+import { elementPackStore, mergePacks, packId } from './utils/elementPacks';
+import { categoryRegistry, isBuiltInCategory, userCategoryStore } from './utils/categoryRegistry';
+import { onLinkStateChange, readLinkState, writeLinkState } from './utils/urlState';
+
+const BUILT_IN_SYMBOLS = [...TOPICS, ...MEDIA_TOPICS].map(t => t.symbol);
 
 const App: React.FC = () => {
   const [showIntro, setShowIntro] = useState(true);
   const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
+  const [modalTab, setModalTab] = useState<ElementTab>('overview');
   const [builderTopics, setBuilderTopics] = useState<Topic[]>([]);
   const [activeCategory, setActiveCategory] = useState<string>('ALL');
   const [isBuilderExpanded, setIsBuilderExpanded] = useState(false);
 
-  const categories = Object.values(Category).filter(c => c !== Category.VIDEO && c !== Category.AUDIO && c !== Category.VOICE);
-  
-  const mainTopics = TOPICS.filter(t => t.category !== Category.COMMAND);
-  const commandTopics = TOPICS.filter(t => t.category === Category.COMMAND);
+  const [customTopics, setCustomTopics] = useState<CustomTopic[]>([]);
+  // undefined: editor closed; null: open on the list; id: editing that element
+  const [editorTopicId, setEditorTopicId] = useState<string | null | undefined>(undefined);
+
+  const [packs, setPacks] = useState<InstalledPack[]>([]);
+  const [showPacks, setShowPacks] = useState(false);
+
+  const [userCategories, setUserCategories] = useState<UserCategory[]>([]);
+  const [showCategories, setShowCategories] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+
+  // The URL is only read once stored elements are in (a link may name one) and
+  // only written after that, so the first render doesn't wipe it
+  const [isStoreLoaded, setIsStoreLoaded] = useState(false);
+  const [isLinkApplied, setIsLinkApplied] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      customTopicStore.list()
+          .then(topics => setCustomTopics(topics.sort((a, b) => a.createdAt - b.createdAt)))
+          .catch(e => console.error("Custom elements unavailable:", e)),
+      elementPackStore.list()
+          .then(setPacks)
+          .catch(e => console.error("Element packs unavailable:", e)),
+      userCategoryStore.list()
+          .then(categories => setUserCategories(categories.sort((a, b) => a.createdAt - b.createdAt)))
+          .catch(e => console.error("Custom categories unavailable:", e)),
+    ]).then(() => setIsStoreLoaded(true));
+  }, []);
+
+  // Ctrl/Cmd+K anywhere, or "/" outside text fields, opens the search palette
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const typing = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowPalette(open => !open);
+      } else if (e.key === '/' && !typing) {
+        e.preventDefault();
+        setShowPalette(true);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  // Packs come after the built-ins and custom elements, so those keep their symbols
+  const merged = useMemo(
+    () => mergePacks(packs, [...BUILT_IN_SYMBOLS, ...customTopics.map(t => t.symbol)]),
+    [packs, customTopics]
+  );
+  // Registered after commit but before paint; the re-render lets cards, sounds
+  // and the element view resolve them
+  const [, setRegistryVersion] = useState(0);
+  useLayoutEffect(() => {
+    categoryRegistry.setUserCategories(userCategories);
+    categoryRegistry.setPackCategories(merged.categories);
+    setRegistryVersion(v => v + 1);
+  }, [userCategories, merged.categories]);
+
+  // Every element goes to the section its category's group names
+  const allTopics = [...TOPICS, ...MEDIA_TOPICS, ...customTopics, ...merged.topics];
+  const mainTopics = allTopics.filter(t => categoryRegistry.groupOf(t.category) === 'main');
+  const mediaTopics = allTopics.filter(t => categoryRegistry.groupOf(t.category) === 'media');
+  const commandTopics = allTopics.filter(t => categoryRegistry.groupOf(t.category) === 'bulletin');
+  const categories = categoryRegistry.list('main');
 
   const filteredTopics = activeCategory === 'ALL' 
     ? mainTopics 
@@ -36,15 +111,130 @@ const App: React.FC = () => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const symbol = e.dataTransfer.getData("topicId");
-    const allTopics = [...TOPICS, ...MEDIA_TOPICS];
     const topic = allTopics.find(t => t.symbol === symbol);
     if (topic && !builderTopics.find(t => t.symbol === symbol)) {
         setBuilderTopics([...builderTopics, topic]);
     }
   };
 
+  const restoreBuilderSelection = (symbols: string[]) => {
+    setBuilderTopics(symbols
+        .map(symbol => allTopics.find(t => t.symbol === symbol))
+        .filter((t): t is Topic => !!t));
+  };
+
+  const openTopic = (topic: Topic) => {
+    setSelectedTopic(topic);
+    setModalTab('overview');
+  };
+
+  // --- DEEP LINKS ---
+  // The builder is kept out of history: back/forward moves between views and
+  // leaves the selection alone. Only a link from outside replaces it.
+  const applyLinkState = (state: LinkState, withBuilder: boolean) => {
+    setSelectedTopic((state.element && allTopics.find(t => t.symbol === state.element)) || null);
+    setModalTab(state.tab || 'overview');
+    setActiveCategory(state.category && categories.some(c => c.name === state.category) ? state.category : 'ALL');
+    if (!withBuilder) writeLinkState({ builder: builderTopics.map(t => t.symbol) });
+    else if (state.builder) restoreBuilderSelection(state.builder);
+  };
+
+  useEffect(() => {
+    if (!isStoreLoaded || isLinkApplied) return;
+    applyLinkState(readLinkState(), true);
+    setIsLinkApplied(true);
+  }, [isStoreLoaded]);
+
+  useEffect(() => onLinkStateChange(applyLinkState), [customTopics, merged, userCategories, builderTopics]);
+
+  // Opening an element or changing the filter adds a history entry; tab and
+  // builder changes update the current one
+  useEffect(() => {
+    if (!isLinkApplied) return;
+    writeLinkState({
+      element: selectedTopic?.symbol,
+      tab: selectedTopic && modalTab !== 'overview' ? modalTab : undefined,
+      category: activeCategory === 'ALL' ? undefined : activeCategory,
+    }, 'push');
+  }, [isLinkApplied, selectedTopic?.symbol, activeCategory]);
+
+  useEffect(() => {
+    if (isLinkApplied) writeLinkState({ tab: selectedTopic && modalTab !== 'overview' ? modalTab : undefined });
+  }, [modalTab]);
+
+  useEffect(() => {
+    if (isLinkApplied) writeLinkState({ builder: builderTopics.map(t => t.symbol) });
+  }, [isLinkApplied, builderTopics]);
+
   const handleDragOver = (e: React.DragEvent) => e.preventDefault();
 
+  const isSameCustom = (a: Topic, b: CustomTopic) => (a as CustomTopic).id === b.id;
+
+  const saveCustomTopic = async (topic: CustomTopic) => {
+    await customTopicStore.save(topic);
+    setCustomTopics(prev => prev.some(t => t.id === topic.id) ? prev.map(t => t.id === topic.id ? topic : t) : [...prev, topic]);
+    // Keep the builder and an open element view in step with the edit
+    setBuilderTopics(prev => prev.map(t => isSameCustom(t, topic) ? topic : t));
+    setSelectedTopic(prev => prev && isSameCustom(prev, topic) ? topic : prev);
+  };
+
+  const deleteCustomTopic = async (topic: CustomTopic) => {
+    await customTopicStore.remove(topic.id);
+    setCustomTopics(prev => prev.filter(t => t.id !== topic.id));
+    setBuilderTopics(prev => prev.filter(t => !isSameCustom(t, topic)));
+    setSelectedTopic(prev => prev && isSameCustom(prev, topic) ? null : prev);
+  };
+
+  // Drops a pack's elements from the builder and the element view once it stops being merged
+  const releasePack = ({ name, categories }: ElementPack) => {
+    setBuilderTopics(prev => prev.filter(t => t.pack !== name));
+    setSelectedTopic(prev => prev?.pack === name ? null : prev);
+    if (categories?.some(c => c.name === activeCategory)) setActiveCategory('ALL');
+  };
+
+  const installPack = async (pack: ElementPack, source: string) => {
+    const id = packId(pack);
+    const existing = packs.find(p => p.id === id);
+    const now = Date.now();
+    const installed: InstalledPack = {
+      id,
+      pack,
+      enabled: existing?.enabled ?? true,
+      source,
+      installedAt: existing?.installedAt ?? now,
+      updatedAt: now,
+    };
+    await elementPackStore.save(installed);
+    if (existing) releasePack(existing.pack);
+    setPacks(prev => existing ? prev.map(p => p.id === id ? installed : p) : [...prev, installed]);
+  };
+
+  const togglePack = async (installed: InstalledPack) => {
+    const updated = { ...installed, enabled: !installed.enabled, updatedAt: Date.now() };
+    await elementPackStore.save(updated);
+    if (!updated.enabled) releasePack(installed.pack);
+    setPacks(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  const removePack = async (installed: InstalledPack) => {
+    await elementPackStore.remove(installed.id);
+    releasePack(installed.pack);
+    setPacks(prev => prev.filter(p => p.id !== installed.id));
+  };
+
+  const saveUserCategory = async (category: UserCategory) => {
+    await userCategoryStore.save(category);
+    setUserCategories(prev => prev.some(c => c.id === category.id) ? prev.map(c => c.id === category.id ? category : c) : [...prev, category]);
+  };
+
+  const deleteUserCategory = async (category: UserCategory) => {
+    await userCategoryStore.remove(category.id);
+    setUserCategories(prev => prev.filter(c => c.id !== category.id));
+    if (activeCategory === category.name) setActiveCategory('ALL');
+  };
+
+  const customCounts = customTopics.reduce<Record<string, number>>((counts, t) => ({ ...counts, [t.category]: (counts[t.category] || 0) + 1 }), {});
+
   return (
     <>
     {showIntro && <IntroScreen onEnter={() => setShowIntro(false)} />}
@@ -57,6 +247,7 @@ const App: React.FC = () => {
       
       {/* --- AUDIO CONTROLLER --- */}
       <AmbientPlayer />
+      <KeySettings />
 
       {/* --- STOCK TICKER HEADER --- */}
       <div className="sticky top-0 z-30 shadow-2xl shadow-black">
@@ -71,6 +262,15 @@ const App: React.FC = () => {
           MARKET DATA // VERSION 3.2 // BUILDER ACTIVE
         </p>
 
+        <button
+            onClick={() => setShowPalette(true)}
+            className="w-full max-w-md mx-auto mb-4 flex items-center gap-2 px-3 py-2 border border-gray-800 rounded-lg bg-black/40 text-left text-xs font-mono text-gray-600 hover:border-cyan-800 hover:text-gray-400 transition-all"
+        >
+            <span className="text-cyan-700">{'>'}</span>
+            <span className="flex-grow">Search elements...</span>
+            <kbd className="px-1.5 py-px border border-gray-700 rounded text-[9px] text-gray-500">Ctrl K</kbd>
+        </button>
+
         {/* --- CATEGORY FILTER BAR --- */}
         <div className="flex flex-wrap justify-center gap-2 max-w-4xl mx-auto mb-4">
             <button 
@@ -79,15 +279,33 @@ const App: React.FC = () => {
             >
                 ALL MARKET
             </button>
-            {categories.filter(c => c !== Category.COMMAND).map((cat) => (
+            {categories.map(({ name, glyph, color }) => (
                 <button 
-                    key={cat}
-                    onClick={() => setActiveCategory(cat)}
-                    className={`px-3 py-1 text-[10px] md:text-xs font-bold uppercase tracking-wider border rounded transition-all ${activeCategory === cat ? 'bg-gray-800 text-white border-white' : 'border-gray-800 text-gray-600 hover:border-gray-600'}`}
+                    key={name}
+                    onClick={() => setActiveCategory(name)}
+                    className={`px-3 py-1 text-[10px] md:text-xs font-bold uppercase tracking-wider border rounded transition-all ${activeCategory === name ? 'bg-gray-800 text-white border-white' : 'border-gray-800 text-gray-600 hover:border-gray-600'}`}
                 >
-                    {cat}
+                    <span className="mr-1" style={{ color }}>{glyph}</span>{name}
                 </button>
             ))}
+            <button 
+                onClick={() => setEditorTopicId(null)}
+                className="px-3 py-1 text-[10px] md:text-xs font-bold uppercase tracking-wider border border-dashed rounded transition-all border-cyan-800 text-cyan-600 hover:border-cyan-500 hover:text-cyan-400"
+            >
+                + Custom{customTopics.length > 0 ? ` (${customTopics.length})` : ''}
+            </button>
+            <button 
+                onClick={() => setShowPacks(true)}
+                className="px-3 py-1 text-[10px] md:text-xs font-bold uppercase tracking-wider border border-dashed rounded transition-all border-cyan-800 text-cyan-600 hover:border-cyan-500 hover:text-cyan-400"
+            >
+                Packs{packs.length > 0 ? ` (${packs.filter(p => p.enabled).length}/${packs.length})` : ''}
+            </button>
+            <button 
+                onClick={() => setShowCategories(true)}
+                className="px-3 py-1 text-[10px] md:text-xs font-bold uppercase tracking-wider border border-dashed rounded transition-all border-cyan-800 text-cyan-600 hover:border-cyan-500 hover:text-cyan-400"
+            >
+                Categories{userCategories.length > 0 ? ` (${userCategories.length})` : ''}
+            </button>
         </div>
       </header>
 
@@ -98,7 +316,7 @@ const App: React.FC = () => {
             <ElementCard 
               key={index} 
               topic={topic} 
-              onClick={setSelectedTopic}
+              onClick={openTopic}
               onSelect={toggleBuilderTopic}
               isSelected={!!builderTopics.find(t => t.symbol === topic.symbol)}
             />
@@ -115,11 +333,11 @@ const App: React.FC = () => {
         </div>
         
         <div className="grid grid-cols-3 gap-6 md:gap-12 px-4 md:px-12">
-            {MEDIA_TOPICS.map((topic, index) => (
+            {mediaTopics.map((topic, index) => (
                 <ElementCard 
                     key={index} 
                     topic={topic} 
-                    onClick={setSelectedTopic}
+                    onClick={openTopic}
                     onSelect={toggleBuilderTopic}
                     isSelected={!!builderTopics.find(t => t.symbol === topic.symbol)}
                 />
@@ -140,7 +358,7 @@ const App: React.FC = () => {
                  <div key={index} className="min-w-[140px] md:min-w-[160px] snap-center">
                     <ElementCard 
                         topic={topic} 
-                        onClick={setSelectedTopic}
+                        onClick={openTopic}
                         onSelect={toggleBuilderTopic}
                         isSelected={!!builderTopics.find(t => t.symbol === topic.symbol)}
                     />
@@ -155,13 +373,68 @@ const App: React.FC = () => {
         onRemove={toggleBuilderTopic}
         // Pass state control down
         onExpandStateChange={setIsBuilderExpanded}
+        onRestoreSelection={restoreBuilderSelection}
+        catalog={allTopics}
+        onAdd={(topic) => { if (!builderTopics.some(t => t.symbol === topic.symbol)) setBuilderTopics([...builderTopics, topic]); }}
       />
 
       {/* --- MODAL --- */}
       {selectedTopic && (
         <Modal 
           topic={selectedTopic} 
+          tab={modalTab}
+          onTabChange={setModalTab}
           onClose={() => setSelectedTopic(null)} 
+          onEdit={(topic) => setEditorTopicId((topic as CustomTopic).id)}
+        />
+      )}
+
+      {/* --- ELEMENT EDITOR --- */}
+      {editorTopicId !== undefined && (
+        <ElementEditor
+          customTopics={customTopics}
+          reservedSymbols={[...BUILT_IN_SYMBOLS, ...merged.topics.map(t => t.symbol)]}
+          categories={categoryRegistry.names()}
+          initialId={editorTopicId}
+          onSave={saveCustomTopic}
+          onDelete={deleteCustomTopic}
+          onClose={() => setEditorTopicId(undefined)}
+        />
+      )}
+
+      {/* --- ELEMENT PACKS --- */}
+      {showPacks && (
+        <PackManager
+          packs={packs}
+          conflicts={merged.conflicts}
+          customTopics={customTopics}
+          extraCategories={categoryRegistry.list().filter(c => !isBuiltInCategory(c.name))}
+          onInstall={installPack}
+          onToggle={togglePack}
+          onRemove={removePack}
+          onClose={() => setShowPacks(false)}
+        />
+      )}
+
+      {/* --- SEARCH --- */}
+      {showPalette && (
+        <CommandPalette
+          topics={allTopics}
+          selectedSymbols={builderTopics.map(t => t.symbol)}
+          onOpen={(topic) => { setShowPalette(false); openTopic(topic); }}
+          onToggleBuilder={toggleBuilderTopic}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+
+      {/* --- CATEGORIES --- */}
+      {showCategories && (
+        <CategoryEditor
+          userCategories={userCategories}
+          elementCounts={customCounts}
+          onSave={saveUserCategory}
+          onDelete={deleteUserCategory}
+          onClose={() => setShowCategories(false)}
         />
       )}
     </div>
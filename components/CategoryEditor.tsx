@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { CategoryDefinition, CategoryGroup, UserCategory } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import {
+  categoryRegistry, CATEGORY_GROUPS, createCategoryId, DEFAULT_GLYPH, DEFAULT_SOUND, SOUND_WAVES, styleFor, validateCategory
+} from '../utils/categoryRegistry';
+
+interface CategoryEditorProps {
+  userCategories: UserCategory[];
+  elementCounts: Record<string, number>; // Custom elements per category; used ones cannot be deleted
+  onSave: (category: UserCategory) => Promise<void>;
+  onDelete: (category: UserCategory) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 rounded px-2 py-1.5 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500";
+const labelClass = "block text-[9px] uppercase font-bold tracking-wider text-gray-500";
+
+const EMPTY_DRAFT: CategoryDefinition = { name: '', color: '#38bdf8', glyph: DEFAULT_GLYPH, group: 'main', sound: DEFAULT_SOUND };
+
+const CategoryEditor: React.FC<CategoryEditorProps> = ({ userCategories, elementCounts, onSave, onDelete, onClose }) => {
+  const [editing, setEditing] = useState<UserCategory | null>(null);
+  const [draft, setDraft] = useState<CategoryDefinition | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const otherCategories = categoryRegistry.list().filter(c => !userCategories.some(u => u.name === c.name));
+
+  const startEdit = (category: UserCategory | null) => {
+    ambientEngine.playSFX('click');
+    setEditing(category);
+    setDraft(category ? { ...category, sound: { ...category.sound } } : { ...EMPTY_DRAFT, sound: { ...DEFAULT_SOUND } });
+    setErrors([]);
+  };
+
+  const updateDraft = (patch: Partial<CategoryDefinition>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const category: CategoryDefinition = {
+      name: draft.name.trim(),
+      color: draft.color.trim().toLowerCase(),
+      glyph: draft.glyph.trim(),
+      group: draft.group,
+      sound: draft.sound,
+      ...(draft.description?.trim() ? { description: draft.description.trim() } : {}),
+    };
+    const taken = categoryRegistry.names().filter(name => name !== editing?.name);
+    const problems = validateCategory(category, taken);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    const now = Date.now();
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...category,
+        id: editing?.id || createCategoryId(),
+        createdAt: editing?.createdAt || now,
+        updatedAt: now,
+      });
+      ambientEngine.playSFX('activate');
+      setDraft(null);
+      setEditing(null);
+    } catch (e: any) {
+      setErrors([e?.message || 'Could not save the category.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: UserCategory) => {
+    const count = elementCounts[category.name] || 0;
+    if (count > 0) {
+      setErrors([`${count} custom element${count === 1 ? '' : 's'} still use "${category.name}". Move them to another category first.`]);
+      return;
+    }
+    if (!window.confirm(`Delete category "${category.name}"?`)) return;
+    try {
+      await onDelete(category);
+      setErrors([]);
+    } catch (e: any) {
+      setErrors([e?.message || 'Could not delete the category.']);
+    }
+  };
+
+  const renderRow = (category: CategoryDefinition, actions?: React.ReactNode) => (
+    <div key={category.name} className="flex items-center gap-3 border border-gray-800 rounded-lg p-3 bg-[#0a0a12]/50">
+      <span className={`w-10 h-10 flex items-center justify-center border-2 rounded text-lg ${styleFor(category).theme}`}>{category.glyph}</span>
+      <div className="flex-grow min-w-0">
+        <div className="text-xs font-bold text-gray-200 truncate">{category.name}</div>
+        <div className="text-[10px] font-mono text-gray-500 uppercase">
+          {CATEGORY_GROUPS.find(g => g.group === category.group)?.label} · {category.sound.wave} {category.sound.frequency}Hz
+        </div>
+      </div>
+      {actions}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[90vh] flex flex-col bg-[#050510] border border-cyan-500/30 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.15)] animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest flex items-center gap-2">
+            <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full"></span>
+            {draft ? (editing ? `Edit ${editing.name}` : 'New Category') : 'Categories'}
+          </h4>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        {!draft && (
+          <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-2">
+            <p className="text-[10px] font-mono text-gray-500">
+              // Categories you add here are stored in this browser. Cards, filters and sounds follow their color, glyph and sound profile.
+            </p>
+            {userCategories.length === 0 && (
+              <div className="text-gray-600 text-xs font-mono py-4 text-center">// No custom categories yet.</div>
+            )}
+            {userCategories.map(category => renderRow(category, (
+              <>
+                <span className="text-[9px] font-mono text-gray-600">{elementCounts[category.name] || 0} el.</span>
+                <button onClick={() => startEdit(category)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-400 hover:text-cyan-400">Edit</button>
+                <button onClick={() => handleDelete(category)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-red-400">Delete</button>
+              </>
+            )))}
+            {errors.length > 0 && <div className="text-[10px] font-mono text-red-400">{errors[0]}</div>}
+
+            <div className="pt-4 space-y-2">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Built-in and pack categories</span>
+              {otherCategories.map(category => renderRow(category))}
+            </div>
+          </div>
+        )}
+
+        {draft && (
+          <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4">
+            <div className="grid grid-cols-[1fr_4rem] gap-2">
+              <label className={labelClass}>
+                Name
+                <input
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  disabled={!!editing}
+                  title={editing ? "Elements refer to a category by name, so it cannot be renamed" : undefined}
+                  placeholder="Mistral"
+                  className={`${inputClass} mt-1 disabled:opacity-50`}
+                />
+              </label>
+              <label className={labelClass}>
+                Glyph
+                <input value={draft.glyph} onChange={(e) => updateDraft({ glyph: e.target.value })} maxLength={2} className={`${inputClass} mt-1 text-center`} />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className={labelClass}>
+                Color
+                <div className="flex gap-2 mt-1">
+                  <input type="color" value={draft.color} onChange={(e) => updateDraft({ color: e.target.value })} className="h-8 w-10 bg-black border border-gray-700 rounded cursor-pointer" />
+                  <input value={draft.color} onChange={(e) => updateDraft({ color: e.target.value })} placeholder="#rrggbb" className={inputClass} />
+                </div>
+              </label>
+              <label className={labelClass}>
+                Group
+                <select value={draft.group} onChange={(e) => updateDraft({ group: e.target.value as CategoryGroup })} className={`${inputClass} mt-1`}>
+                  {CATEGORY_GROUPS.map(({ group, label }) => <option key={group} value={group}>{label}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className={labelClass}>
+                Sound Wave
+                <select value={draft.sound.wave} onChange={(e) => updateDraft({ sound: { ...draft.sound, wave: e.target.value as OscillatorType } })} className={`${inputClass} mt-1`}>
+                  {SOUND_WAVES.map(wave => <option key={wave} value={wave}>{wave}</option>)}
+                </select>
+              </label>
+              <label className={labelClass}>
+                Sound Pitch (Hz)
+                <input
+                  type="number"
+                  min={100}
+                  max={2000}
+                  step={50}
+                  value={draft.sound.frequency}
+                  onChange={(e) => updateDraft({ sound: { ...draft.sound, frequency: Number(e.target.value) } })}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+            <label className={labelClass}>
+              Description
+              <input value={draft.description || ''} onChange={(e) => updateDraft({ description: e.target.value })} className={`${inputClass} mt-1`} />
+            </label>
+
+            {/^#[0-9a-f]{6}$/i.test(draft.color) && (
+              <div className="flex items-center gap-3">
+                <span className={labelClass}>Preview</span>
+                <div className={`w-20 h-20 flex flex-col items-center justify-center border-2 bg-[#0f0e17]/80 transition-all ${styleFor(draft).card} ${styleFor(draft).hover}`}>
+                  <span className="text-[9px] font-mono">{draft.glyph} {draft.name.slice(0, 3) || '---'}</span>
+                  <span className="text-2xl font-bold font-mono">Xx</span>
+                </div>
+              </div>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="text-[10px] font-mono text-red-400 space-y-0.5">
+                {errors.map(error => <li key={error}>✗ {error}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 p-4 border-t border-gray-800">
+          {draft ? (
+            <>
+              <button
+                onClick={() => { setDraft(null); setEditing(null); setErrors([]); }}
+                className="px-4 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:text-white transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? '// Saving...' : 'Save Category'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => startEdit(null)}
+              className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all"
+            >
+              + New Category
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryEditor;
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Topic } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import { categoryRegistry } from '../utils/categoryRegistry';
+import { searchTopics, SemanticIndex } from '../utils/search';
+import { loadSemanticSearch, saveSemanticSearch } from '../utils/settingsStore';
+
+interface CommandPaletteProps {
+  topics: Topic[];
+  selectedSymbols: string[]; // Already in the builder
+  onOpen: (topic: Topic) => void;
+  onToggleBuilder: (topic: Topic) => void;
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ topics, selectedSymbols, onOpen, onToggleBuilder, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [semantic, setSemantic] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadSemanticSearch().then(setSemantic).catch(() => {});
+  }, []);
+
+  // Built on demand; only while semantic search is on
+  const index = useMemo(() => semantic ? SemanticIndex.build(topics) : null, [semantic, topics]);
+  const results = useMemo(() => searchTopics(topics, query, index), [topics, query, index]);
+
+  useEffect(() => setActiveIndex(0), [query, semantic]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const toggleSemantic = () => {
+    const next = !semantic;
+    setSemantic(next);
+    saveSemanticSearch(next).catch(e => console.error("Search setting not saved:", e));
+  };
+
+  const open = (topic: Topic) => {
+    ambientEngine.playSFX('click', topic.category);
+    onOpen(topic);
+  };
+
+  const toggle = (topic: Topic) => {
+    ambientEngine.playSFX('click');
+    onToggleBuilder(topic);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const active = results[activeIndex]?.topic;
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(i => Math.max(i - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (!active) break;
+        if (e.shiftKey) toggle(active);
+        else open(active);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[70vh] flex flex-col bg-[#050510] border border-cyan-500/30 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.15)] animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 p-3 border-b border-gray-800">
+          <span className="text-cyan-500 font-mono text-sm">{'>'}</span>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={semantic ? 'Search elements, or describe what you need...' : 'Search elements...'}
+            className="flex-grow bg-transparent text-sm font-mono text-white placeholder-gray-600 focus:outline-none"
+          />
+          <button
+            onClick={toggleSemantic}
+            title="Also match related concepts, e.g. 'reduce hallucinations' finds Grounding. Runs locally."
+            className={`px-2 py-1 text-[9px] uppercase font-bold tracking-wider border rounded transition-all ${semantic ? 'border-cyan-500 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+          >
+            Semantic {semantic ? 'On' : 'Off'}
+          </button>
+        </div>
+
+        <div ref={listRef} className="flex-grow overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {results.length === 0 && (
+            <div className="text-gray-600 text-xs font-mono py-6 text-center">
+              // No matches{semantic ? '' : '. Try semantic search for descriptive queries'}.
+            </div>
+          )}
+          {results.map((result, i) => {
+            const { topic } = result;
+            const category = categoryRegistry.resolve(topic.category);
+            const inBuilder = selectedSymbols.includes(topic.symbol);
+            return (
+              <div
+                key={`${topic.symbol}-${i}`}
+                onClick={() => open(topic)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer border ${i === activeIndex ? 'border-cyan-500/50 bg-cyan-900/10' : 'border-transparent'}`}
+              >
+                <span className="w-10 text-center text-base font-bold font-mono" style={{ color: category.color }}>{topic.symbol}</span>
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-bold text-gray-200 truncate">{topic.element}</span>
+                    <span className="text-[9px] font-mono uppercase" style={{ color: category.color }}>{category.glyph} {topic.category}</span>
+                    {result.field && (
+                      <span className={`text-[9px] font-mono uppercase ${result.related ? 'text-cyan-600' : 'text-gray-600'}`}>· {result.field}</span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-gray-500 truncate">{result.snippet}</div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); toggle(topic); }}
+                  title={inBuilder ? 'Remove from the builder' : 'Add to the builder (Shift+Enter)'}
+                  className={`shrink-0 px-2 py-1 text-[9px] uppercase font-bold tracking-wider border rounded transition-all ${inBuilder ? 'border-cyan-500 text-cyan-400' : 'border-gray-700 text-gray-400 hover:border-cyan-500 hover:text-cyan-400'}`}
+                >
+                  {inBuilder ? '✓ Added' : '+ Add'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-4 px-4 py-2 border-t border-gray-800 text-[9px] font-mono text-gray-600 uppercase">
+          <span>↑↓ Navigate</span>
+          <span>Enter Open</span>
+          <span>Shift+Enter Add to builder</span>
+          <span>Esc Close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { CompareRun, CompareResult } from '../types';
+import { diffWords } from '../utils/diff';
+import { ambientEngine } from '../utils/audioEngine';
+
+interface CompareViewProps {
+  runs: CompareRun[];
+}
+
+const GRID_COLS: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+};
+
+const formatTokens = (result: CompareResult) =>
+  result.usage ? `${result.usage.inputTokens} in / ${result.usage.outputTokens} out` : '—';
+
+const CompareView: React.FC<CompareViewProps> = ({ runs }) => {
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [baselineIndex, setBaselineIndex] = useState(0);
+  const [showDiff, setShowDiff] = useState(false);
+
+  // Jump to the newest run whenever one is dispatched
+  useEffect(() => {
+    if (runs.length > 0) setActiveRunId(runs[runs.length - 1].id);
+    setBaselineIndex(0);
+  }, [runs.length]);
+
+  const run = runs.find(r => r.id === activeRunId) || runs[runs.length - 1];
+
+  if (!run) {
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-600 opacity-50 pointer-events-none">
+            <div className="text-6xl mb-4 grayscale opacity-50">⚖️</div>
+            <p className="font-mono text-sm uppercase tracking-widest">Compare Mode: Select 2-4 Models</p>
+        </div>
+    );
+  }
+
+  const baseline = run.results[baselineIndex];
+
+  return (
+    <div className="flex flex-col gap-4 h-full">
+        {/* Run History + Diff Toggle */}
+        <div className="flex items-center gap-2 flex-wrap">
+            {runs.map((r, i) => (
+                <button
+                    key={r.id}
+                    onClick={() => { ambientEngine.playSFX('click'); setActiveRunId(r.id); setBaselineIndex(0); }}
+                    title={r.prompt}
+                    className={`px-3 py-1 text-[10px] uppercase font-bold tracking-wider rounded border transition-all ${r.id === run.id ? 'bg-cyan-900/40 border-cyan-400 text-cyan-100' : 'border-gray-800 text-gray-500 hover:border-gray-600'}`}
+                >
+                    Run {i + 1}
+                </button>
+            ))}
+            <button
+                onClick={() => { ambientEngine.playSFX('click'); setShowDiff(!showDiff); }}
+                disabled={run.results.length < 2}
+                className={`ml-auto px-3 py-1 text-[10px] uppercase font-bold tracking-wider rounded border transition-all disabled:opacity-30 ${showDiff ? 'bg-purple-900/40 border-purple-400 text-purple-100' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+            >
+                {showDiff ? 'Diff: On' : 'Diff: Off'}
+            </button>
+        </div>
+
+        <div className="text-xs font-mono text-gray-500 truncate">
+            <span className="text-cyan-500">$</span> {run.prompt}
+            {run.symbols.length > 0 && <span className="ml-2 text-gray-600">[{run.symbols.join(' + ')}]</span>}
+        </div>
+
+        {/* Result Columns */}
+        <div className={`grid grid-cols-1 ${GRID_COLS[run.results.length] || 'md:grid-cols-4'} gap-3 flex-grow min-h-0`}>
+            {run.results.map((result, idx) => {
+                const isBaseline = idx === baselineIndex;
+                const segments = showDiff && !isBaseline && baseline?.status === 'done' && result.status === 'done'
+                    ? diffWords(baseline.text, result.text)
+                    : null;
+
+                return (
+                    <div key={result.modelLabel} className={`flex flex-col border rounded-lg bg-gray-800/30 min-h-0 ${isBaseline && showDiff ? 'border-purple-500/60' : 'border-gray-700'}`}>
+                        <div className="p-3 border-b border-gray-800 flex flex-col gap-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-bold uppercase tracking-wider text-green-400 truncate">{result.modelLabel}</span>
+                                {showDiff && (
+                                    isBaseline
+                                        ? <span className="text-[9px] uppercase font-bold text-purple-400">Baseline</span>
+                                        : <button onClick={() => setBaselineIndex(idx)} className="text-[9px] uppercase font-bold text-gray-500 hover:text-purple-300">Set Baseline</button>
+                                )}
+                            </div>
+                            <div className="flex gap-3 text-[10px] font-mono text-gray-500">
+                                <span>{result.latencyMs !== undefined ? `${(result.latencyMs / 1000).toFixed(2)}s` : '—'}</span>
+                                <span>{formatTokens(result)}</span>
+                            </div>
+                        </div>
+
+                        <div className="p-3 overflow-y-auto custom-scrollbar flex-grow text-sm font-mono whitespace-pre-wrap text-gray-200">
+                            {result.status === 'pending' && <span className="text-gray-500 animate-pulse">// Awaiting response...</span>}
+                            {result.status === 'error' && <span className="text-red-400">// ERROR: {result.error}</span>}
+                            {result.status === 'done' && (segments
+                                ? segments.map((seg, i) => (
+                                    <span
+                                        key={i}
+                                        className={seg.type === 'added' ? 'bg-green-900/50 text-green-200' : seg.type === 'removed' ? 'bg-red-900/40 text-red-300 line-through' : ''}
+                                    >
+                                        {seg.text}
+                                    </span>
+                                ))
+                                : result.text
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Topic } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import { categoryRegistry } from '../utils/categoryRegistry';
+import { CompatibilityReport } from '../utils/compatibility';
+
+interface CompatibilityStripProps {
+  report: CompatibilityReport;
+  onAdd: (topic: Topic) => void;
+}
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-400 border-green-500/50' : score >= 50 ? 'text-yellow-400 border-yellow-500/50' : 'text-red-400 border-red-500/50';
+
+// One line under the reaction chamber: score, the first warning and suggested
+// elements. The full list opens above it so the collapsed builder keeps its height.
+const CompatibilityStrip: React.FC<CompatibilityStripProps> = ({ report, onAdd }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { score, issues, synergies, suggestions } = report;
+
+  return (
+    <div className="flex-shrink-0 relative flex items-center gap-3 text-[10px] font-mono min-w-0">
+      <button
+        onClick={() => { ambientEngine.playSFX('click'); setIsOpen(!isOpen); }}
+        className={`shrink-0 px-2 py-0.5 border rounded font-bold uppercase tracking-wider ${scoreColor(score)}`}
+        title="Show compatibility details"
+      >
+        {score}% Compatible
+      </button>
+
+      <div className="flex-grow min-w-0 truncate">
+        {issues.length > 0 ? (
+          <span className={issues[0].kind === 'conflict' ? 'text-red-400' : 'text-yellow-500'}>
+            ⚠ {issues[0].message}
+            {issues.length > 1 && <span className="text-gray-500"> (+{issues.length - 1} more)</span>}
+          </span>
+        ) : (
+          <span className="text-gray-600">
+            // No conflicts{synergies.length > 0 ? ` · ${synergies.length} synerg${synergies.length === 1 ? 'y' : 'ies'}` : ''}
+          </span>
+        )}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="hidden md:flex items-center gap-1 shrink-0">
+          <span className="text-gray-600 uppercase">Try</span>
+          {suggestions.map(({ topic, reason }) => (
+            <button
+              key={topic.symbol}
+              onClick={() => { ambientEngine.playSFX('click', topic.category); onAdd(topic); }}
+              title={`${topic.element}: ${reason}`}
+              className="px-1.5 py-0.5 border border-gray-700 rounded hover:border-cyan-500 transition-all"
+              style={{ color: categoryRegistry.resolve(topic.category).color }}
+            >
+              + {topic.symbol}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 z-50 w-full md:w-[32rem] max-h-64 overflow-y-auto custom-scrollbar bg-[#050510] border border-cyan-500/30 rounded-lg p-3 space-y-2 shadow-2xl">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-cyan-400 uppercase tracking-widest">Compatibility</span>
+            <button onClick={() => setIsOpen(false)} className="text-gray-500 hover:text-white leading-none">×</button>
+          </div>
+          {issues.length === 0 && <div className="text-gray-500">// No conflicts with each other or the target model.</div>}
+          {issues.map(issue => (
+            <div key={issue.message} className={issue.kind === 'conflict' ? 'text-red-400' : 'text-yellow-500'}>
+              {issue.kind === 'conflict' ? '✗' : '⚠'} {issue.message}
+            </div>
+          ))}
+          {synergies.map(([a, b]) => (
+            <div key={`${a}-${b}`} className="text-green-400">✓ {a} + {b} work well together</div>
+          ))}
+          {suggestions.map(({ topic, reason }) => (
+            <div key={topic.symbol} className="flex items-center justify-between gap-2 text-gray-400">
+              <span>→ {topic.symbol} {topic.element}: {reason}</span>
+              <button
+                onClick={() => { ambientEngine.playSFX('click', topic.category); onAdd(topic); }}
+                className="shrink-0 px-1.5 border border-gray-700 rounded text-cyan-400 hover:border-cyan-500"
+              >
+                + Add
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompatibilityStrip;
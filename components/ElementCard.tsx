@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { Topic, Category, CATEGORY_STYLES, CATEGORY_HOVER_STYLES } from '../types';
+import { Topic, Category } from '../types';
 import { ambientEngine } from '../utils/audioEngine';
+import { categoryRegistry, styleFor } from '../utils/categoryRegistry';
 
 interface ElementCardProps {
   topic: Topic;
@@ -11,9 +12,9 @@ interface ElementCardProps {
 }
 
 const ElementCard: React.FC<ElementCardProps> = ({ topic, onClick, onSelect, isSelected }) => {
-  const category = topic.category as Category;
-  const colorClasses = CATEGORY_STYLES[category] || 'text-gray-400 border-gray-500';
-  const hoverBg = CATEGORY_HOVER_STYLES[category] || 'hover:bg-gray-800';
+  const category = topic.category;
+  const definition = categoryRegistry.resolve(category);
+  const { card: colorClasses, hover: hoverBg } = styleFor(definition);
 
   const baseClasses = `relative flex flex-col justify-between p-3 md:p-4 aspect-square border-2 backdrop-blur-sm cursor-pointer transition-all duration-300 transform group overflow-hidden hover-neon-pulse ${isSelected ? 'ring-2 ring-white scale-95 opacity-100 bg-gray-800' : 'bg-[#0f0e17]/80 hover:-translate-y-1'}`;
 
@@ -62,7 +63,13 @@ const ElementCard: React.FC<ElementCardProps> = ({ topic, onClick, onSelect, isS
 
       <div className="flex justify-between items-start relative z-10">
          <span className="text-xs font-mono opacity-70 group-hover:opacity-100 uppercase tracking-tighter">
-            {category.slice(0, 3)}
+            <span className="mr-0.5 normal-case">{definition.glyph}</span>{category.slice(0, 3)}
+            {topic.custom && (
+              <span className="ml-1 px-1 py-px text-[8px] font-bold border border-current rounded-sm opacity-80" title="Custom element">CUSTOM</span>
+            )}
+            {topic.pack && (
+              <span className="ml-1 px-1 py-px text-[8px] font-bold border border-current rounded-sm opacity-80" title={`From the "${topic.pack}" element pack`}>PACK</span>
+            )}
          </span>
          
          {onSelect ? (
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { Category, CustomTopic, Topic, TopicDetails } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import { compactDetails, createCustomTopicId, validateTopic } from '../utils/customTopicStore';
+
+interface ElementEditorProps {
+  customTopics: CustomTopic[];
+  reservedSymbols: string[]; // Built-ins and symbols from enabled packs
+  categories: string[]; // Built-in categories plus those added by packs
+  initialId?: string | null; // Opens straight into editing this element
+  onSave: (topic: CustomTopic) => Promise<void>;
+  onDelete: (topic: CustomTopic) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 rounded px-2 py-1.5 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500";
+const labelClass = "block text-[9px] uppercase font-bold tracking-wider text-gray-500";
+
+const EMPTY_DRAFT: Topic = { symbol: '', element: '', category: Category.UNIVERSAL, description: '', usage: '', details: {} };
+
+interface RowField {
+  key: string;
+  placeholder: string;
+  multiline?: boolean;
+}
+
+interface RowsEditorProps {
+  label: string;
+  rows: Record<string, string | undefined>[];
+  fields: RowField[];
+  onChange: (rows: Record<string, string>[]) => void;
+}
+
+// Editable list of small records (examples, when-to-use levels, thinking levels)
+const RowsEditor: React.FC<RowsEditorProps> = ({ label, rows, fields, onChange }) => {
+  const blank = () => Object.fromEntries(fields.map(f => [f.key, ''])) as Record<string, string>;
+  const normalized = rows.map(row => ({ ...blank(), ...row }) as Record<string, string>);
+
+  const update = (index: number, key: string, value: string) =>
+    onChange(normalized.map((row, i) => i === index ? { ...row, [key]: value } : row));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>{label}</span>
+        <button
+          onClick={() => onChange([...normalized, blank()])}
+          className="text-[9px] uppercase font-bold tracking-wider text-cyan-500 hover:text-cyan-300"
+        >
+          + Add
+        </button>
+      </div>
+      {normalized.map((row, index) => (
+        <div key={index} className="flex gap-2 items-start">
+          <div className="flex-grow space-y-1">
+            {fields.map(field => field.multiline ? (
+              <textarea
+                key={field.key}
+                value={row[field.key]}
+                onChange={(e) => update(index, field.key, e.target.value)}
+                placeholder={field.placeholder}
+                rows={3}
+                className={`${inputClass} resize-y`}
+              />
+            ) : (
+              <input
+                key={field.key}
+                value={row[field.key]}
+                onChange={(e) => update(index, field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className={inputClass}
+              />
+            ))}
+          </div>
+          <button
+            onClick={() => onChange(normalized.filter((_, i) => i !== index))}
+            className="px-2 py-1 text-gray-600 hover:text-red-400 text-sm leading-none"
+            title="Remove"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ElementEditor: React.FC<ElementEditorProps> = ({ customTopics, reservedSymbols, categories, initialId, onSave, onDelete, onClose }) => {
+  const initial = customTopics.find(t => t.id === initialId) || null;
+  const [editing, setEditing] = useState<CustomTopic | null>(initial);
+  const [draft, setDraft] = useState<Topic | null>(initial);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const details: TopicDetails = draft?.details || {};
+
+  const startEdit = (topic: CustomTopic | null) => {
+    ambientEngine.playSFX('click');
+    setEditing(topic);
+    setDraft(topic ? { ...topic, details: { ...topic.details } } : { ...EMPTY_DRAFT, details: {} });
+    setErrors([]);
+  };
+
+  const updateDraft = (patch: Partial<Topic>) => setDraft(prev => prev && { ...prev, ...patch });
+  const updateDetails = (patch: Partial<TopicDetails>) => setDraft(prev => prev && { ...prev, details: { ...prev.details, ...patch } });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const topic: Topic = {
+      symbol: draft.symbol.trim(),
+      element: draft.element.trim(),
+      category: draft.category,
+      description: draft.description.trim(),
+      usage: draft.usage.trim(),
+      details: compactDetails(details),
+    };
+    const taken = [...reservedSymbols, ...customTopics.filter(t => t.id !== editing?.id).map(t => t.symbol)];
+    const problems = validateTopic(topic, taken, categories);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    const now = Date.now();
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...topic,
+        custom: true,
+        id: editing?.id || createCustomTopicId(),
+        createdAt: editing?.createdAt || now,
+        updatedAt: now,
+      });
+      ambientEngine.playSFX('activate');
+      setDraft(null);
+      setEditing(null);
+    } catch (e: any) {
+      setErrors([e?.message || 'Could not save the element.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (topic: CustomTopic) => {
+    if (!window.confirm(`Delete element "${topic.symbol} · ${topic.element}"?`)) return;
+    try {
+      await onDelete(topic);
+      if (editing?.id === topic.id) {
+        setDraft(null);
+        setEditing(null);
+      }
+    } catch (e: any) {
+      setErrors([e?.message || 'Could not delete the element.']);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#050510] border border-cyan-500/30 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.15)] animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest flex items-center gap-2">
+            <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full"></span>
+            {draft ? (editing ? `Edit ${editing.symbol}` : 'New Element') : 'Custom Elements'}
+          </h4>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        {!draft && (
+          <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-2">
+            <p className="text-[10px] font-mono text-gray-500">
+              // Elements you add here are stored in this browser and placed on the table next to the built-ins.
+            </p>
+            {customTopics.length === 0 && (
+              <div className="text-gray-600 text-xs font-mono py-6 text-center">// No custom elements yet.</div>
+            )}
+            {customTopics.map(topic => (
+              <div key={topic.id} className="flex items-center gap-3 border border-gray-800 rounded-lg p-3 bg-[#0a0a12]/50">
+                <span className="w-12 text-center text-lg font-bold font-mono text-white">{topic.symbol}</span>
+                <div className="flex-grow min-w-0">
+                  <div className="text-xs font-bold text-gray-200 truncate">{topic.element}</div>
+                  <div className="text-[10px] font-mono text-gray-500 uppercase">{topic.category}</div>
+                </div>
+                <button onClick={() => startEdit(topic)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-400 hover:text-cyan-400">Edit</button>
+                <button onClick={() => handleDelete(topic)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-red-400">Delete</button>
+              </div>
+            ))}
+            {errors.length > 0 && <div className="text-[10px] font-mono text-red-400">{errors[0]}</div>}
+          </div>
+        )}
+
+        {draft && (
+          <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4">
+            <div className="grid grid-cols-[6rem_1fr_10rem] gap-2">
+              <label className={labelClass}>
+                Symbol
+                <input value={draft.symbol} onChange={(e) => updateDraft({ symbol: e.target.value })} placeholder="Rf" maxLength={4} className={`${inputClass} mt-1`} />
+              </label>
+              <label className={labelClass}>
+                Element
+                <input value={draft.element} onChange={(e) => updateDraft({ element: e.target.value })} placeholder="Reflection" className={`${inputClass} mt-1`} />
+              </label>
+              <label className={labelClass}>
+                Category
+                <select value={draft.category} onChange={(e) => updateDraft({ category: e.target.value })} className={`${inputClass} mt-1`}>
+                  {categories.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+                </select>
+              </label>
+            </div>
+            <label className={labelClass}>
+              Description
+              <textarea value={draft.description} onChange={(e) => updateDraft({ description: e.target.value })} rows={2} className={`${inputClass} mt-1 resize-y`} />
+            </label>
+            <label className={labelClass}>
+              Usage
+              <textarea value={draft.usage} onChange={(e) => updateDraft({ usage: e.target.value })} rows={2} className={`${inputClass} mt-1 resize-y`} />
+            </label>
+
+            <div className="border-t border-gray-800 pt-4 space-y-3">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Details (shown in the element view)</span>
+              <div className="grid grid-cols-2 gap-2">
+                <label className={labelClass}>
+                  Title
+                  <input value={details.title || ''} onChange={(e) => updateDetails({ title: e.target.value })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className={labelClass}>
+                  Subtitle
+                  <input value={details.subtitle || ''} onChange={(e) => updateDetails({ subtitle: e.target.value })} className={`${inputClass} mt-1`} />
+                </label>
+              </div>
+              <label className={labelClass}>
+                Body
+                <textarea value={details.body || ''} onChange={(e) => updateDetails({ body: e.target.value })} rows={4} className={`${inputClass} mt-1 resize-y`} />
+              </label>
+              <label className={labelClass}>
+                Best Practices (one per line)
+                <textarea
+                  value={(details.best_practices || []).join('\n')}
+                  onChange={(e) => updateDetails({ best_practices: e.target.value.split('\n') })}
+                  rows={4}
+                  className={`${inputClass} mt-1 resize-y`}
+                />
+              </label>
+              <RowsEditor
+                label="Examples"
+                rows={details.examples || []}
+                fields={[{ key: 'type', placeholder: 'Label, e.g. Good / Poor' }, { key: 'content', placeholder: 'Example prompt', multiline: true }]}
+                onChange={(rows) => updateDetails({ examples: rows as { type: string; content: string }[] })}
+              />
+              <label className={labelClass}>
+                Configuration Code
+                <textarea value={details.configuration_code || ''} onChange={(e) => updateDetails({ configuration_code: e.target.value })} rows={5} spellCheck={false} className={`${inputClass} mt-1 resize-y`} />
+              </label>
+              <RowsEditor
+                label="When to Use"
+                rows={details.when_to_use || []}
+                fields={[{ key: 'level', placeholder: 'Level, e.g. Low' }, { key: 'description', placeholder: 'Description' }, { key: 'use_cases', placeholder: 'Use cases' }]}
+                onChange={(rows) => updateDetails({ when_to_use: rows as { level: string; description?: string; use_cases?: string }[] })}
+              />
+              <RowsEditor
+                label="Thinking Levels"
+                rows={details.thinking_levels || []}
+                fields={[{ key: 'keyword', placeholder: 'Keyword' }, { key: 'description', placeholder: 'Description' }]}
+                onChange={(rows) => updateDetails({ thinking_levels: rows as { keyword: string; description: string }[] })}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <label className={labelClass}>
+                  Critical Note
+                  <textarea value={details.critical_note || ''} onChange={(e) => updateDetails({ critical_note: e.target.value })} rows={2} className={`${inputClass} mt-1 resize-y`} />
+                </label>
+                <label className={labelClass}>
+                  Marketing Note
+                  <textarea value={details.marketing_note || ''} onChange={(e) => updateDetails({ marketing_note: e.target.value })} rows={2} className={`${inputClass} mt-1 resize-y`} />
+                </label>
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-[10px] font-mono text-red-400 space-y-0.5">
+                {errors.map(error => <li key={error}>✗ {error}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 p-4 border-t border-gray-800">
+          {draft ? (
+            <>
+              <button
+                onClick={() => { setDraft(null); setEditing(null); setErrors([]); }}
+                className="px-4 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:text-white transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? '// Saving...' : 'Save Element'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => startEdit(null)}
+              className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all"
+            >
+              + New Element
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ElementEditor;
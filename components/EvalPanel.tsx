@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EvalCase, EvalCaseResult, EvalCheck, EvalCheckKind, EvalRun, EvalSuite } from '../types';
+import { resolveModel, ModelRoute } from '../utils/llm';
+import { EvalRubricData } from '../utils/outputGenerators';
+import { runEvalCase, createEvalId, passedChecks, isCasePassing, EVAL_CHECK_LABELS, isValidJudgeThreshold } from '../utils/evalRunner';
+import { ambientEngine } from '../utils/audioEngine';
+
+interface EvalPanelProps {
+  suite: EvalSuite;
+  onSuiteChange: React.Dispatch<React.SetStateAction<EvalSuite>>;
+  prompt: string | null; // Latest refined prompt; null until the builder has produced one
+  rubric: EvalRubricData | null;
+  targetModel: string;
+  meterRoute: (route: ModelRoute) => ModelRoute; // Counts the run's usage toward the session cost
+  isOverBudget: boolean;
+}
+
+const CHECK_PLACEHOLDERS: Record<EvalCheckKind, string> = {
+  contains: 'Expected text',
+  regex: 'Pattern, e.g. ^\\d+ items',
+  jsonSchema: '{"type": "object", "required": ["answer"]}',
+  judge: 'Min score (default: rubric passing score)',
+};
+
+const inputClass = "w-full bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500";
+
+const EvalPanel: React.FC<EvalPanelProps> = ({ suite, onSuiteChange, prompt, rubric, targetModel, meterRoute, isOverBudget }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ runId: string; caseId: string } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // --- CASE EDITING ---
+
+  const updateCase = (id: string, patch: Partial<EvalCase>) => {
+    onSuiteChange(prev => ({ ...prev, cases: prev.cases.map(c => c.id === id ? { ...c, ...patch } : c) }));
+  };
+
+  const updateCheck = (evalCase: EvalCase, checkId: string, patch: Partial<EvalCheck>) => {
+    updateCase(evalCase.id, { checks: evalCase.checks.map(ch => ch.id === checkId ? { ...ch, ...patch } : ch) });
+  };
+
+  const addCase = () => {
+    ambientEngine.playSFX('click');
+    const evalCase: EvalCase = {
+      id: createEvalId('case'),
+      name: `Case ${suite.cases.length + 1}`,
+      input: '',
+      checks: [{ id: createEvalId('check'), kind: 'contains', value: '' }],
+    };
+    onSuiteChange(prev => ({ ...prev, cases: [...prev.cases, evalCase] }));
+  };
+
+  const removeCase = (id: string) => {
+    ambientEngine.playSFX('close');
+    onSuiteChange(prev => ({ ...prev, cases: prev.cases.filter(c => c.id !== id) }));
+  };
+
+  // --- RUNNING ---
+
+  const handleRun = async () => {
+    if (!prompt || suite.cases.length === 0) return;
+    const resolved = resolveModel(targetModel);
+    if (!resolved) {
+      setRunError("No model is configured. Add an API key to run evals.");
+      return;
+    }
+    if (isOverBudget) {
+      setRunError("Session budget cap reached. Raise it to run evals.");
+      return;
+    }
+    const route = meterRoute(resolved);
+
+    ambientEngine.playSFX('activate');
+    setRunError(null);
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const cases = suite.cases.filter(c => c.input.trim());
+    const run: EvalRun = {
+      id: createEvalId('eval'),
+      createdAt: Date.now(),
+      modelLabel: route.model.label,
+      prompt,
+      results: cases.map(c => ({ caseId: c.id, status: 'pending', output: '', checks: [] })),
+    };
+    onSuiteChange(prev => ({ ...prev, runs: [...prev.runs, run] }));
+    setIsRunning(true);
+
+    const updateResult = (caseId: string, result: EvalCaseResult) => {
+      onSuiteChange(prev => ({
+        ...prev,
+        runs: prev.runs.map(r => r.id !== run.id ? r : { ...r, results: r.results.map(res => res.caseId === caseId ? result : res) })
+      }));
+    };
+
+    await Promise.all(cases.map(async evalCase => {
+      try {
+        updateResult(evalCase.id, await runEvalCase(route, prompt, evalCase, rubric, { signal: controller.signal }));
+      } catch (e: any) {
+        updateResult(evalCase.id, {
+          caseId: evalCase.id,
+          status: 'error',
+          output: '',
+          error: controller.signal.aborted ? 'Stopped by user.' : (e?.message || 'Request failed.'),
+          checks: [],
+        });
+      }
+    }));
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRunning(false);
+    ambientEngine.playSFX('close');
+  };
+
+  const selectedRun = selected && suite.runs.find(r => r.id === selected.runId);
+  const selectedResult = selectedRun?.results.find(r => r.caseId === selected?.caseId);
+  const selectedCase = suite.cases.find(c => c.id === selected?.caseId);
+
+  return (
+    <div className="flex flex-col gap-4 h-full overflow-y-auto custom-scrollbar pr-1">
+        {/* Header */}
+        <div className="flex items-start gap-4">
+            <div className="flex-1 min-w-0">
+                <div className="text-[10px] font-bold uppercase tracking-widest text-cyan-400 mb-1">Prompt Under Test · {targetModel}</div>
+                <div className="text-xs font-mono text-gray-400 truncate">{prompt || '// Generate a refined prompt first'}</div>
+                <div className={`text-[10px] font-mono mt-1 ${rubric ? 'text-green-500' : 'text-gray-600'}`}>
+                    {rubric ? `// Judge rubric: ${rubric.title}` : '// No Eval Rubric generated; judge checks will fail'}
+                </div>
+            </div>
+            {isRunning ? (
+                <button onClick={handleStop} className="bg-red-600 hover:bg-red-500 text-white font-bold px-6 py-2 rounded-lg uppercase tracking-wider text-xs animate-pulse">Stop</button>
+            ) : (
+                <button
+                    onClick={handleRun}
+                    disabled={!prompt || !suite.cases.some(c => c.input.trim())}
+                    className="disabled:opacity-50 disabled:cursor-not-allowed bg-cyan-600 hover:bg-cyan-500 text-white font-bold px-6 py-2 rounded-lg uppercase tracking-wider text-xs transition-all"
+                >
+                    Run Suite
+                </button>
+            )}
+        </div>
+        {runError && <div className="text-[10px] font-mono text-red-400">// {runError}</div>}
+
+        {/* Pass/Fail Matrix */}
+        {suite.runs.length > 0 && suite.cases.length > 0 && (
+            <div className="overflow-x-auto custom-scrollbar">
+                <table className="text-xs border-collapse">
+                    <thead>
+                        <tr className="text-[10px] uppercase tracking-wider text-gray-500">
+                            <th className="text-left p-2 border-b border-gray-700 min-w-[140px]">Case</th>
+                            {suite.runs.map((run, i) => {
+                                const passed = run.results.filter(isCasePassing).length;
+                                return (
+                                    <th key={run.id} className="p-2 border-b border-gray-700 font-mono whitespace-nowrap" title={run.prompt}>
+                                        Run {i + 1}
+                                        <div className="text-[9px] normal-case text-gray-600">{run.modelLabel} · {passed}/{run.results.length}</div>
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {suite.cases.map(evalCase => (
+                            <tr key={evalCase.id}>
+                                <td className="p-2 border-b border-gray-800 text-gray-300 truncate max-w-[200px]">{evalCase.name}</td>
+                                {suite.runs.map(run => {
+                                    const result = run.results.find(r => r.caseId === evalCase.id);
+                                    const isSelected = selected?.runId === run.id && selected?.caseId === evalCase.id;
+                                    const judgeScore = result?.checks.find(c => c.score !== undefined)?.score;
+                                    return (
+                                        <td key={run.id} className="p-1 border-b border-gray-800 text-center">
+                                            {!result ? <span className="text-gray-700">—</span> : (
+                                                <button
+                                                    onClick={() => { ambientEngine.playSFX('click'); setSelected({ runId: run.id, caseId: evalCase.id }); }}
+                                                    className={`w-full px-2 py-1 rounded border font-mono text-[10px] transition-all ${isSelected ? 'ring-1 ring-white' : ''} ${
+                                                        result.status === 'pending' ? 'border-gray-700 text-gray-500 animate-pulse'
+                                                        : result.status === 'error' ? 'border-yellow-700 text-yellow-500'
+                                                        : isCasePassing(result) ? 'border-green-600 bg-green-900/30 text-green-300' : 'border-red-600 bg-red-900/30 text-red-300'
+                                                    }`}
+                                                >
+                                                    {result.status === 'pending' ? '···' : result.status === 'error' ? 'ERR' : `${isCasePassing(result) ? '✓' : '✗'} ${passedChecks(result)}/${result.checks.length}`}
+                                                    {judgeScore !== undefined && <span className="ml-1 opacity-70">★{judgeScore}</span>}
+                                                </button>
+                                            )}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+
+        {/* Selected Result */}
+        {selectedResult && selectedCase && (
+            <div className="border border-gray-700 rounded-lg p-3 bg-[#050510]">
+                <div className="flex justify-between mb-2 text-[10px] uppercase font-bold tracking-widest text-gray-500">
+                    <span>{selectedCase.name}</span>
+                    <button onClick={() => setSelected(null)} className="hover:text-white">×</button>
+                </div>
+                {selectedResult.error && <div className="text-[10px] font-mono text-yellow-500 mb-2">// {selectedResult.error}</div>}
+                {selectedResult.output && <pre className="text-xs font-mono text-gray-300 whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar mb-2">{selectedResult.output}</pre>}
+                {selectedResult.checks.map(result => {
+                    const check = selectedCase.checks.find(c => c.id === result.checkId);
+                    return (
+                        <div key={result.checkId} className={`text-[10px] font-mono ${result.pass ? 'text-green-400' : 'text-red-400'}`}>
+                            {result.pass ? '✓' : '✗'} {check ? `${EVAL_CHECK_LABELS[check.kind]} ${check.value}` : 'Removed check'}
+                            {result.score !== undefined && ` · score ${result.score}`}
+                            {result.detail && <div className="pl-4 text-gray-500 whitespace-pre-wrap">{result.detail}</div>}
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+
+        {/* Case Editor */}
+        <div className="space-y-3">
+            {suite.cases.map(evalCase => (
+                <div key={evalCase.id} className="border border-gray-800 rounded-lg p-3 bg-[#0a0a12]/50 space-y-2">
+                    <div className="flex gap-2">
+                        <input value={evalCase.name} onChange={(e) => updateCase(evalCase.id, { name: e.target.value })} className={inputClass} />
+                        <button onClick={() => removeCase(evalCase.id)} className="text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-red-400">Remove</button>
+                    </div>
+                    <textarea
+                        rows={2}
+                        value={evalCase.input}
+                        onChange={(e) => updateCase(evalCase.id, { input: e.target.value })}
+                        placeholder="Test input sent as the user message"
+                        className={`${inputClass} resize-y`}
+                    />
+                    {evalCase.checks.map(check => (
+                        <div key={check.id} className="flex gap-2 items-start">
+                            <select
+                                value={check.kind}
+                                onChange={(e) => updateCheck(evalCase, check.id, { kind: e.target.value as EvalCheckKind })}
+                                className="bg-black border border-gray-700 rounded px-1 py-1 text-[10px] font-mono text-gray-300 focus:outline-none"
+                            >
+                                {(Object.keys(EVAL_CHECK_LABELS) as EvalCheckKind[]).map(kind => <option key={kind} value={kind}>{EVAL_CHECK_LABELS[kind]}</option>)}
+                            </select>
+                            {check.kind === 'jsonSchema' ? (
+                                <textarea rows={2} value={check.value} onChange={(e) => updateCheck(evalCase, check.id, { value: e.target.value })} placeholder={CHECK_PLACEHOLDERS[check.kind]} className={`${inputClass} resize-y`} />
+                            ) : (
+                                <input
+                                    value={check.value}
+                                    onChange={(e) => updateCheck(evalCase, check.id, { value: e.target.value })}
+                                    placeholder={CHECK_PLACEHOLDERS[check.kind]}
+                                    title={check.kind === 'judge' && !isValidJudgeThreshold(check.value) ? 'Not a number; this check will fail until fixed' : undefined}
+                                    className={`${inputClass} ${check.kind === 'judge' && !isValidJudgeThreshold(check.value) ? 'border-red-500' : ''}`}
+                                />
+                            )}
+                            <button
+                                onClick={() => updateCase(evalCase.id, { checks: evalCase.checks.filter(c => c.id !== check.id) })}
+                                className="text-gray-600 hover:text-red-400 text-sm leading-none pt-1"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => updateCase(evalCase.id, { checks: [...evalCase.checks, { id: createEvalId('check'), kind: 'contains', value: '' }] })}
+                        className="text-[9px] uppercase font-bold tracking-wider text-cyan-500 hover:text-cyan-300"
+                    >
+                        + Check
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={addCase}
+                className="w-full py-2 border border-dashed border-cyan-500/50 text-cyan-400 text-[10px] uppercase font-bold tracking-widest rounded hover:bg-cyan-900/20 transition-all"
+            >
+                + Test Case
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default EvalPanel;
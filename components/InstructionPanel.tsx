@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InstructionOverride } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import { previewJSON, RequestPreview } from '../utils/requestPreview';
+
+interface InstructionPanelProps {
+  previews: RequestPreview[]; // One per request the next send makes (several in compare mode)
+  generated: string; // Instruction built from the selection, before any override
+  override: InstructionOverride | null;
+  isChatStale: boolean; // The live chat started with a different instruction than the current one
+  onPin: (override: InstructionOverride) => void;
+  onUnpin: () => void;
+  onRestartChat: () => void;
+}
+
+const MODE_LABELS: Record<InstructionOverride['mode'], string> = {
+  replace: 'Replace generated',
+  append: 'Append to generated',
+};
+
+const InstructionPanel: React.FC<InstructionPanelProps> = ({ previews, generated, override, isChatStale, onPin, onUnpin, onRestartChat }) => {
+  const [mode, setMode] = useState<InstructionOverride['mode']>(override?.mode || 'replace');
+  const [draft, setDraft] = useState(override?.text ?? generated);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const generatedRef = useRef(generated);
+
+  // Follow session switches; an unpinned draft starts from the generated text
+  useEffect(() => {
+    setMode(override?.mode || 'replace');
+    setDraft(override?.text ?? generated);
+  }, [override]);
+
+  // An untouched draft keeps up with selection changes
+  useEffect(() => {
+    setDraft(prev => !override && prev === generatedRef.current ? generated : prev);
+    generatedRef.current = generated;
+  }, [generated]);
+
+  const changeMode = (next: InstructionOverride['mode']) => {
+    ambientEngine.playSFX('click');
+    setMode(next);
+    if (!override) setDraft(next === 'replace' ? generated : '');
+  };
+
+  const pin = () => {
+    ambientEngine.playSFX('activate');
+    onPin({ mode, text: draft });
+  };
+
+  const unpin = () => {
+    ambientEngine.playSFX('close');
+    onUnpin();
+  };
+
+  const copy = (preview: RequestPreview, index: number) => {
+    navigator.clipboard.writeText(previewJSON(preview));
+    ambientEngine.playSFX('click');
+    setCopiedIndex(index);
+    setTimeout(() => setCopiedIndex(null), 2000);
+  };
+
+  const isUnchanged = !!override && override.mode === mode && override.text === draft;
+
+  return (
+    <div className="flex flex-col gap-4 h-full overflow-y-auto custom-scrollbar pr-1">
+        {/* Instruction Editor */}
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="text-[10px] font-bold uppercase tracking-widest text-cyan-400">
+                    System Instruction
+                    <span className={`ml-2 font-mono ${override ? 'text-yellow-400' : 'text-gray-600'}`}>
+                        {override ? `// Pinned · ${MODE_LABELS[override.mode]}` : '// Generated from the selection'}
+                    </span>
+                </div>
+                <div className="flex gap-1">
+                    {(['replace', 'append'] as const).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => changeMode(m)}
+                            className={`px-2 py-1 text-[9px] uppercase font-bold tracking-wider border rounded transition-all ${mode === m ? 'border-cyan-500 text-cyan-400 bg-cyan-900/20' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            {MODE_LABELS[m]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={8}
+                placeholder={mode === 'append' ? 'Extra instructions, added after the generated ones...' : 'System instruction...'}
+                className="w-full bg-black border border-gray-700 rounded p-3 text-xs font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-cyan-500 resize-y custom-scrollbar"
+            />
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={pin}
+                    disabled={!draft.trim() || isUnchanged}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {override ? 'Update Pin' : 'Pin to Session'}
+                </button>
+                {override && (
+                    <button onClick={unpin} className="px-3 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-red-500 hover:text-red-400 transition-all">
+                        Unpin
+                    </button>
+                )}
+                {mode === 'replace' && draft !== generated && (
+                    <button onClick={() => setDraft(generated)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-cyan-400">
+                        Reset to Generated
+                    </button>
+                )}
+            </div>
+            <p className="text-[10px] font-mono text-gray-600">
+                // A pinned instruction is saved with this session and used for chat, outputs and compare runs until unpinned.
+            </p>
+        </div>
+
+        {isChatStale && (
+            <div className="flex items-center justify-between gap-3 border border-yellow-700/50 bg-yellow-900/10 rounded p-2 text-[10px] font-mono text-yellow-500">
+                <span>⚠ The open chat keeps the instruction it started with. The current one applies once the chat restarts; history is replayed.</span>
+                <button onClick={onRestartChat} className="shrink-0 px-2 py-1 border border-yellow-600 rounded uppercase font-bold tracking-wider hover:bg-yellow-900/30">
+                    Restart Chat
+                </button>
+            </div>
+        )}
+
+        {/* Payload Preview */}
+        {previews.map((preview, i) => (
+            <div key={`${preview.modelLabel}-${i}`} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-purple-400">
+                        {preview.kind === 'chat'
+                            ? `Next Request · ${preview.liveChat ? 'Live chat' : 'New chat'}`
+                            : `Next Request · ${preview.outputType} (structured)`}
+                        <span className="ml-2 font-mono text-gray-500 normal-case">{preview.modelLabel} via {preview.providerLabel}</span>
+                    </div>
+                    <button onClick={() => copy(preview, i)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-400 hover:text-cyan-400">
+                        {copiedIndex === i ? '✓ Copied' : 'Copy JSON'}
+                    </button>
+                </div>
+                <pre className="max-h-80 overflow-auto custom-scrollbar bg-black/60 border border-gray-800 rounded p-3 text-[10px] font-mono text-gray-300 whitespace-pre-wrap break-words">
+                    {previewJSON(preview)}
+                </pre>
+            </div>
+        ))}
+    </div>
+  );
+};
+
+export default InstructionPanel;
@@ -0,0 +1,380 @@
+import React, { useState, useEffect } from 'react';
+import {
+  DEFAULT_MOCK_CONFIG, PROVIDER_CONFIG, PROVIDER_IDS, CredentialMap, MockConfig, ProviderId, ProxyStatus,
+  connectProxy, createProvider, getProviderLabel, isProviderConfigured, setMockMode, setProviderCredentials
+} from '../utils/llm';
+import { keyVault, MIN_PASSPHRASE_LENGTH } from '../utils/keyVault';
+import { loadMockSetting, loadProxyUrl, saveMockSetting, saveProxyUrl } from '../utils/settingsStore';
+import { ambientEngine } from '../utils/audioEngine';
+
+type TestState = { status: 'testing' } | { status: 'ok'; latencyMs: number } | { status: 'error'; message: string };
+
+const inputClass = "w-full bg-black border border-gray-700 rounded px-2 py-1.5 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500";
+
+// Drops blank entries so an empty field means "not configured"
+const sanitize = (drafts: CredentialMap): CredentialMap =>
+  Object.fromEntries(
+    Object.entries(drafts)
+      .filter(([, c]) => c?.apiKey.trim())
+      .map(([id, c]) => [id, { apiKey: c!.apiKey.trim(), ...(c!.baseUrl?.trim() ? { baseUrl: c!.baseUrl.trim() } : {}) }])
+  );
+
+const KeySettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [vaultExists, setVaultExists] = useState<boolean | null>(null);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [drafts, setDrafts] = useState<CredentialMap>({});
+  const [revealed, setRevealed] = useState<ProviderId | null>(null);
+  const [tests, setTests] = useState<Partial<Record<ProviderId, TestState>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [proxyUrl, setProxyUrl] = useState('');
+  const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null>(null);
+  const [isProxyChecking, setIsProxyChecking] = useState(true);
+  const [isMockEnabled, setIsMockEnabled] = useState(false);
+  const [mockConfig, setMockConfig] = useState<MockConfig>(DEFAULT_MOCK_CONFIG);
+
+  useEffect(() => {
+    keyVault.exists().then(setVaultExists).catch(e => {
+      console.error("Key vault unavailable:", e);
+      setVaultExists(false);
+    });
+
+    // Prefer the proxy whenever one answers, before any keys are unlocked
+    loadProxyUrl()
+      .then(url => {
+        setProxyUrl(url);
+        return connectProxy(url);
+      })
+      .then(setProxyStatus)
+      .catch(e => console.error("Proxy detection failed:", e))
+      .finally(() => setIsProxyChecking(false));
+
+    loadMockSetting()
+      .then(({ enabled, config }) => {
+        setIsMockEnabled(enabled);
+        setMockConfig(config);
+        if (enabled) setMockMode(config);
+      })
+      .catch(e => console.error("Failed to load mock settings:", e));
+  }, []);
+
+  const configuredCount = PROVIDER_IDS.filter(isProviderConfigured).length;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e?.message || "Something went wrong.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    if (!vaultExists) {
+      if (passphrase !== confirmPassphrase) throw new Error("Passphrases do not match.");
+      await keyVault.create(passphrase);
+      setVaultExists(true);
+      setDrafts({});
+      setProviderCredentials({});
+    } else {
+      const credentials = await keyVault.unlock(passphrase);
+      setDrafts(credentials);
+      setProviderCredentials(credentials);
+    }
+    ambientEngine.playSFX('activate');
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setIsUnlocked(true);
+  });
+
+  const handleSave = () => run(async () => {
+    const credentials = sanitize(drafts);
+    await keyVault.save(credentials);
+    setProviderCredentials(credentials);
+    ambientEngine.playSFX('activate');
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  });
+
+  const handleLock = () => {
+    ambientEngine.playSFX('close');
+    keyVault.lock();
+    setProviderCredentials({});
+    setDrafts({});
+    setTests({});
+    setIsUnlocked(false);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Delete all saved keys? This cannot be undone.")) return;
+    run(async () => {
+      await keyVault.destroy();
+      setProviderCredentials({});
+      setDrafts({});
+      setTests({});
+      setIsUnlocked(false);
+      setVaultExists(false);
+    });
+  };
+
+  const handleConnectProxy = async () => {
+    ambientEngine.playSFX('click');
+    setIsProxyChecking(true);
+    try {
+      await saveProxyUrl(proxyUrl);
+      setProxyStatus(await connectProxy(proxyUrl));
+    } catch (e: any) {
+      setError(e?.message || "Could not save the proxy URL.");
+    } finally {
+      setIsProxyChecking(false);
+    }
+  };
+
+  const applyMock = (enabled: boolean, config: MockConfig) => {
+    setIsMockEnabled(enabled);
+    setMockConfig(config);
+    setMockMode(enabled ? config : null);
+    saveMockSetting(enabled, config).catch(e => console.error("Failed to save mock settings:", e));
+  };
+
+  const handleTest = async (id: ProviderId) => {
+    const entry = sanitize(drafts)[id];
+    if (!entry) return;
+    ambientEngine.playSFX('click');
+    setTests(prev => ({ ...prev, [id]: { status: 'testing' } }));
+    const started = performance.now();
+    try {
+      await createProvider(id, entry).testConnection({ signal: AbortSignal.timeout(15000) });
+      setTests(prev => ({ ...prev, [id]: { status: 'ok', latencyMs: performance.now() - started } }));
+    } catch (e: any) {
+      setTests(prev => ({ ...prev, [id]: { status: 'error', message: e?.message || 'Connection failed.' } }));
+    }
+  };
+
+  const updateDraft = (id: ProviderId, patch: { apiKey?: string; baseUrl?: string }) => {
+    setDrafts(prev => ({ ...prev, [id]: { apiKey: '', ...prev[id], ...patch } }));
+    setTests(prev => ({ ...prev, [id]: undefined }));
+  };
+
+  return (
+    <>
+    <button
+        onClick={() => { ambientEngine.playSFX('click'); setIsOpen(true); }}
+        className={`fixed top-4 left-4 z-50 flex items-center gap-2 px-3 h-8 rounded-full border backdrop-blur-md text-[10px] font-bold uppercase tracking-wider transition-all ${
+            configuredCount > 0 ? 'bg-green-900/40 border-green-500/30 text-green-400' : 'bg-black/40 border-gray-800 text-gray-400 hover:text-white'
+        }`}
+        title="API keys"
+    >
+        {isMockEnabled
+            ? '◌ Mock Mode'
+            : proxyStatus
+            ? `⇄ Proxy${proxyStatus.mock ? ' · Mock' : ''}`
+            : configuredCount > 0 ? `🔑 ${configuredCount} Key${configuredCount === 1 ? '' : 's'}` : '🔒 Keys'}
+    </button>
+
+    {isOpen && (
+        <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setIsOpen(false)}>
+            <div
+                className="w-full max-w-lg max-h-[85vh] flex flex-col bg-[#050510] border border-cyan-500/30 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.15)] animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-800">
+                    <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest flex items-center gap-2">
+                        <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full"></span>
+                        Provider Keys
+                    </h4>
+                    <button onClick={() => setIsOpen(false)} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4">
+                    <p className="text-[10px] font-mono text-gray-500">
+                        // Keys are encrypted with your passphrase and stored only in this browser. They are sent directly to each provider.
+                    </p>
+
+                    {/* Proxy */}
+                    <div className="border border-gray-800 rounded-lg p-3 space-y-2 bg-[#0a0a12]/50">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-gray-200">Proxy Server</span>
+                            {isProxyChecking
+                                ? <span className="text-[10px] font-mono text-gray-500 animate-pulse">// Checking...</span>
+                                : proxyStatus
+                                    ? <span className="text-[10px] font-mono text-green-400">✓ {proxyStatus.mock ? 'Mock mode' : `${proxyStatus.providers.length} provider${proxyStatus.providers.length === 1 ? '' : 's'}`}</span>
+                                    : <span className="text-[10px] font-mono text-gray-500">Not detected</span>}
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                value={proxyUrl}
+                                onChange={(e) => setProxyUrl(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleConnectProxy()}
+                                placeholder="Same origin (or e.g. http://localhost:8787)"
+                                className={inputClass}
+                            />
+                            <button
+                                onClick={handleConnectProxy}
+                                disabled={isProxyChecking}
+                                className="px-3 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-cyan-500 hover:text-cyan-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                            >
+                                Connect
+                            </button>
+                        </div>
+                        <p className="text-[10px] font-mono text-gray-600">// Providers the proxy serves use its keys; the rest use keys saved below.</p>
+                    </div>
+
+                    {/* Mock Mode */}
+                    <div className={`border rounded-lg p-3 space-y-2 bg-[#0a0a12]/50 ${isMockEnabled ? 'border-yellow-600/50' : 'border-gray-800'}`}>
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-gray-200">Mock Mode</span>
+                            <button
+                                onClick={() => { ambientEngine.playSFX('click'); applyMock(!isMockEnabled, mockConfig); }}
+                                className={`px-3 py-1 text-[10px] uppercase font-bold tracking-widest rounded border transition-all ${isMockEnabled ? 'border-yellow-500 text-yellow-400 bg-yellow-900/20' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+                            >
+                                {isMockEnabled ? 'On' : 'Off'}
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-[9px] uppercase font-bold tracking-wider text-gray-500">
+                                Latency (ms)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={100}
+                                    value={mockConfig.latencyMs}
+                                    onChange={(e) => applyMock(isMockEnabled, { ...mockConfig, latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+                                    className={`${inputClass} mt-1`}
+                                />
+                            </label>
+                            <label className="text-[9px] uppercase font-bold tracking-wider text-gray-500">
+                                Error Rate (%)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={Math.round(mockConfig.errorRate * 100)}
+                                    onChange={(e) => applyMock(isMockEnabled, { ...mockConfig, errorRate: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                                    className={`${inputClass} mt-1`}
+                                />
+                            </label>
+                        </div>
+                        <p className="text-[10px] font-mono text-gray-600">// Serves every provider offline with deterministic fixtures; overrides the proxy and saved keys.</p>
+                    </div>
+
+                    {vaultExists === null && <div className="text-gray-600 text-xs font-mono animate-pulse">// Opening vault...</div>}
+
+                    {vaultExists !== null && !isUnlocked && (
+                        <div className="space-y-2">
+                            <input
+                                type="password"
+                                autoFocus
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && vaultExists && handleUnlock()}
+                                placeholder={vaultExists ? 'Passphrase' : `New passphrase (min ${MIN_PASSPHRASE_LENGTH} characters)`}
+                                className={inputClass}
+                            />
+                            {!vaultExists && (
+                                <input
+                                    type="password"
+                                    value={confirmPassphrase}
+                                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                                    placeholder="Confirm passphrase"
+                                    className={inputClass}
+                                />
+                            )}
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleUnlock}
+                                    disabled={!passphrase || isBusy}
+                                    className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isBusy ? '// Deriving key...' : vaultExists ? 'Unlock' : 'Create Vault'}
+                                </button>
+                                {vaultExists && (
+                                    <button onClick={handleReset} className="px-3 text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-red-400">Forgot? Reset</button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {isUnlocked && PROVIDER_IDS.map(id => {
+                        const draft = drafts[id];
+                        const test = tests[id];
+                        const supportsBaseUrl = id !== 'gemini' && id !== 'anthropic';
+                        return (
+                            <div key={id} className="border border-gray-800 rounded-lg p-3 space-y-2 bg-[#0a0a12]/50">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-bold text-gray-200">
+                                        {getProviderLabel(id)}
+                                        {proxyStatus?.providers.includes(id) && <span className="ml-2 text-[9px] font-mono text-green-400 uppercase">via proxy</span>}
+                                    </span>
+                                    {test?.status === 'testing' && <span className="text-[10px] font-mono text-gray-500 animate-pulse">// Testing...</span>}
+                                    {test?.status === 'ok' && <span className="text-[10px] font-mono text-green-400">✓ Connected · {Math.round(test.latencyMs)}ms</span>}
+                                    {test?.status === 'error' && <span className="text-[10px] font-mono text-red-400 truncate max-w-[60%]" title={test.message}>✗ {test.message}</span>}
+                                </div>
+                                <div className="flex gap-2">
+                                    <input
+                                        type={revealed === id ? 'text' : 'password'}
+                                        value={draft?.apiKey || ''}
+                                        onChange={(e) => updateDraft(id, { apiKey: e.target.value })}
+                                        placeholder="API key"
+                                        autoComplete="off"
+                                        className={inputClass}
+                                    />
+                                    <button onClick={() => setRevealed(revealed === id ? null : id)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-white">
+                                        {revealed === id ? 'Hide' : 'Show'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleTest(id)}
+                                        disabled={!draft?.apiKey.trim() || test?.status === 'testing'}
+                                        className="px-3 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-cyan-500 hover:text-cyan-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                                    >
+                                        Test
+                                    </button>
+                                </div>
+                                {supportsBaseUrl && (
+                                    <input
+                                        value={draft?.baseUrl || ''}
+                                        onChange={(e) => updateDraft(id, { baseUrl: e.target.value })}
+                                        placeholder={`Base URL (default: ${PROVIDER_CONFIG[id].baseUrl || 'https://api.openai.com/v1'})`}
+                                        className={inputClass}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {error && <div className="text-[10px] font-mono text-red-400">// {error}</div>}
+                </div>
+
+                {isUnlocked && (
+                    <div className="flex gap-2 p-4 border-t border-gray-800">
+                        <button onClick={handleLock} className="px-4 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all">
+                            Lock
+                        </button>
+                        <button onClick={handleReset} className="px-4 py-2 text-[10px] uppercase font-bold tracking-widest text-gray-500 hover:text-red-400">
+                            Reset
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isBusy}
+                            className="ml-auto px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50"
+                        >
+                            {isSaved ? '✓ Saved' : 'Save Keys'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    )}
+    </>
+  );
+};
+
+export default KeySettings;
@@ -1,29 +1,34 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Topic, Category } from '../types';
-import { GoogleGenAI, Chat } from "@google/genai";
+import { Topic, Category, Slide, SessionUsage, ElementTab } from '../types';
+import {
+  addUsage, formatCost, formatTokens, getMockProvider, getModelInfo, getProvider, EMPTY_USAGE, LLMChat, MeteredProvider,
+  errorSummary
+} from '../utils/llm';
 import { ambientEngine } from '../utils/audioEngine';
+import { generateStructured, describeStructuredError, SLIDES_SPEC } from '../utils/structuredResponse';
+import { categoryRegistry, styleFor } from '../utils/categoryRegistry';
+
+const TUTOR_MODEL = getModelInfo('Gemini 2.5 Flash')!;
 
 interface ModalProps {
   topic: Topic | null;
+  tab: ElementTab; // Controlled so the open tab can live in the URL
+  onTabChange: (tab: ElementTab) => void;
   onClose: () => void;
+  onEdit?: (topic: Topic) => void; // Offered for custom elements only
 }
 
 interface Message {
   role: 'user' | 'model';
   text: string;
   image?: string;
+  retry?: string; // On error bubbles: the message the Retry button sends again
 }
 
-interface Slide {
-    title: string;
-    subtitle?: string;
-    points: string[];
-    visualDescription?: string; // for image gen
-    imageUrl?: string;
-}
+const TUTOR_OPENING = "Begin the deep dive review now.";
 
-type Tab = 'overview' | 'specs' | 'code' | 'examples';
+const errorText = (e: unknown) => `// ${errorSummary(e)}`;
 
 const LOADING_MESSAGES = [
     "// Accessing Global Knowledge Base...",
@@ -41,10 +46,10 @@ const PRESENTATION_LOADING_MESSAGES = [
     "// Finalizing Deck Export..."
 ];
 
-const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
+const Modal: React.FC<ModalProps> = ({ topic, tab, onTabChange, onClose, onEdit }) => {
   const [generatedBg, setGeneratedBg] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [activeTab, setActiveTab] = useState<Tab>('overview');
+  const [bgError, setBgError] = useState<string | null>(null);
 
   // Tutor Mode State
   const [isTutorMode, setIsTutorMode] = useState(false);
@@ -52,7 +57,8 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
   const [tutorInput, setTutorInput] = useState("");
   const [isTutorLoading, setIsTutorLoading] = useState(false);
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<LLMChat | null>(null);
+  const [tutorUsage, setTutorUsage] = useState<SessionUsage>(EMPTY_USAGE);
   const tutorScrollRef = useRef<HTMLDivElement>(null);
 
   // Presentation Mode State
@@ -94,26 +100,8 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
 
   if (!topic) return null;
 
-  const getColor = (cat: string) => {
-    switch (cat) {
-      case Category.UNIVERSAL: return 'text-green-400 border-green-500';
-      case Category.GEMINI: return 'text-pink-400 border-pink-500';
-      case Category.OPENAI: return 'text-cyan-400 border-cyan-500';
-      case Category.CLAUDE: return 'text-orange-400 border-orange-500';
-      case Category.GROK: return 'text-gray-100 border-gray-400';
-      case Category.PERPLEXITY: return 'text-teal-400 border-teal-500';
-      case Category.OPENSOURCE: return 'text-yellow-400 border-yellow-500';
-      case Category.COMMAND: return 'text-purple-400 border-purple-500';
-      // Media Series
-      case Category.VIDEO: return 'text-purple-500 border-purple-500';
-      case Category.AUDIO: return 'text-blue-500 border-blue-500';
-      case Category.VOICE: return 'text-orange-500 border-orange-500';
-      default: return 'text-white border-white';
-    }
-  };
-
-  const themeColor = getColor(topic.category);
-  const themeHex = themeColor.includes('pink') ? '#ec4899' : themeColor.includes('cyan') ? '#06b6d4' : themeColor.includes('green') ? '#4ade80' : '#a855f7';
+  const category = categoryRegistry.resolve(topic.category);
+  const { theme: themeColor, hex: themeHex } = styleFor(category);
 
   const details = topic.details;
 
@@ -121,44 +109,39 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
   const showSpecs = details?.thinking_levels || details?.when_to_use;
   const showCode = details?.configuration_code;
   const showExamples = details?.examples && details.examples.length > 0;
+  // A tab this element doesn't have (e.g. from a link) shows the overview
+  const activeTab: ElementTab = (tab === 'specs' && showSpecs) || (tab === 'code' && showCode) || (tab === 'examples' && showExamples) ? tab : 'overview';
   
   // Reset state on topic change
   useEffect(() => {
-    setActiveTab('overview');
     setIsTutorMode(false);
     setIsPresentationMode(false);
     setTutorMessages([]);
     setChatSession(null);
+    setTutorUsage(EMPTY_USAGE);
     setSlides([]);
+    setBgError(null);
   }, [topic]);
 
   const handleGenerateBackground = async () => {
-    if (!process.env.API_KEY) {
+    const provider = getProvider('gemini');
+    if (!provider) {
        setGeneratedBg("simulated");
        return;
     }
 
     setIsGenerating(true);
+    setBgError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const prompt = `Abstract, futuristic, neon digital art representing: "${topic.element}". Dark background, cyber aesthetic, high quality, 1k resolution.`;
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: prompt }] },
-      });
-
-      let imageUrl = null;
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
+      const imageUrl = await provider.generateImage({ model: 'gemini-2.5-flash-image', prompt });
       if (imageUrl) setGeneratedBg(imageUrl);
+      else setBgError("// ERROR: The model returned no image.");
     } catch (e) {
+      // The button stays up, so generating again is the retry
       console.error(e);
-      setGeneratedBg("simulated"); 
+      setBgError(errorText(e));
     } finally {
       setIsGenerating(false);
     }
@@ -169,15 +152,14 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
     setIsTutorLoading(true);
     setLoadingMsgIndex(0);
 
-    if (!process.env.API_KEY) {
-        setTutorMessages([{ role: 'model', text: "Simulation: API Key missing. Please provide an API key to generate a real deep dive review and infographic."}]);
-        setIsTutorLoading(false);
-        return;
-    }
+    // Without a Gemini key the tutor runs against the offline mock
+    const provider = new MeteredProvider(
+        getProvider('gemini') || getMockProvider('gemini'),
+        TUTOR_MODEL,
+        usage => setTutorUsage(prev => addUsage(prev, usage, TUTOR_MODEL))
+    );
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
         // 1. Init Chat
         const systemInstruction = `You are an expert AI Tutor specialized in Prompt Engineering. 
         Topic: ${topic.element} (${topic.category}).
@@ -189,48 +171,50 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
         
         Tone: Engaging, Futuristic, Educational. Use formatting.`;
 
-        const chat = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction,
-                tools: [{ googleSearch: {} }]
-            }
+        const chat = provider.createChat({
+            model: TUTOR_MODEL.modelId,
+            systemInstruction,
+            enableSearch: true
         });
         setChatSession(chat);
 
         // 2. Generate Image (Parallel)
-        const imagePromise = ai.models.generateContent({
+        // A failed infographic only drops the picture, not the review
+        const imagePromise = provider.generateImage({
             model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: `Futuristic neon infographic block diagram explaining the concept of "${topic.element}" in software engineering. Dark background, glowing cyan/purple lines, schematic style, text labels, high tech.` }] }
+            prompt: `Futuristic neon infographic block diagram explaining the concept of "${topic.element}" in software engineering. Dark background, glowing cyan/purple lines, schematic style, text labels, high tech.`
+        }).catch(e => {
+            console.warn("Tutor infographic failed:", e);
+            return null;
         });
 
         // 3. Generate Text (Initial Review)
-        const textPromise = chat.sendMessage({ message: "Begin the deep dive review now." });
+        const textPromise = chat.sendMessage({ text: TUTOR_OPENING });
 
-        const [imageRes, textRes] = await Promise.all([imagePromise, textPromise]);
-
-        let imageUrl = undefined;
-        for (const part of imageRes.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-                break;
-            }
-        }
+        const [imageUrl, textRes] = await Promise.all([imagePromise, textPromise]);
 
         setTutorMessages([{
             role: 'model',
             text: textRes.text || "Error generating text.",
-            image: imageUrl
+            image: imageUrl || undefined
         }]);
 
     } catch (e) {
         console.error(e);
-        setTutorMessages([{ role: 'model', text: "Error initializing Tutor Mode. Please check console." }]);
+        setTutorMessages([{ role: 'model', text: errorText(e), retry: TUTOR_OPENING }]);
     } finally {
         setIsTutorLoading(false);
     }
   };
 
+  // Drops the error bubble and re-sends its message; the user bubble is already there
+  const handleTutorRetry = (index: number) => {
+      const retry = tutorMessages[index]?.retry;
+      if (!retry || isTutorLoading) return;
+      setTutorMessages(prev => prev.filter((_, i) => i !== index));
+      handleTutorSend(retry);
+  };
+
   const handleTutorSend = async (msgOverride?: string) => {
       const textToSend = msgOverride || tutorInput;
       if (!textToSend.trim() || !chatSession) return;
@@ -246,11 +230,11 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
       setLoadingMsgIndex(0);
 
       try {
-          const res = await chatSession.sendMessage({ message: textToSend });
+          const res = await chatSession.sendMessage({ text: textToSend });
           setTutorMessages(prev => [...prev, { role: 'model', text: res.text }]);
       } catch (e) {
           console.error(e);
-          setTutorMessages(prev => [...prev, { role: 'model', text: "Error sending message." }]);
+          setTutorMessages(prev => [...prev, { role: 'model', text: errorText(e), retry: textToSend }]);
       } finally {
           setIsTutorLoading(false);
       }
@@ -262,22 +246,9 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
     setLoadingMsgIndex(0);
     setCurrentSlide(0);
 
-    if (!process.env.API_KEY) {
-        // Mock Slides
-        setTimeout(() => {
-            setSlides([
-                { title: topic.element, subtitle: "Simulation: API Key Missing", points: ["Please add API Key for real content."], visualDescription: "" },
-                { title: "Concept", points: [topic.description], visualDescription: "" },
-                { title: "Usage", points: [topic.usage], visualDescription: "" }
-            ]);
-            setIsPresentationLoading(false);
-        }, 2000);
-        return;
-    }
+    const provider = getProvider('gemini') || getMockProvider('gemini');
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
         // 1. Generate Slide Content (JSON)
         const prompt = `Create a professional 4-slide presentation on "${topic.element}" (${topic.category}). 
         Slide 1: Title & Catchy Subtitle.
@@ -287,19 +258,7 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
         
         Return pure JSON array of objects with keys: title, subtitle (optional), points (array of strings), visualDescription (for image generation).`;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: prompt }] },
-            config: { responseMimeType: 'application/json' }
-        });
-
-        let generatedSlides: Slide[] = [];
-        try {
-            generatedSlides = JSON.parse(response.text || "[]");
-        } catch (e) {
-            console.error("Failed to parse slides JSON", e);
-            generatedSlides = [{ title: "Error", points: ["Failed to generate slides."], visualDescription: "" }];
-        }
+        const generatedSlides = await generateStructured(provider, { model: 'gemini-2.5-flash', prompt }, SLIDES_SPEC);
 
         // 2. Generate One Hero Image for the deck (to save time/quota, or could do per slide)
         // Let's do a hero image for Slide 1
@@ -307,18 +266,10 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
             const imagePrompt = generatedSlides[0].visualDescription || `Futuristic digital art representing ${topic.element}`;
             
             try {
-                const imgRes = await ai.models.generateContent({
+                const imageUrl = await provider.generateImage({
                     model: 'gemini-2.5-flash-image',
-                    contents: { parts: [{ text: imagePrompt + " Neon style, dark background, 16:9 aspect ratio." }] }
+                    prompt: imagePrompt + " Neon style, dark background, 16:9 aspect ratio."
                 });
-                
-                let imageUrl = undefined;
-                for (const part of imgRes.candidates?.[0]?.content?.parts || []) {
-                    if (part.inlineData) {
-                        imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-                        break;
-                    }
-                }
                 if (imageUrl) generatedSlides[0].imageUrl = imageUrl;
 
             } catch (e) {
@@ -330,7 +281,8 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
 
     } catch (e) {
         console.error(e);
-        setSlides([{ title: "Error", points: ["Could not generate presentation."], visualDescription: "" }]);
+        const [summary, ...details] = describeStructuredError(e);
+        setSlides([{ title: "Error", subtitle: summary, points: details.length ? details : ["Could not generate presentation."], visualDescription: "" }]);
     } finally {
         setIsPresentationLoading(false);
     }
@@ -386,8 +338,21 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                 {topic.element}
               </h2>
               <span className={`inline-flex items-center px-4 py-1.5 text-xs font-bold border ${themeColor} rounded-full mb-8 uppercase tracking-widest bg-black/30 backdrop-blur-md shadow-lg`}>
-                {topic.category}
+                <span className="mr-2 normal-case">{category.glyph}</span>{topic.category}
               </span>
+              {topic.custom && (
+                <span className="inline-flex items-center gap-2 ml-2 px-3 py-1.5 text-[10px] font-bold border border-white/30 text-white/70 rounded-full uppercase tracking-widest bg-black/30">
+                  Custom
+                  {onEdit && (
+                    <button onClick={() => { ambientEngine.playSFX('click'); onEdit(topic); }} className="text-cyan-400 hover:text-cyan-200">· Edit</button>
+                  )}
+                </span>
+              )}
+              {topic.pack && (
+                <span className="inline-flex items-center ml-2 px-3 py-1.5 text-[10px] font-bold border border-white/30 text-white/70 rounded-full uppercase tracking-widest bg-black/30" title={`From the "${topic.pack}" element pack`}>
+                  Pack · {topic.pack}
+                </span>
+              )}
           </div>
 
           <div className="mb-10 relative z-10">
@@ -419,12 +384,15 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                     <span className="animate-pulse">Generating Matrix...</span>
                  ) : (
                     <>
-                        <span>Generate Neural Background</span>
+                        <span>{bgError ? 'Retry Neural Background' : 'Generate Neural Background'}</span>
                         <span className="opacity-50 group-hover:opacity-100 transition-opacity">⚡</span>
                     </>
                  )}
               </button>
           )}
+          {topic.category === Category.GEMINI && !generatedBg && !isPresentationMode && bgError && (
+              <div className="mt-2 font-mono text-xs text-red-400 break-words">{bgError}</div>
+          )}
         </div>
 
         {/* Main Content Area */}
@@ -542,14 +510,14 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                 {/* Tabs Header - Sticky */}
                 <div className="flex border-b border-gray-800 shrink-0 sticky top-0 z-30 bg-[#0f0e17]/95 backdrop-blur-xl">
                     <button 
-                        onClick={() => { ambientEngine.playSFX('click'); setActiveTab('overview'); }}
+                        onClick={() => { ambientEngine.playSFX('click'); onTabChange('overview'); }}
                         className={`flex-1 md:flex-none px-8 py-5 text-sm font-bold uppercase tracking-wider transition-all ${activeTab === 'overview' ? 'text-white border-b-2 ' + themeColor.split(' ')[1] + ' bg-white/5' : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}`}
                     >
                         Overview
                     </button>
                     {showSpecs && (
                         <button 
-                            onClick={() => { ambientEngine.playSFX('click'); setActiveTab('specs'); }}
+                            onClick={() => { ambientEngine.playSFX('click'); onTabChange('specs'); }}
                             className={`flex-1 md:flex-none px-8 py-5 text-sm font-bold uppercase tracking-wider transition-all ${activeTab === 'specs' ? 'text-white border-b-2 ' + themeColor.split(' ')[1] + ' bg-white/5' : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}`}
                         >
                             Specs
@@ -557,7 +525,7 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                     )}
                     {showCode && (
                         <button 
-                            onClick={() => { ambientEngine.playSFX('click'); setActiveTab('code'); }}
+                            onClick={() => { ambientEngine.playSFX('click'); onTabChange('code'); }}
                             className={`flex-1 md:flex-none px-8 py-5 text-sm font-bold uppercase tracking-wider transition-all ${activeTab === 'code' ? 'text-white border-b-2 ' + themeColor.split(' ')[1] + ' bg-white/5' : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}`}
                         >
                             Config
@@ -565,7 +533,7 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                     )}
                     {showExamples && (
                         <button 
-                            onClick={() => { ambientEngine.playSFX('click'); setActiveTab('examples'); }}
+                            onClick={() => { ambientEngine.playSFX('click'); onTabChange('examples'); }}
                             className={`flex-1 md:flex-none px-8 py-5 text-sm font-bold uppercase tracking-wider transition-all ${activeTab === 'examples' ? 'text-white border-b-2 ' + themeColor.split(' ')[1] + ' bg-white/5' : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}`}
                         >
                             Examples
@@ -749,6 +717,11 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                         <div className="flex items-center gap-2 mt-1">
                             <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>
                             <p className="text-[10px] text-gray-500 font-mono uppercase">Gemini 2.5 • Live Research • Visualizing</p>
+                            {tutorUsage.requests > 0 && (
+                                <p className="text-[10px] text-gray-600 font-mono" title={`${formatTokens(tutorUsage.inputTokens)} in / ${formatTokens(tutorUsage.outputTokens)} out`}>
+                                    • {formatTokens(tutorUsage.inputTokens + tutorUsage.outputTokens)} tok · {formatCost(tutorUsage.cost)}
+                                </p>
+                            )}
                         </div>
                     </div>
                     <button 
@@ -779,6 +752,15 @@ const Modal: React.FC<ModalProps> = ({ topic, onClose }) => {
                                 <div className="prose prose-invert prose-sm md:prose-base max-w-none font-mono whitespace-pre-wrap leading-loose">
                                     {msg.text}
                                 </div>
+                                {msg.retry && (
+                                    <button
+                                        onClick={() => handleTutorRetry(idx)}
+                                        disabled={isTutorLoading}
+                                        className="mt-4 px-4 py-1.5 text-xs font-mono font-bold uppercase tracking-widest border border-red-500/60 text-red-300 rounded-lg hover:bg-red-900/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        ↻ Retry
+                                    </button>
+                                )}
                             </div>
                         </div>
                     ))}
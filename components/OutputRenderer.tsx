@@ -0,0 +1,145 @@
+import React from 'react';
+import { GeneratedOutput } from '../types';
+import {
+  getOutputGenerator, structuredData, rubricScores, EvalRubricData, FineTuningData, ReasoningChainData, SkillsFileData, SystemPromptData
+} from '../utils/outputGenerators';
+import { downloadFile } from '../utils/sessionExport';
+import { ambientEngine } from '../utils/audioEngine';
+
+interface OutputRendererProps {
+  output: GeneratedOutput;
+  text: string; // Rendered text, or the raw response when the schema failed
+}
+
+const Label: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-[10px] font-bold uppercase tracking-widest text-cyan-400 mb-2">{children}</div>
+);
+
+const Pre: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <pre className="bg-[#050510] border border-gray-700 rounded p-3 text-xs font-mono whitespace-pre-wrap overflow-x-auto">{children}</pre>
+);
+
+const renderBody = (output: GeneratedOutput, text: string) => {
+  switch (output.type) {
+    case 'System Prompt': {
+      const data = output.data as SystemPromptData;
+      return (
+        <>
+          <Label>System Prompt — {data.title}</Label>
+          <Pre>{data.system_prompt}</Pre>
+          {data.variables.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {data.variables.map(v => <span key={v} className="px-2 py-0.5 text-[10px] font-mono border border-purple-500/50 text-purple-300 rounded">{`{{${v}}}`}</span>)}
+            </div>
+          )}
+        </>
+      );
+    }
+    case 'Skills File': {
+      const data = output.data as SkillsFileData;
+      return (
+        <>
+          <Label>Skill — {data.name}</Label>
+          <Pre>{text}</Pre>
+        </>
+      );
+    }
+    case 'Reasoning Chain': {
+      const data = output.data as ReasoningChainData;
+      return (
+        <>
+          <Label>Reasoning Chain — {data.title}</Label>
+          <ol className="space-y-2 mb-3">
+            {data.steps.map((s, i) => (
+              <li key={i} className="flex gap-3 text-sm">
+                <span className="text-cyan-400 font-mono font-bold">{i + 1}</span>
+                <div>
+                  <div className="text-gray-200">{s.step}</div>
+                  <div className="text-xs text-gray-500">{s.rationale}</div>
+                </div>
+              </li>
+            ))}
+          </ol>
+          <Pre>{data.final_prompt}</Pre>
+        </>
+      );
+    }
+    case 'Eval Rubric': {
+      const data = output.data as EvalRubricData;
+      const scores = rubricScores(data);
+      return (
+        <>
+          <Label>Eval Rubric — {data.title}</Label>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-wider text-gray-500">
+                  <th className="text-left p-2 border-b border-gray-700">Criterion</th>
+                  <th className="p-2 border-b border-gray-700">Weight</th>
+                  {scores.map(s => <th key={s} className="p-2 border-b border-gray-700 font-mono">{s}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {data.criteria.map(c => (
+                  <tr key={c.name} className="align-top">
+                    <td className="p-2 border-b border-gray-800">
+                      <div className="font-bold text-gray-200">{c.name}</div>
+                      <div className="text-gray-500">{c.description}</div>
+                    </td>
+                    <td className="p-2 border-b border-gray-800 text-center font-mono text-green-400">{c.weight}%</td>
+                    {scores.map(s => (
+                      <td key={s} className="p-2 border-b border-gray-800 text-gray-400">{c.levels.find(l => l.score === s)?.descriptor || '—'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-2 text-[10px] font-mono uppercase tracking-widest text-gray-500">Passing score: <span className="text-green-400">{data.passing_score}</span></div>
+        </>
+      );
+    }
+    case 'Fine-Tuning JSONL': {
+      const data = output.data as FineTuningData;
+      return (
+        <>
+          <Label>Fine-Tuning JSONL — {data.examples.length} examples</Label>
+          <Pre>{text}</Pre>
+        </>
+      );
+    }
+    default:
+      return <Pre>{text}</Pre>;
+  }
+};
+
+const OutputRenderer: React.FC<OutputRendererProps> = ({ output, text }) => {
+  const generator = getOutputGenerator(output.type);
+  const isStructured = structuredData(output) !== null;
+  const file = isStructured && generator?.toFile ? generator.toFile(output.data) : null;
+
+  return (
+    <div className="font-sans">
+        {isStructured ? renderBody(output, text) : <Pre>{text}</Pre>}
+
+        {output.errors.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-dashed border-red-700/50 space-y-1">
+                {output.errors.map((err, i) => (
+                    <div key={i} className="text-[10px] font-mono text-red-400">// {err}</div>
+                ))}
+            </div>
+        )}
+
+        {file && (
+            <button
+                onClick={() => { ambientEngine.playSFX('click'); downloadFile(file.name, file.content, file.mimeType); }}
+                className="mt-3 px-3 py-1.5 border border-cyan-500/50 text-cyan-400 text-[10px] uppercase font-bold tracking-widest rounded hover:bg-cyan-900/20 transition-all"
+            >
+                ↓ Download {file.name}
+            </button>
+        )}
+    </div>
+  );
+};
+
+export default OutputRenderer;
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { CategoryDefinition, CustomTopic, ElementPack, InstalledPack } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import { downloadFile } from '../utils/sessionExport';
+import { toPackCategory } from '../utils/categoryRegistry';
+import { fetchPack, PackConflict, packFileName, PackImportError, packId, parsePack, toPackJSON } from '../utils/elementPacks';
+
+interface PackManagerProps {
+  packs: InstalledPack[];
+  conflicts: PackConflict[];
+  customTopics: CustomTopic[];
+  extraCategories: CategoryDefinition[]; // User and pack categories; exported along with custom elements that use them
+  onInstall: (pack: ElementPack, source: string) => Promise<void>;
+  onToggle: (installed: InstalledPack) => Promise<void>;
+  onRemove: (installed: InstalledPack) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 rounded px-2 py-1.5 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500";
+const buttonClass = "px-3 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed";
+
+const PackManager: React.FC<PackManagerProps> = ({ packs, conflicts, customTopics, extraCategories, onInstall, onToggle, onRemove, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [exportDraft, setExportDraft] = useState({ name: 'My Elements', version: '1.0.0', author: '' });
+
+  const sorted = [...packs].sort((a, b) => a.installedAt - b.installedAt);
+
+  const install = async (load: () => Promise<ElementPack>, source: string) => {
+    setErrors([]);
+    setIsImporting(true);
+    try {
+      const pack = await load();
+      const existing = packs.find(p => p.id === packId(pack));
+      if (existing && !window.confirm(`Replace installed pack "${existing.pack.name}" v${existing.pack.version} with v${pack.version}?`)) return;
+      await onInstall(pack, source);
+      ambientEngine.playSFX('activate');
+      setUrl('');
+    } catch (e: any) {
+      setErrors(e instanceof PackImportError
+        ? [e.message, ...e.errors.slice(0, 5), ...(e.errors.length > 5 ? [`...and ${e.errors.length - 5} more.`] : [])]
+        : [e?.message || "Import failed."]);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await install(async () => parsePack(await file.text(), file.name), file.name);
+  };
+
+  const handleUrl = () => {
+    const source = url.trim();
+    if (source) install(() => fetchPack(source), source);
+  };
+
+  const handleRemove = async (installed: InstalledPack) => {
+    if (!window.confirm(`Remove pack "${installed.pack.name}" and its ${installed.pack.topics.length} elements?`)) return;
+    ambientEngine.playSFX('close');
+    await onRemove(installed);
+  };
+
+  const exportPack = (pack: ElementPack) => {
+    ambientEngine.playSFX('click');
+    downloadFile(packFileName(pack), toPackJSON(pack), 'application/json');
+  };
+
+  const exportCustom = () => {
+    const used = new Set(customTopics.map(t => t.category));
+    const categories = extraCategories.filter(c => used.has(c.name)).map(toPackCategory);
+    exportPack({
+      name: exportDraft.name.trim() || 'My Elements',
+      version: exportDraft.version.trim() || '1.0.0',
+      author: exportDraft.author.trim() || 'Unknown',
+      ...(categories.length ? { categories } : {}),
+      topics: customTopics,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#050510] border border-cyan-500/30 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.15)] animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest flex items-center gap-2">
+            <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full"></span>
+            Element Packs
+          </h4>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4">
+          <div className="space-y-2">
+            <p className="text-[10px] font-mono text-gray-500">
+              // Packs are JSON files of elements. Enabled packs are merged into the table; a symbol already on the table is skipped.
+            </p>
+            <div className="flex gap-2">
+              <input
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUrl()}
+                placeholder="https://example.com/pack.json"
+                className={inputClass}
+              />
+              <button onClick={handleUrl} disabled={isImporting || !url.trim()} className={buttonClass}>Load URL</button>
+              <button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className={buttonClass}>Import File</button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+            </div>
+            {isImporting && <div className="text-[10px] font-mono text-gray-500 animate-pulse">// Loading pack...</div>}
+            {errors.length > 0 && (
+              <ul className="text-[10px] font-mono text-red-400 space-y-0.5">
+                {errors.map(error => <li key={error}>✗ {error}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {sorted.length === 0 && (
+              <div className="text-gray-600 text-xs font-mono py-6 text-center">// No packs installed.</div>
+            )}
+            {sorted.map(installed => {
+              const { pack } = installed;
+              const skipped = installed.enabled ? conflicts.filter(c => c.pack === pack.name) : [];
+              return (
+                <div key={installed.id} className={`border rounded-lg p-3 bg-[#0a0a12]/50 ${installed.enabled ? 'border-gray-700' : 'border-gray-800 opacity-60'}`}>
+                  <div className="flex items-center gap-3">
+                    <div className="flex-grow min-w-0">
+                      <div className="text-xs font-bold text-gray-200 truncate">
+                        {pack.name} <span className="font-mono text-gray-500">v{pack.version}</span>
+                      </div>
+                      <div className="text-[10px] font-mono text-gray-500 truncate" title={installed.source}>
+                        by {pack.author} · {pack.topics.length} elements
+                        {pack.categories?.length ? ` · ${pack.categories.length} categories` : ''}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => { ambientEngine.playSFX('click'); onToggle(installed); }}
+                      className={`px-2 text-[9px] uppercase font-bold tracking-wider ${installed.enabled ? 'text-cyan-400 hover:text-cyan-200' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                      {installed.enabled ? 'Enabled' : 'Disabled'}
+                    </button>
+                    <button onClick={() => exportPack(pack)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-400 hover:text-cyan-400">Export</button>
+                    <button onClick={() => handleRemove(installed)} className="px-2 text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-red-400">Remove</button>
+                  </div>
+                  {pack.description && <p className="mt-1 text-[10px] text-gray-400">{pack.description}</p>}
+                  {pack.categories && pack.categories.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {pack.categories.map(category => (
+                        <span key={category.name} className="px-1.5 py-px text-[9px] font-bold uppercase border rounded-sm" style={{ color: category.color, borderColor: category.color }} title={category.description}>
+                          {category.glyph ? `${category.glyph} ` : ''}{category.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {skipped.length > 0 && (
+                    <div className="mt-1 text-[10px] font-mono text-yellow-500">
+                      // Skipped (symbol already on the table): {skipped.map(c => c.symbol).join(', ')}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="border-t border-gray-800 pt-4 space-y-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Export custom elements as a pack</span>
+            <div className="grid grid-cols-[1fr_6rem_1fr] gap-2">
+              <input value={exportDraft.name} onChange={(e) => setExportDraft({ ...exportDraft, name: e.target.value })} placeholder="Pack name" className={inputClass} />
+              <input value={exportDraft.version} onChange={(e) => setExportDraft({ ...exportDraft, version: e.target.value })} placeholder="1.0.0" className={inputClass} />
+              <input value={exportDraft.author} onChange={(e) => setExportDraft({ ...exportDraft, author: e.target.value })} placeholder="Author" className={inputClass} />
+            </div>
+            <button
+              onClick={exportCustom}
+              disabled={customTopics.length === 0}
+              className="w-full py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {customTopics.length > 0 ? `Export ${customTopics.length} Custom Elements` : '// No custom elements to export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PackManager;
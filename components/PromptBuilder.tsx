@@ -1,21 +1,43 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Topic, Category, PlanData } from '../types';
-import { GoogleGenAI, Chat } from "@google/genai";
+import { Topic, Category, PlanData, CompareRun, CompareResult, BuilderMessage, BuilderSession, EvalSuite, PromptVersion, VersionSource, SessionUsage, RetryRequest, Recipe, LinkState, InstructionOverride } from '../types';
+import {
+  getModelInfo, getProvider, getProviderLabel, isProviderConfigured, onCredentialsChange, resolveMockModel, resolveModel,
+  addUsage, estimateContext, formatCost, formatTokens, EMPTY_USAGE, MeteredProvider, errorSummary,
+  ChatOptions, ChatTurn, JSONRequest, LLMChat, LLMProvider, ModelInfo, ModelRoute, TokenUsage, MODEL_REGISTRY
+} from '../utils/llm';
 import { ambientEngine } from '../utils/audioEngine';
 import Whiteboard from './Whiteboard';
+import CompareView from './CompareView';
+import SessionDrawer from './SessionDrawer';
+import { sessionStore, createSessionId } from '../utils/sessionStore';
+import { toMarkdown, toJSON, toHTML, downloadFile, exportFileName } from '../utils/sessionExport';
+import { composePrompt, formatParameters } from '../utils/promptComposer';
+import { OUTPUT_TYPES, getOutputGenerator, parseOutput, structuredData, OutputGenerator, EvalRubricData } from '../utils/outputGenerators';
+import OutputRenderer from './OutputRenderer';
+import VariablePanel from './VariablePanel';
+import { extractVariables } from '../utils/templateVars';
+import EvalPanel from './EvalPanel';
+import { EMPTY_EVAL_SUITE } from '../utils/evalRunner';
+import VersionPanel from './VersionPanel';
+import { createVersionId, lineageHistory, versionLabel } from '../utils/versions';
+import { generateStructured, describeStructuredError, PLAN_SPEC } from '../utils/structuredResponse';
+import { categoryRegistry } from '../utils/categoryRegistry';
+import { checkCompatibility } from '../utils/compatibility';
+import CompatibilityStrip from './CompatibilityStrip';
+import RecipeGallery from './RecipeGallery';
+import { clearRecipeLink, describeRecipeError, hasRecipeLink, readRecipeLink } from '../utils/recipes';
+import { onLinkStateChange, readLinkState, writeLinkState } from '../utils/urlState';
+import InstructionPanel from './InstructionPanel';
+import { applyInstructionOverride, RequestPreview } from '../utils/requestPreview';
 
 interface PromptBuilderProps {
   selectedTopics: Topic[];
   onRemove: (topic: Topic) => void;
   onExpandStateChange?: (isExpanded: boolean) => void;
-}
-
-interface Message {
-  role: 'user' | 'model';
-  text: string;
-  image?: string;
-  plan?: PlanData; // Stores plan data if this message is a plan
+  onRestoreSelection?: (symbols: string[]) => void;
+  catalog: Topic[]; // Every element on the table, for compatibility suggestions
+  onAdd: (topic: Topic) => void;
 }
 
 const LOADING_MESSAGES = [
@@ -48,67 +70,143 @@ const TECH_STACKS = {
   Backend: ['Node.js', 'Python', 'Go', 'Supabase', 'PostgreSQL', 'Firebase']
 };
 
-const TARGET_MODELS = [
-  'Gemini 3.0 Pro',
-  'Gemini 2.5 Flash',
-  'GPT-5 (Preview)',
-  'Claude 4 Opus',
-  'Llama 4 405B',
-  'DeepSeek V3',
-  'Grok 3'
-];
+const ALL_TECH = Object.values(TECH_STACKS).flat();
 
-const OUTPUT_TYPES = [
-  'Refined Prompt',
-  'System Prompt',
-  'Skills File',
-  'Reasoning Chain',
-  'Eval Rubric',
-  'Fine-Tuning JSONL'
-];
+// Builder configuration carried by a link, minus values this build doesn't know
+const linkedConfig = ({ targetModel, outputType, tech }: LinkState) => ({
+  targetModel: targetModel && getModelInfo(targetModel) ? targetModel : undefined,
+  outputType: outputType && (OUTPUT_TYPES as readonly string[]).includes(outputType) ? outputType : undefined,
+  selectedTech: tech?.filter(t => ALL_TECH.includes(t)),
+});
+
+const MAX_COMPARE_MODELS = 4;
+
+// Structured outputs that are artifacts about a prompt rather than prompts themselves
+const NON_PROMPT_OUTPUTS = ['Eval Rubric', 'Fine-Tuning JSONL'];
+
+// Conversation turns worth replaying to a freshly created chat
+const toChatHistory = (messages: BuilderMessage[]): ChatTurn[] =>
+  messages
+    .filter(m => !m.isNote && !m.isDraft && !m.plan && !m.isStreaming && m.text)
+    .map(m => ({ role: m.role, text: m.text }));
 
 type GenerationMode = 'TEXT' | 'VIDEO' | 'AUDIO' | 'VOICE';
+type WorkspaceView = 'chat' | 'evals' | 'versions' | 'payload';
 
-const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove, onExpandStateChange }) => {
+const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove, onExpandStateChange, onRestoreSelection, catalog, onAdd }) => {
   const [userPrompt, setUserPrompt] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<BuilderMessage[]>([]);
   const [isBuilding, setIsBuilding] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<LLMChat | null>(null);
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
   const [isConfigOpen, setIsConfigOpen] = useState(false); 
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   
   // Whiteboard State
   const [whiteboardData, setWhiteboardData] = useState<{ content: string | PlanData, mode: 'text' | 'plan' } | null>(null);
+
+  // Template Variables State
+  const [variableTemplate, setVariableTemplate] = useState<string | null>(null);
   
-  // Configuration State
-  const [selectedTech, setSelectedTech] = useState<string[]>([]);
-  const [targetModel, setTargetModel] = useState<string>('Gemini 3.0 Pro');
-  const [outputType, setOutputType] = useState<string>('Refined Prompt');
+  // Configuration State (seeded from the URL when opened through a link)
+  const [selectedTech, setSelectedTech] = useState<string[]>(() => linkedConfig(readLinkState()).selectedTech || []);
+  const [targetModel, setTargetModel] = useState<string>(() => linkedConfig(readLinkState()).targetModel || 'Gemini 3.0 Pro');
+  const [outputType, setOutputType] = useState<string>(() => linkedConfig(readLinkState()).outputType || 'Refined Prompt');
+  const [instructionOverride, setInstructionOverride] = useState<InstructionOverride | null>(null);
+
+  // Compare Mode State
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>(['Gemini 3.0 Pro', 'Gemini 2.5 Flash']);
+  const [compareRuns, setCompareRuns] = useState<CompareRun[]>([]);
+
+  const [workspaceView, setWorkspaceView] = useState<WorkspaceView>('chat');
+
+  // Eval Harness State
+  const [evalSuite, setEvalSuite] = useState<EvalSuite>(EMPTY_EVAL_SUITE);
+
+  // Version Lineage State
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [headVersionId, setHeadVersionId] = useState<string | null>(null);
+
+  // Cost Tracking State
+  const [usage, setUsage] = useState<SessionUsage>(EMPTY_USAGE);
+  const [budget, setBudget] = useState<number | null>(null);
+
+  // Bumped when keys are unlocked or locked so the model badges re-render
+  const [, setCredentialsRevision] = useState(0);
+
+  // Session Persistence State
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const sessionMetaRef = useRef<{ id: string; name: string; createdAt: number } | null>(null);
+  const lastSavedRef = useRef<string>(''); // Snapshot of the last write, so reopening alone doesn't bump updatedAt
+
+  // --- RECIPES ---
+  const [isRecipesOpen, setIsRecipesOpen] = useState(false);
+  const [sharedRecipe, setSharedRecipe] = useState<Recipe | null>(null);
+  const [sharedRecipeErrors, setSharedRecipeErrors] = useState<string[]>([]);
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const chatModelRef = useRef<string | null>(null); // Registry label the live chat was created for
+  const chatInstructionRef = useRef<string | null>(null); // System instruction the live chat was created with
 
   // --- REACTION CHAMBER LOGIC ---
-  const ingredients = selectedTopics.filter(t => 
-      t.category !== Category.VIDEO && 
-      t.category !== Category.AUDIO && 
-      t.category !== Category.VOICE
-  );
-
-  const modifiers = selectedTopics.filter(t => 
-      t.category === Category.VIDEO || 
-      t.category === Category.AUDIO || 
-      t.category === Category.VOICE
-  );
+  const ingredients = selectedTopics.filter(t => categoryRegistry.groupOf(t.category) !== 'media');
+  const modifiers = selectedTopics.filter(t => categoryRegistry.groupOf(t.category) === 'media');
 
   let currentMode: GenerationMode = 'TEXT';
   if (modifiers.some(t => t.category === Category.VIDEO)) currentMode = 'VIDEO';
   else if (modifiers.some(t => t.category === Category.AUDIO)) currentMode = 'AUDIO';
   else if (modifiers.some(t => t.category === Category.VOICE)) currentMode = 'VOICE';
 
+  useEffect(() => onCredentialsChange(() => setCredentialsRevision(r => r + 1)), []);
+
+  // A recipe link opens the gallery with that recipe on top, or with the reason
+  // it could not be read. The hash is then cleared so a reload doesn't bring it back.
+  useEffect(() => {
+    const openLinkedRecipe = () => {
+      if (!hasRecipeLink(window.location.hash)) return;
+      try {
+        setSharedRecipe(readRecipeLink(window.location.hash));
+        setSharedRecipeErrors([]);
+      } catch (e) {
+        console.error("Shared recipe not loaded:", e);
+        setSharedRecipe(null);
+        setSharedRecipeErrors(describeRecipeError(e));
+      }
+      setIsRecipesOpen(true);
+      clearRecipeLink();
+    };
+    openLinkedRecipe();
+    window.addEventListener('hashchange', openLinkedRecipe);
+    return () => window.removeEventListener('hashchange', openLinkedRecipe);
+  }, []);
+
+  // The configuration is in the URL while there is a selection to configure.
+  // Like the selection itself (see App), it only follows links from outside;
+  // back/forward keeps the current setup and rewrites it into the entry.
+  const writeLinkedConfig = () => {
+    const active = selectedTopics.length > 0;
+    writeLinkState({
+      targetModel: active ? targetModel : undefined,
+      outputType: active ? outputType : undefined,
+      tech: active ? selectedTech : undefined,
+    });
+  };
+
+  useEffect(writeLinkedConfig, [selectedTopics.length, targetModel, outputType, selectedTech]);
+
+  useEffect(() => onLinkStateChange((state, external) => {
+    if (!external) return writeLinkedConfig();
+    const linked = linkedConfig(state);
+    if (linked.targetModel) setTargetModel(linked.targetModel);
+    if (linked.outputType) setOutputType(linked.outputType);
+    if (linked.selectedTech) setSelectedTech(linked.selectedTech);
+  }), [selectedTopics.length, targetModel, outputType, selectedTech]);
+
   useEffect(() => {
     if (currentMode !== 'TEXT') {
         ambientEngine.playSFX('activate');
@@ -134,6 +232,43 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
       }
   }, [isExpanded]);
 
+  // Autosave the session once it has content; skipped mid-stream to avoid a write per token
+  useEffect(() => {
+    if (messages.length === 0 && compareRuns.length === 0 && evalSuite.cases.length === 0) return;
+    if (messages.some(m => m.isStreaming)) return;
+
+    if (!sessionMetaRef.current) {
+        const firstPrompt = messages.find(m => m.role === 'user')?.text || compareRuns[0]?.prompt || evalSuite.cases[0]?.name || 'Untitled Session';
+        sessionMetaRef.current = { id: createSessionId(), name: firstPrompt.slice(0, 48), createdAt: Date.now() };
+        setSessionId(sessionMetaRef.current.id);
+    }
+    const meta = sessionMetaRef.current;
+
+    const content = {
+        symbols: selectedTopics.map(t => t.symbol),
+        selectedTech,
+        targetModel,
+        outputType,
+        messages,
+        compareRuns,
+        evalSuite,
+        versions,
+        headVersionId,
+        usage,
+        budget,
+        instructionOverride,
+    };
+    const snapshot = JSON.stringify(content);
+    if (snapshot === lastSavedRef.current) return;
+
+    const timeout = setTimeout(() => {
+        lastSavedRef.current = snapshot;
+        const session: BuilderSession = { id: meta.id, name: meta.name, createdAt: meta.createdAt, updatedAt: Date.now(), ...content };
+        sessionStore.save(session).catch(e => console.error("Session save failed:", e));
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [messages, compareRuns, evalSuite, versions, headVersionId, usage, budget, selectedTopics, selectedTech, targetModel, outputType, instructionOverride]);
+
   useEffect(() => {
     if (!isBuilding) return;
     let msgList = LOADING_MESSAGES;
@@ -146,6 +281,158 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
     return () => clearInterval(interval);
   }, [isBuilding, currentMode]);
 
+  // Leaving the builder cancels whatever is still running
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const resetWorkspace = () => {
+    if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+        abortControllerRef.current = null;
+    }
+    setIsBuilding(false);
+    setChatSession(null);
+    chatModelRef.current = null;
+    setWhiteboardData(null);
+    setVariableTemplate(null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleNewSession = () => {
+    resetWorkspace();
+    setMessages([]);
+    setCompareRuns([]);
+    setEvalSuite(EMPTY_EVAL_SUITE);
+    setVersions([]);
+    setHeadVersionId(null);
+    setUsage(EMPTY_USAGE);
+    setBudget(null);
+    setInstructionOverride(null);
+    setSessionId(null);
+    sessionMetaRef.current = null;
+    lastSavedRef.current = '';
+  };
+
+  // The live chat object is not serializable; it is recreated from the head
+  // version's lineage on the next send (see lineageHistory).
+  const handleOpenSession = async (stored: BuilderSession) => {
+    resetWorkspace();
+    // Re-read so renames made in the drawer are picked up
+    const session = (await sessionStore.get(stored.id)) || stored;
+    sessionMetaRef.current = { id: session.id, name: session.name, createdAt: session.createdAt };
+    lastSavedRef.current = JSON.stringify({
+        symbols: session.symbols,
+        selectedTech: session.selectedTech,
+        targetModel: session.targetModel,
+        outputType: session.outputType,
+        messages: session.messages,
+        compareRuns: session.compareRuns || [],
+        evalSuite: session.evalSuite || EMPTY_EVAL_SUITE,
+        versions: session.versions || [],
+        headVersionId: session.headVersionId || null,
+        usage: session.usage || EMPTY_USAGE,
+        budget: session.budget ?? null,
+        instructionOverride: session.instructionOverride ?? null,
+    });
+    setMessages(session.messages.map(m => m.isStreaming ? { ...m, isStreaming: false, isPartial: true } : m));
+    setCompareRuns(session.compareRuns || []);
+    setEvalSuite(session.evalSuite || EMPTY_EVAL_SUITE);
+    setVersions(session.versions || []);
+    setHeadVersionId(session.headVersionId || null);
+    setUsage(session.usage || EMPTY_USAGE);
+    setBudget(session.budget ?? null);
+    setInstructionOverride(session.instructionOverride ?? null);
+    setSelectedTech(session.selectedTech);
+    setTargetModel(session.targetModel);
+    setOutputType(session.outputType);
+    setSessionId(session.id);
+    if (onRestoreSelection) onRestoreSelection(session.symbols);
+  };
+
+  // A recipe starts a fresh session when the current one has messages, so that
+  // session keeps the setup it was built with. Unknown models and output types
+  // (from an older or edited file) leave the current choice in place.
+  const handleLoadRecipe = (recipe: Recipe) => {
+    if (messages.length > 0) handleNewSession();
+    setIsCompareMode(false);
+    setSelectedTech(recipe.selectedTech);
+    if (getModelInfo(recipe.targetModel)) setTargetModel(recipe.targetModel);
+    if ((OUTPUT_TYPES as readonly string[]).includes(recipe.outputType)) setOutputType(recipe.outputType);
+    if (onRestoreSelection) onRestoreSelection(recipe.symbols);
+    setIsRecipesOpen(false);
+  };
+
+  const currentSession = (): BuilderSession => {
+    const meta = sessionMetaRef.current;
+    const now = Date.now();
+    return {
+        id: meta?.id || createSessionId(),
+        name: meta?.name || 'Untitled Session',
+        createdAt: meta?.createdAt || now,
+        updatedAt: now,
+        symbols: selectedTopics.map(t => t.symbol),
+        selectedTech,
+        targetModel,
+        outputType,
+        messages,
+        compareRuns,
+        evalSuite,
+        versions,
+        headVersionId,
+        usage,
+        budget,
+        instructionOverride,
+    };
+  };
+
+  const handleExport = (format: 'md' | 'json' | 'html') => {
+    ambientEngine.playSFX('click');
+    const session = currentSession();
+    switch (format) {
+        case 'md': downloadFile(exportFileName(session, 'md'), toMarkdown(session, selectedTopics), 'text/markdown'); break;
+        case 'json': downloadFile(exportFileName(session, 'json'), toJSON(session, selectedTopics), 'application/json'); break;
+        case 'html': downloadFile(exportFileName(session, 'html'), toHTML(session, selectedTopics), 'text/html'); break;
+    }
+  };
+
+  // Every finished prompt becomes a child of the current head, except
+  // regenerations, which are siblings of the head they replace
+  const recordVersion = (
+    text: string,
+    source: VersionSource,
+    details: Pick<PromptVersion, 'note' | 'image' | 'modelLabel'> = {},
+    parentId: string | null = headVersionId
+  ) => {
+    const version: PromptVersion = {
+        id: createVersionId(),
+        parentId,
+        createdAt: Date.now(),
+        text,
+        symbols: selectedTopics.map(t => t.symbol),
+        source,
+        ...details,
+    };
+    setVersions(prev => [...prev, version]);
+    setHeadVersionId(version.id);
+    return version.id;
+  };
+
+  // Branching moves the head so the next refinement starts from `version`;
+  // rolling back also restores the element set it was built with.
+  const checkoutVersion = (version: PromptVersion, restoreElements: boolean) => {
+    ambientEngine.playSFX('activate');
+    setHeadVersionId(version.id);
+    setChatSession(null);
+    chatModelRef.current = null;
+    if (restoreElements && onRestoreSelection) onRestoreSelection(version.symbols);
+    const label = versionLabel(versions, version.id);
+    setMessages(prev => [
+        ...prev,
+        { role: 'model', text: restoreElements ? `// ROLLED BACK TO ${label}` : `// BRANCHED FROM ${label}`, isNote: true },
+        { role: 'model', text: version.text, versionId: version.id },
+    ]);
+    setWorkspaceView('chat');
+  };
+
   const toggleTech = (tech: string) => {
     ambientEngine.playSFX('click');
     setSelectedTech(prev => 
@@ -155,39 +442,122 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
     );
   };
 
-  const initializeChat = async () => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const composeDraft = (task?: string, target: string = targetModel) =>
+    composePrompt(selectedTopics, { task, targetModel: target, techStack: selectedTech, outputType });
+
+  const generateSystemInstruction = (target: string) => {
     const techniques = ingredients.map(t => `${t.element} (${t.category})`).join(', ');
-    const systemInstruction = `You are an expert AI Prompt Engineer.
+    const draft = composeDraft(undefined, target);
+    return `You are an expert AI Prompt Engineer.
     Selected Techniques: ${techniques}
     Stack: ${selectedTech.join(', ') || "None"}
-    Target: ${targetModel}`;
+    Target: ${target}
 
-    return ai.chats.create({
-      model: 'gemini-2.5-flash',
-      config: {
-        systemInstruction,
-        tools: [{ googleSearch: {} }],
-      }
-    });
+    Baseline template, assembled locally from the selected elements. Refine it for the user's task rather than starting over; {{task}} marks where the task goes:
+    ${draft.text}`;
+  };
+
+  // What every builder request is sent with: the generated instruction, unless a pinned override changes it
+  const buildSystemInstruction = (target: string) => applyInstructionOverride(generateSystemInstruction(target), instructionOverride);
+
+  // Pinning drops the live chat so the next send starts one with the new instruction
+  const restartChat = () => {
+    setChatSession(null);
+    chatModelRef.current = null;
+  };
+
+  const pinInstruction = (override: InstructionOverride | null) => {
+    setInstructionOverride(override);
+    restartChat();
+  };
+
+  // Offline: renders the composer output into the workspace without calling any model
+  const handleAssemble = () => {
+    ambientEngine.playSFX('activate');
+    if (!isExpanded) toggleExpand();
+    setWorkspaceView('chat');
+    const task = userPrompt.trim() || undefined;
+    const draft = composeDraft(task);
+    const extras = [
+        draft.prefill ? `// ASSISTANT PREFILL: ${draft.prefill}` : '',
+        draft.parameters.length ? `// API PARAMETERS\n${formatParameters(draft.parameters)}` : '',
+    ].filter(Boolean);
+    const text = [draft.text, ...extras].join('\n\n---\n');
+    const versionId = recordVersion(text, 'assemble', { note: task });
+    setMessages(prev => [...prev, {
+        role: 'model',
+        text,
+        isDraft: true,
+        versionId
+    }]);
+  };
+
+  // --- COST TRACKING ---
+  const isOverBudget = budget !== null && usage.cost >= budget;
+
+  // Every builder call goes through a metered provider, so the session total covers chat, outputs, plans, compares and evals
+  const recordUsage = (model: ModelInfo, reported: TokenUsage) => setUsage(prev => addUsage(prev, reported, model));
+  const metered = (provider: LLMProvider, model: ModelInfo): LLMProvider =>
+    new MeteredProvider(provider, model, reported => recordUsage(model, reported));
+  const meterRoute = (route: ModelRoute): ModelRoute => ({ ...route, provider: metered(route.provider, route.model) });
+
+  const budgetNote = (): BuilderMessage => ({
+    role: 'model',
+    text: `// BUDGET CAP REACHED: ${formatCost(usage.cost)} of ${formatCost(budget || 0)} spent. Raise the cap to keep sending.`,
+    isNote: true
+  });
+
+  // What the next send carries as history: the live chat's, else the head version's lineage
+  const pendingHistory = (): ChatTurn[] =>
+    chatSession?.history || (versions.length > 0 ? lineageHistory(versions, headVersionId) : toChatHistory(messages));
+
+  const chatOptions = (route: ModelRoute, history?: ChatTurn[]): ChatOptions => ({
+    model: route.model.modelId,
+    systemInstruction: buildSystemInstruction(targetModel),
+    enableSearch: route.model.features.search,
+    history,
+  });
+
+  const initializeChat = (route: ModelRoute, history?: ChatTurn[]) => {
+    const options = chatOptions(route, history);
+    chatInstructionRef.current = options.systemInstruction || null;
+    return route.provider.createChat(options);
   };
 
-  const generateInfographic = async () => {
-      if (!process.env.API_KEY) return null;
+  // Never throws: a failed diagram shouldn't fail the prompt, so the error is handed back for a note
+  const generateInfographic = async (signal?: AbortSignal): Promise<{ image: string | null; error?: unknown }> => {
+      const provider = getProvider('gemini');
+      if (!provider) return { image: null };
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
         const concepts = ingredients.map(t => t.element).join(', ');
         const prompt = `Futuristic neon UI block diagram infographic explaining: ${concepts}. Dark background, cyan/purple lines.`;
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: prompt }] }
-        });
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      } catch (e) { console.error("Infographic error:", e); }
-      return null;
+        return { image: await provider.generateImage({ model: 'gemini-2.5-flash-image', prompt }, { signal }) };
+      } catch (e) {
+        if (!signal?.aborted) console.error("Infographic error:", e);
+        return { image: null, error: e };
+      }
+  };
+
+  // Says why the diagram is missing; Retry re-runs only the image for that reply
+  const infographicNote = (e: unknown, versionId: string): BuilderMessage => ({
+      role: 'model',
+      text: `// INFOGRAPHIC SKIPPED · ${errorSummary(e, 'Image generation failed.')}`,
+      isNote: true,
+      retry: { prompt: '', infographicFor: versionId },
+  });
+
+  const retryInfographic = async (versionId: string) => {
+      if (abortControllerRef.current) abortControllerRef.current.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsBuilding(true);
+
+      const { image, error } = await generateInfographic(controller.signal);
+      if (!controller.signal.aborted) {
+          if (image) setMessages(prev => prev.map(m => m.role === 'model' && !m.isNote && m.versionId === versionId ? { ...m, image } : m));
+          else if (error) setMessages(prev => [...prev, infographicNote(error, versionId)]);
+      }
+      if (abortControllerRef.current === controller) setIsBuilding(false);
   };
 
   const handleStop = () => {
@@ -196,16 +566,161 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
         abortControllerRef.current = null;
     }
     setIsBuilding(false);
-    setMessages(prev => [...prev, { role: 'model', text: "\n// GENERATION STOPPED BY USER." }]);
+    if (isCompareMode) {
+        setCompareRuns(prev => prev.map(run => ({
+            ...run,
+            results: run.results.map(r => r.status === 'pending' ? { ...r, status: 'error', error: 'Stopped by user.' } : r)
+        })));
+    } else {
+        setMessages(prev => {
+            const streaming = prev.find(m => m.isStreaming);
+            // Keep whatever already streamed in, flagged as partial
+            if (streaming?.text) return prev.map(m => m === streaming ? { ...m, isStreaming: false, isPartial: true } : m);
+            return [...prev.filter(m => m !== streaming), { role: 'model', text: "\n// GENERATION STOPPED BY USER.", isNote: true }];
+        });
+    }
     ambientEngine.playSFX('close');
   };
 
-  const handleGenerate = async (isRegen = false, overridePrompt?: string, overrideImage?: string) => {
+  const updateStreamingMessage = (patch: Partial<BuilderMessage>) => {
+    setMessages(prev => prev.map(m => m.isStreaming ? { ...m, ...patch } : m));
+  };
+
+  const toggleCompareModel = (label: string) => {
+    ambientEngine.playSFX('click');
+    setCompareModels(prev => {
+        if (prev.includes(label)) return prev.filter(m => m !== label);
+        if (prev.length >= MAX_COMPARE_MODELS) return prev;
+        return [...prev, label];
+    });
+  };
+
+  // Dispatches one prompt to every compared model in parallel. Each model gets a
+  // fresh chat so results are independent of the main conversation.
+  const handleCompare = async (promptText: string) => {
+    if (!promptText || compareModels.length < 2 || isOverBudget) return;
+
+    ambientEngine.playSFX('activate');
+    if (!isExpanded) toggleExpand();
+    setUserPrompt('');
+
+    if (abortControllerRef.current) abortControllerRef.current.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const runId = `run-${Date.now()}`;
+    const models = [...compareModels];
+    setCompareRuns(prev => [...prev, {
+        id: runId,
+        prompt: promptText,
+        symbols: ingredients.map(t => t.symbol),
+        createdAt: Date.now(),
+        results: models.map(label => ({ modelLabel: label, modelId: getModelInfo(label)?.modelId, status: 'pending', text: '' }))
+    }]);
+    setIsBuilding(true);
+
+    const updateResult = (label: string, patch: Partial<CompareResult>) => {
+        setCompareRuns(prev => prev.map(run => run.id !== runId ? run : {
+            ...run,
+            results: run.results.map(r => r.modelLabel === label && r.status === 'pending' ? { ...r, ...patch } : r)
+        }));
+    };
+
+    await Promise.all(models.map(async label => {
+        const info = getModelInfo(label);
+        const provider = info && getProvider(info.provider);
+        if (!info || !provider) {
+            updateResult(label, { status: 'error', error: info ? `Not configured. Add a ${getProviderLabel(info.provider)} key in Settings.` : 'Unknown model.' });
+            return;
+        }
+
+        const started = performance.now();
+        try {
+            const chat = metered(provider, info).createChat({
+                model: info.modelId,
+                systemInstruction: buildSystemInstruction(label),
+                enableSearch: info.features.search,
+            });
+            const result = await chat.sendMessage({ text: promptText }, { signal: controller.signal });
+            updateResult(label, { status: 'done', text: result.text, usage: result.usage, latencyMs: performance.now() - started });
+        } catch (e: any) {
+            if (controller.signal.aborted) return;
+            updateResult(label, { status: 'error', error: e?.message || 'Request failed.', latencyMs: performance.now() - started });
+        }
+    }));
+
+    if (abortControllerRef.current === controller) setIsBuilding(false);
+  };
+
+  // Structured output types bypass the chat: one schema-constrained request, then
+  // validation. The live chat is dropped so the next send replays this turn too.
+  const outputRequest = (route: ModelRoute, generator: OutputGenerator<any>, task: string): JSONRequest => {
+    const draft = toChatHistory(messages).filter(t => t.role === 'model').pop()?.text;
+    return {
+        model: route.model.modelId,
+        systemInstruction: `${buildSystemInstruction(targetModel)}\n\n${generator.instruction}`,
+        prompt: draft ? `${task}\n\nCurrent draft:\n${draft}` : task,
+        schema: generator.schema,
+    };
+  };
+
+  const generateOutput = async (route: ModelRoute, generator: OutputGenerator<any>, task: string, signal: AbortSignal) => {
+    const result = await route.provider.generateJSON(outputRequest(route, generator, task), { signal });
+    const { output, text } = parseOutput(generator, result.text);
+    const versionId = NON_PROMPT_OUTPUTS.includes(generator.type) ? undefined : recordVersion(text, 'output', { note: task, modelLabel: route.model.label });
+    setMessages(prev => [...prev, { role: 'model', text, output, versionId }]);
+    setChatSession(null);
+    chatModelRef.current = null;
+  };
+
+  // --- PAYLOAD PREVIEW ---
+  // What sending the current input would hand to each provider, built with the
+  // same helpers handleGenerate and handleCompare send with
+  const requestPreviews = (): RequestPreview[] => {
+    const message = { text: userPrompt.trim() || '{{your next message}}' };
+    if (isCompareMode) {
+        return compareModels.flatMap(label => {
+            const info = getModelInfo(label);
+            if (!info) return [];
+            const chat = { model: info.modelId, systemInstruction: buildSystemInstruction(label), enableSearch: info.features.search };
+            return [{ kind: 'chat' as const, modelLabel: label, providerLabel: getProviderLabel(info.provider), chat, message, liveChat: false }];
+        });
+    }
+
+    const configured = resolveModel(targetModel);
+    const route = configured || resolveMockModel(targetModel);
+    const base = { modelLabel: route.model.label, providerLabel: `${getProviderLabel(route.model.provider)}${configured ? '' : ' (offline mock)'}` };
+    const generator = getOutputGenerator(outputType);
+    if (generator) return [{ kind: 'structured', ...base, request: outputRequest(route, generator, message.text), outputType }];
+
+    const liveChat = !!chatSession && messages.length > 0 && chatModelRef.current === route.model.label;
+    const chat = liveChat
+        ? { ...chatOptions(route), systemInstruction: chatInstructionRef.current || undefined, history: chatSession!.history }
+        : chatOptions(route, messages.length > 0 ? pendingHistory() : undefined);
+    return [{ kind: 'chat', ...base, chat, message, liveChat }];
+  };
+
+  // Error note for a failed send: what went wrong, plus the request to re-run
+  const failureNote = (e: any, retry: RetryRequest): BuilderMessage => ({
+      role: 'model',
+      text: `// ${errorSummary(e, 'Could not generate content.')}`,
+      isNote: true,
+      retry,
+  });
+
+  // Retries re-send the original request without adding another user bubble
+  const handleGenerate = async (isRegen = false, overridePrompt?: string, overrideImage?: string, isRetry = false) => {
     const promptText = overridePrompt || userPrompt.trim();
     if (!promptText && !isRegen && !overrideImage) return;
+    if (isCompareMode && !isRegen && !overrideImage) return handleCompare(promptText);
+    if (isOverBudget) {
+        setMessages(prev => [...prev, budgetNote()]);
+        return;
+    }
 
     ambientEngine.playSFX('activate');
     if (!isExpanded) toggleExpand();
+    setWorkspaceView('chat');
     
     if (abortControllerRef.current) abortControllerRef.current.abort();
     const controller = new AbortController();
@@ -215,7 +730,7 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
     setLoadingMsgIndex(0);
     
     if (!isRegen && !overridePrompt) setUserPrompt('');
-    if (!isRegen) {
+    if (!isRegen && !isRetry) {
         setMessages(prev => [...prev, { 
             role: 'user', 
             text: overrideImage ? "Applying visual refinements..." : promptText,
@@ -224,71 +739,104 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
     }
 
     try {
-        if (!process.env.API_KEY) {
-            setTimeout(() => {
-                setMessages(prev => [...prev, { role: 'model', text: "// SIMULATION: API KEY MISSING." }]);
-                setIsBuilding(false);
-            }, 2000);
+        let route = resolveModel(targetModel);
+        if (!route) {
+            // No keys anywhere: run the same flow against the offline mock
+            route = resolveMockModel(targetModel);
+            setMessages(prev => [...prev, { role: 'model', text: "// SIMULATION: API KEY MISSING. Responses come from the offline mock.", isNote: true }]);
+        }
+        route = meterRoute(route);
+
+        const generator = getOutputGenerator(outputType);
+        if (generator && !overrideImage) {
+            const task = isRegen ? (messages.filter(m => m.role === 'user').pop()?.text || '') : promptText;
+            await generateOutput(route, generator, task, controller.signal);
             return;
         }
 
         let chat = chatSession;
-        if (!chat || messages.length === 0) {
-            const chatInit = await initializeChat();
-            if (chatInit) {
-                chat = chatInit;
-                setChatSession(chat);
+        if (!chat || messages.length === 0 || chatModelRef.current !== route.model.label) {
+            // Switching targets mid-conversation carries the history over to the new model
+            chat = initializeChat(route, messages.length > 0 ? pendingHistory() : undefined);
+            chatModelRef.current = route.model.label;
+            setChatSession(chat);
+            if (route.fallbackFrom) {
+                const fallbackNote = `// FALLBACK: ${route.fallbackFrom.label} is not configured (add a ${getProviderLabel(route.fallbackFrom.provider)} key in Settings). Routing to ${route.model.label}.`;
+                setMessages(prev => [...prev, { role: 'model', text: fallbackNote, isNote: true }]);
             }
         }
-        if (!chat) throw new Error("Chat init failed");
-
-        let parts: any[] = [{ text: isRegen ? "Regenerate." : promptText }];
-        if (overrideImage) {
-            parts = [
-                { text: "Here is an annotated feedback image. Please refine the output based on the highlights and notes visible in this image." },
-                { inlineData: { mimeType: 'image/png', data: overrideImage.split(',')[1] } }
-            ];
-        }
 
-        const [textResult, imageResult] = await Promise.all([
-            chat.sendMessage({ message: overrideImage ? parts : promptText }), // Simplified message handling for text/multimodal
-            (messages.length === 0 && !isRegen && currentMode === 'TEXT') ? generateInfographic() : Promise.resolve(null)
-        ]);
+        const message = overrideImage && route.model.features.images
+            ? { text: "Here is an annotated feedback image. Please refine the output based on the highlights and notes visible in this image.", image: overrideImage }
+            : { text: isRegen ? "Regenerate." : promptText };
 
-        setMessages(prev => [...prev, { 
-            role: 'model', 
-            text: textResult.text, 
-            image: imageResult || undefined 
-        }]);
+        const imagePromise: ReturnType<typeof generateInfographic> = (messages.length === 0 && !isRegen && currentMode === 'TEXT')
+            ? generateInfographic(controller.signal)
+            : Promise.resolve({ image: null });
+
+        setMessages(prev => [...prev, { role: 'model', text: '', isStreaming: true }]);
+
+        let streamedText = '';
+        for await (const chunk of chat.sendMessageStream(message, { signal: controller.signal })) {
+            if (!chunk.text) continue;
+            streamedText += chunk.text;
+            updateStreamingMessage({ text: streamedText });
+        }
+
+        const infographic = await imagePromise;
+        const head = versions.find(v => v.id === headVersionId);
+        const versionId = isRegen && head
+            ? recordVersion(streamedText, 'regenerate', { note: head.note, image: head.image, modelLabel: route.model.label }, head.parentId)
+            : recordVersion(streamedText, overrideImage ? 'whiteboard' : 'generate', { note: promptText, image: overrideImage, modelLabel: route.model.label });
+        updateStreamingMessage({ isStreaming: false, image: infographic.image || undefined, versionId });
+        if (infographic.error && !controller.signal.aborted) setMessages(prev => [...prev, infographicNote(infographic.error, versionId)]);
 
     } catch (e: any) {
-        if (e.message !== "Aborted") {
-            setMessages(prev => [...prev, { role: 'model', text: "Error: Could not generate content." }]);
+        // handleStop already settled the bubble
+        if (!controller.signal.aborted) {
+            console.error("Generation failed:", e);
+            setMessages(prev => {
+                const streaming = prev.find(m => m.isStreaming);
+                const errorNote = failureNote(e, { prompt: promptText, image: overrideImage, isRegen });
+                if (streaming?.text) return [...prev.map(m => m === streaming ? { ...m, isStreaming: false, isPartial: true } : m), errorNote];
+                return [...prev.filter(m => m !== streaming), errorNote];
+            });
         }
     } finally {
         if (abortControllerRef.current === controller) setIsBuilding(false);
     }
   };
 
+  const handleRetry = (index: number) => {
+      const retry = messages[index]?.retry;
+      if (!retry || isBuilding) return;
+      setMessages(prev => prev.filter((_, i) => i !== index));
+      if (retry.infographicFor) retryInfographic(retry.infographicFor);
+      else handleGenerate(!!retry.isRegen, retry.prompt || undefined, retry.image, true);
+  };
+
   const handleGeneratePlan = async () => {
-      if (!process.env.API_KEY) return;
+      if (isOverBudget) {
+          setMessages(prev => [...prev, budgetNote()]);
+          return;
+      }
+      const route = meterRoute(resolveModel(targetModel) || resolveMockModel(targetModel));
       
       const lastContext = messages.filter(m => m.role === 'model').pop()?.text || userPrompt;
+
+      if (abortControllerRef.current) abortControllerRef.current.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
       setIsBuilding(true);
       
       try {
-          const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
           const prompt = `Based on this context: "${lastContext.substring(0, 500)}...", generate a step-by-step execution plan as a JSON object.
           Structure: { title: "string", steps: [{ id: "1", label: "string", type: "start|process|decision|end", details: "string" }] }.
           Max 6 steps.`;
 
-          const result = await ai.models.generateContent({
-              model: 'gemini-2.5-flash',
-              contents: { parts: [{ text: prompt }] },
-              config: { responseMimeType: 'application/json' }
-          });
-
-          const planData = JSON.parse(result.text || "{}");
+          // Only a plan that passed validation reaches the Whiteboard
+          const planData = await generateStructured(route.provider, { model: route.model.modelId, prompt }, PLAN_SPEC, { signal: controller.signal });
+          if (controller.signal.aborted) return;
           
           setMessages(prev => [...prev, { 
               role: 'model', 
@@ -300,13 +848,39 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
           setWhiteboardData({ content: planData, mode: 'plan' });
 
       } catch (e) {
+          // Stopped or superseded; nothing to report
+          if (controller.signal.aborted) return;
           console.error("Plan generation failed", e);
-          setMessages(prev => [...prev, { role: 'model', text: "Error generating plan structure." }]);
+          const [summary, ...details] = describeStructuredError(e);
+          setMessages(prev => [...prev, {
+              role: 'model',
+              text: `// PLAN FAILED: ${summary}${details.map(d => `\n- ${d}`).join('')}`,
+              isNote: true
+          }]);
       } finally {
-          setIsBuilding(false);
+          if (abortControllerRef.current === controller) setIsBuilding(false);
       }
   };
 
+  // Live context estimate for the next send against the target's window
+  const targetInfo = getModelInfo(targetModel);
+  const contextEstimate = targetInfo && !isCompareMode
+      ? estimateContext(targetInfo, { systemInstruction: buildSystemInstruction(targetModel), history: pendingHistory(), input: userPrompt })
+      : null;
+  const contextRatio = contextEstimate ? contextEstimate.total / contextEstimate.contextWindow : 0;
+
+  // Rules check of the selection against itself and the target model
+  const compatibility = selectedTopics.length > 0 ? checkCompatibility(selectedTopics, targetInfo, catalog) : null;
+  const issueKind = (symbol: string) =>
+      compatibility?.issues.find(i => i.kind === 'conflict' && i.symbols.includes(symbol))?.kind
+      || compatibility?.issues.find(i => i.symbols.includes(symbol))?.kind;
+
+  // Eval harness inputs: the newest prompt the builder produced, and the newest valid rubric
+  const promptUnderTest = toChatHistory(messages.filter(m => !m.output || !NON_PROMPT_OUTPUTS.includes(m.output.type)))
+      .filter(t => t.role === 'model').pop()?.text || null;
+  const evalRubric = messages.reduce<EvalRubricData | null>(
+      (latest, m) => m.output?.type === 'Eval Rubric' ? (structuredData<EvalRubricData>(m.output) || latest) : latest, null);
+
   const handleRefineFromWhiteboard = (image: string, notes: string) => {
       handleGenerate(false, `Refinement notes: ${notes}`, image);
   };
@@ -325,41 +899,134 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
       <div>
           <h4 className="text-xs font-bold text-green-400 uppercase tracking-widest mb-4 flex items-center gap-2">
                 <span className="w-1.5 h-1.5 bg-green-400 rounded-full"></span>
-                Target Model
+                {isCompareMode ? `Compare Models (${compareModels.length}/${MAX_COMPARE_MODELS})` : 'Target Model'}
           </h4>
+          <button
+              onClick={() => { ambientEngine.playSFX('click'); setIsCompareMode(!isCompareMode); }}
+              className={`w-full mb-3 px-3 py-2 text-[10px] uppercase font-bold tracking-widest rounded border transition-all ${isCompareMode ? 'bg-purple-900/40 border-purple-400 text-purple-100' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+          >
+              {isCompareMode ? '⚖ Compare Mode: On' : '⚖ Compare Mode: Off'}
+          </button>
           <div className="flex flex-col gap-2">
-              {TARGET_MODELS.map(model => (
+              {MODEL_REGISTRY.map(({ label: model, provider }) => {
+                  const isActive = isCompareMode ? compareModels.includes(model) : targetModel === model;
+                  return (
                   <button
                       key={model}
-                      onClick={() => setTargetModel(model)}
+                      onClick={() => isCompareMode ? toggleCompareModel(model) : setTargetModel(model)}
+                      title={isProviderConfigured(provider) ? undefined : `Add a ${getProviderLabel(provider)} key in Settings to use this model`}
                       className={`px-3 py-2 text-[10px] uppercase font-bold tracking-wide rounded border transition-all duration-300 text-left ${
-                          targetModel === model
+                          isActive
                           ? 'bg-green-900/40 border-green-400 text-green-100 shadow-[0_0_10px_rgba(74,222,128,0.2)]' 
                           : 'bg-transparent border-gray-800 text-gray-500 hover:border-gray-600 hover:text-gray-300'
                       }`}
                   >
-                      {targetModel === model && <span className="mr-2">►</span>}
+                      {isActive && <span className="mr-2">{isCompareMode ? '✓' : '►'}</span>}
                       {model}
+                      {!isProviderConfigured(provider) && <span className="float-right text-[8px] text-yellow-600">NO KEY</span>}
+                  </button>
+                  );
+              })}
+          </div>
+      </div>
+
+      {/* Output Type Selection */}
+      {!isCompareMode && (
+      <div className="mt-6">
+          <h4 className="text-xs font-bold text-purple-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                <span className="w-1.5 h-1.5 bg-purple-400 rounded-full"></span>
+                Output Type
+          </h4>
+          <div className="flex flex-col gap-2">
+              {OUTPUT_TYPES.map(type => (
+                  <button
+                      key={type}
+                      onClick={() => { ambientEngine.playSFX('click'); setOutputType(type); }}
+                      className={`px-3 py-2 text-[10px] uppercase font-bold tracking-wide rounded border transition-all duration-300 text-left ${
+                          outputType === type
+                          ? 'bg-purple-900/40 border-purple-400 text-purple-100'
+                          : 'bg-transparent border-gray-800 text-gray-500 hover:border-gray-600 hover:text-gray-300'
+                      }`}
+                  >
+                      {outputType === type && <span className="mr-2">►</span>}
+                      {type}
                   </button>
               ))}
           </div>
       </div>
+      )}
+      
+      {/* Session Cost */}
+      <div className="mt-6">
+          <h4 className="text-xs font-bold text-yellow-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <span className="w-1.5 h-1.5 bg-yellow-400 rounded-full"></span>
+                Session Cost
+          </h4>
+          <div className="text-[10px] font-mono text-gray-400 mb-2">
+              <span className={isOverBudget ? 'text-red-400 font-bold' : 'text-gray-200'}>{formatCost(usage.cost)}</span>
+              {' '}· {usage.requests} req · {formatTokens(usage.inputTokens)} in / {formatTokens(usage.outputTokens)} out
+          </div>
+          {budget !== null && (
+              <div className="h-1 bg-gray-800 rounded-full overflow-hidden mb-2">
+                  <div className={`h-full ${isOverBudget ? 'bg-red-500' : 'bg-yellow-500'}`} style={{ width: `${Math.min(100, budget > 0 ? (usage.cost / budget) * 100 : 100)}%` }}></div>
+              </div>
+          )}
+          <label className="flex items-center gap-2 text-[9px] uppercase font-bold tracking-widest text-gray-600">
+              Cap $
+              {/* Uncontrolled: ConfigPanel remounts on every render, so a controlled input would lose focus while typing */}
+              <input
+                  key={budget ?? 'none'}
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  defaultValue={budget ?? ''}
+                  placeholder="No cap"
+                  onBlur={(e) => setBudget(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-yellow-500"
+              />
+          </label>
+      </div>
       
       {/* Actions */}
       <div className="mt-8 border-t border-gray-800 pt-4">
            <button 
              onClick={handleGeneratePlan}
-             disabled={messages.length === 0 || isBuilding}
+             disabled={messages.length === 0 || isBuilding || isCompareMode}
              className="w-full py-3 bg-cyan-900/30 border border-cyan-500 text-cyan-400 font-bold uppercase text-[10px] tracking-widest rounded hover:bg-cyan-900/50 transition-all mb-2 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
            >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0121 18.382V7.618a1 1 0 01-.553-.894L15 4m0 13V4m0 0L9 7" /></svg>
               Generate Plan
            </button>
+           <div className="flex gap-2 mb-2">
+              {([['evals', `Evals (${evalSuite.cases.length})`], ['versions', `Versions (${versions.length})`], ['payload', instructionOverride ? 'Payload ●' : 'Payload']] as const).map(([view, label]) => (
+                  <button
+                      key={view}
+                      onClick={() => { ambientEngine.playSFX('click'); setWorkspaceView(workspaceView === view ? 'chat' : view); }}
+                      className={`flex-1 py-3 border font-bold uppercase text-[10px] tracking-widest rounded transition-all ${workspaceView === view ? 'bg-green-900/40 border-green-400 text-green-100' : 'border-gray-700 text-gray-400 hover:border-gray-500 hover:text-white'}`}
+                  >
+                      {label}
+                  </button>
+              ))}
+           </div>
+           <div className="flex items-center gap-2 mt-2">
+              <span className="text-[9px] uppercase font-bold tracking-widest text-gray-600">Export</span>
+              {(['md', 'json', 'html'] as const).map(format => (
+                  <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      disabled={messages.length === 0 && compareRuns.length === 0 && evalSuite.cases.length === 0}
+                      className="flex-1 py-1.5 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                      {format}
+                  </button>
+              ))}
+           </div>
       </div>
     </>
   );
 
-  const collapsedHeight = 'h-[220px] md:h-32'; 
+  const collapsedHeight = compatibility ? 'h-[250px] md:h-40' : 'h-[220px] md:h-32';
 
   return (
     <>
@@ -389,7 +1056,11 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
                      </div>
                 ) : (
                     ingredients.map(t => (
-                       <div key={t.symbol} className="flex flex-col items-center justify-center w-12 h-12 bg-[#0f0e17] border border-gray-700 rounded animate-in zoom-in duration-300 shrink-0 relative group">
+                       <div
+                           key={t.symbol}
+                           title={compatibility?.issues.filter(i => i.symbols.includes(t.symbol)).map(i => i.message).join('\n') || undefined}
+                           className={`flex flex-col items-center justify-center w-12 h-12 bg-[#0f0e17] border rounded animate-in zoom-in duration-300 shrink-0 relative group ${issueKind(t.symbol) === 'conflict' ? 'border-red-500' : issueKind(t.symbol) === 'target' ? 'border-yellow-500/70' : 'border-gray-700'}`}
+                       >
                            <span className="text-cyan-400 font-bold font-mono text-lg">{t.symbol}</span>
                            <div className="absolute -top-1 -right-1 opacity-0 group-hover:opacity-100 cursor-pointer" onClick={(e) => { e.stopPropagation(); onRemove(t); }}>
                                 <div className="bg-red-500 text-white w-3 h-3 rounded-full flex items-center justify-center text-[8px]">×</div>
@@ -416,9 +1087,61 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
            </div>
         </div>
 
+        {compatibility && <CompatibilityStrip report={compatibility} onAdd={onAdd} />}
+
         {/* Middle: Workspace */}
         {isExpanded && (
             <div className="flex-grow flex gap-4 overflow-hidden animate-in fade-in slide-in-from-bottom-4 relative">
+                {isHistoryOpen && (
+                    <SessionDrawer
+                        activeSessionId={sessionId}
+                        onOpen={handleOpenSession}
+                        onNew={handleNewSession}
+                        onRenamed={(id, name) => { if (sessionMetaRef.current?.id === id) sessionMetaRef.current.name = name; }}
+                        onClose={() => setIsHistoryOpen(false)}
+                    />
+                )}
+                {variableTemplate !== null && (
+                    <VariablePanel template={variableTemplate} onClose={() => setVariableTemplate(null)} />
+                )}
+                {workspaceView === 'versions' ? (
+                <div className="flex-1 border-2 border-dashed border-gray-800 bg-[#0a0a12]/50 rounded-lg p-6 overflow-hidden relative">
+                    <VersionPanel
+                        versions={versions}
+                        headVersionId={headVersionId}
+                        onBranch={version => checkoutVersion(version, false)}
+                        onRollback={version => checkoutVersion(version, true)}
+                    />
+                </div>
+                ) : workspaceView === 'payload' ? (
+                <div className="flex-1 border-2 border-dashed border-gray-800 bg-[#0a0a12]/50 rounded-lg p-6 overflow-hidden relative">
+                    <InstructionPanel
+                        previews={requestPreviews()}
+                        generated={generateSystemInstruction(targetModel)}
+                        override={instructionOverride}
+                        isChatStale={!!chatSession && chatInstructionRef.current !== buildSystemInstruction(targetModel)}
+                        onPin={pinInstruction}
+                        onUnpin={() => pinInstruction(null)}
+                        onRestartChat={() => { ambientEngine.playSFX('activate'); restartChat(); }}
+                    />
+                </div>
+                ) : workspaceView === 'evals' ? (
+                <div className="flex-1 border-2 border-dashed border-gray-800 bg-[#0a0a12]/50 rounded-lg p-6 overflow-hidden relative">
+                    <EvalPanel
+                        suite={evalSuite}
+                        onSuiteChange={setEvalSuite}
+                        prompt={promptUnderTest}
+                        rubric={evalRubric}
+                        targetModel={targetModel}
+                        meterRoute={meterRoute}
+                        isOverBudget={isOverBudget}
+                    />
+                </div>
+                ) : isCompareMode ? (
+                <div className="flex-1 border-2 border-dashed border-gray-800 bg-[#0a0a12]/50 rounded-lg p-6 overflow-hidden relative">
+                    <CompareView runs={compareRuns} />
+                </div>
+                ) : (
                 <div 
                     ref={scrollRef}
                     className="flex-1 border-2 border-dashed border-gray-800 bg-[#0a0a12]/50 rounded-lg p-6 overflow-y-auto custom-scrollbar space-y-6 relative"
@@ -430,12 +1153,21 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
                         </div>
                     )}
 
-                    {messages.map((msg, idx) => (
+                    {messages.map((msg, idx) => (msg.isStreaming && !msg.text) ? null : (
                         <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-in fade-in slide-in-from-bottom-4 group`}>
                             <div className={`max-w-[90%] md:max-w-[80%] rounded-lg p-4 relative ${msg.role === 'user' ? 'bg-cyan-900/20 border border-cyan-500/30 text-cyan-100' : 'bg-gray-800/50 border border-gray-700 text-gray-200'}`}>
                                 
                                 {msg.role === 'model' && (
                                     <div className="absolute top-2 right-2 flex gap-2">
+                                        {!msg.isStreaming && extractVariables(msg.text).length > 0 && (
+                                            <button
+                                                onClick={() => { ambientEngine.playSFX('click'); setVariableTemplate(msg.text); }}
+                                                className="px-1.5 text-[10px] font-mono font-bold text-purple-400 hover:text-purple-200 bg-black/40 hover:bg-black/60 rounded-md transition-all opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                                                title="Fill template variables"
+                                            >
+                                                {'{{ }}'}
+                                            </button>
+                                        )}
                                         <button 
                                             onClick={() => {
                                                 if (msg.plan) setWhiteboardData({ content: msg.plan, mode: 'plan' });
@@ -483,14 +1215,51 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
                                     </div>
                                 )}
 
+                                {msg.output ? (
+                                    <OutputRenderer output={msg.output} text={msg.text} />
+                                ) : (
                                 <div className="prose prose-invert prose-sm max-w-none font-mono whitespace-pre-wrap">
                                     {msg.text}
+                                    {msg.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 bg-cyan-400 animate-pulse align-middle"></span>}
                                 </div>
+                                )}
+
+                                {msg.isDraft && (
+                                    <div className="mb-3 text-[10px] font-mono uppercase tracking-widest text-purple-400">
+                                        // Local Draft — Assembled Offline
+                                    </div>
+                                )}
+
+                                {msg.versionId && (
+                                    <button
+                                        onClick={() => { ambientEngine.playSFX('click'); setWorkspaceView('versions'); }}
+                                        className={`mt-3 text-[10px] font-mono uppercase tracking-widest ${msg.versionId === headVersionId ? 'text-green-400' : 'text-gray-500'} hover:text-cyan-400`}
+                                        title="Open version history"
+                                    >
+                                        ⎇ {versionLabel(versions, msg.versionId)}{msg.versionId === headVersionId ? ' · HEAD' : ''}
+                                    </button>
+                                )}
+
+                                {msg.retry && (
+                                    <button
+                                        onClick={() => { ambientEngine.playSFX('click'); handleRetry(idx); }}
+                                        disabled={isBuilding}
+                                        className="mt-3 px-3 py-1 text-[10px] font-mono font-bold uppercase tracking-widest border border-red-500/60 text-red-300 rounded hover:bg-red-900/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        ↻ Retry
+                                    </button>
+                                )}
+
+                                {msg.isPartial && (
+                                    <div className="mt-3 pt-2 border-t border-dashed border-yellow-700/50 text-[10px] font-mono uppercase tracking-widest text-yellow-500">
+                                        // Partial Result — Generation Interrupted
+                                    </div>
+                                )}
                             </div>
                         </div>
                     ))}
 
-                    {isBuilding && (
+                    {isBuilding && !messages.some(m => m.isStreaming && m.text) && (
                         <div className="flex items-start animate-in fade-in">
                             <div className="bg-[#0a0a12]/90 border border-cyan-500/40 rounded-lg p-5 flex items-center gap-6 shadow-[0_0_20px_rgba(6,182,212,0.15)] backdrop-blur-md relative overflow-hidden">
                                 <div className="relative w-12 h-12 flex-shrink-0">
@@ -511,6 +1280,7 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
                         </div>
                     )}
                 </div>
+                )}
 
                 <div className="w-64 flex-shrink-0 hidden md:flex flex-col gap-6 p-5 border border-gray-800 bg-[#0a0a12]/50 backdrop-blur-sm rounded-lg overflow-y-auto custom-scrollbar">
                     <ConfigPanel />
@@ -520,17 +1290,59 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
 
         {/* Bottom: Input Area */}
         <div className="flex gap-3 h-12 md:h-14 shrink-0">
-            <input 
-                ref={inputRef}
-                type="text" 
-                value={userPrompt}
-                onChange={(e) => setUserPrompt(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && !isBuilding && handleGenerate()}
-                placeholder={messages.length > 0 ? "Refine..." : "Task (e.g. 'Scrape stocks')"}
-                className="flex-1 bg-[#0a0a12] border border-gray-700 rounded-lg px-4 md:px-6 text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500 font-mono text-sm transition-colors"
-            />
+            <button
+                onClick={() => { ambientEngine.playSFX('click'); if (!isExpanded) toggleExpand(); setIsHistoryOpen(!isHistoryOpen); }}
+                title="Session History"
+                className={`px-3 md:px-4 border rounded-lg transition-colors flex items-center justify-center ${isHistoryOpen ? 'border-cyan-400 text-cyan-400' : 'border-gray-700 text-gray-400 hover:border-white hover:text-white'}`}
+            >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+            </button>
+            <button
+                onClick={() => { ambientEngine.playSFX('click'); setIsRecipesOpen(true); }}
+                title="Recipes"
+                className={`px-3 md:px-4 border rounded-lg transition-colors flex items-center justify-center ${isRecipesOpen ? 'border-cyan-400 text-cyan-400' : 'border-gray-700 text-gray-400 hover:border-white hover:text-white'}`}
+            >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 3h6m-5 0v6.5L4.5 19A1.5 1.5 0 005.8 21h12.4a1.5 1.5 0 001.3-2L14 9.5V3" /></svg>
+            </button>
+            <div className="relative flex-1 min-w-0">
+                <input 
+                    ref={inputRef}
+                    type="text" 
+                    value={userPrompt}
+                    onChange={(e) => setUserPrompt(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && !isBuilding && handleGenerate()}
+                    placeholder={isCompareMode ? `Compare across ${compareModels.length} models...` : messages.length > 0 ? "Refine..." : "Task (e.g. 'Scrape stocks')"}
+                    className="w-full h-full bg-[#0a0a12] border border-gray-700 rounded-lg pl-4 md:pl-6 pr-28 text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500 font-mono text-sm transition-colors"
+                />
+                <div
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-right font-mono text-[9px] leading-tight"
+                    title={contextEstimate
+                        ? `System + elements: ~${contextEstimate.system} · History: ~${contextEstimate.history} · Input: ~${contextEstimate.input} tokens\nSession: ${usage.requests} requests, ${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out`
+                        : undefined}
+                >
+                    {contextEstimate && (
+                        <div className={contextRatio > 0.9 ? 'text-red-400' : contextRatio > 0.5 ? 'text-yellow-400' : 'text-gray-500'}>
+                            ~{formatTokens(contextEstimate.total)} / {formatTokens(contextEstimate.contextWindow)}
+                        </div>
+                    )}
+                    <div className={isOverBudget ? 'text-red-400 font-bold' : 'text-gray-600'}>
+                        {formatCost(usage.cost)}{budget !== null ? ` / ${formatCost(budget)}` : ''}
+                    </div>
+                </div>
+            </div>
             
-            {messages.length > 0 && !isBuilding && (
+            {!isBuilding && !isCompareMode && (
+                 <button
+                    onClick={handleAssemble}
+                    disabled={selectedTopics.length === 0}
+                    title="Assemble a template from the selected elements (offline)"
+                    className="px-3 md:px-4 border border-purple-700 hover:border-purple-400 text-purple-400 hover:text-purple-200 rounded-lg transition-colors flex items-center justify-center text-[10px] font-bold uppercase tracking-wider disabled:opacity-30 disabled:cursor-not-allowed"
+                 >
+                    Assemble
+                 </button>
+            )}
+
+            {messages.length > 0 && !isBuilding && !isCompareMode && (
                  <button 
                     onClick={() => handleGenerate(true)}
                     className="px-3 md:px-4 border border-gray-700 hover:border-white text-gray-400 hover:text-white rounded-lg transition-colors flex items-center justify-center"
@@ -544,9 +1356,11 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
             ) : (
                 <button 
                     onClick={() => handleGenerate(false)}
-                    className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold px-8 rounded-lg uppercase tracking-wider text-xs transition-all shadow-[0_0_20px_rgba(8,145,178,0.4)]"
+                    disabled={(isCompareMode && compareModels.length < 2) || isOverBudget}
+                    title={isOverBudget ? 'Session budget cap reached' : undefined}
+                    className="disabled:opacity-50 disabled:cursor-not-allowed bg-cyan-600 hover:bg-cyan-500 text-white font-bold px-8 rounded-lg uppercase tracking-wider text-xs transition-all shadow-[0_0_20px_rgba(8,145,178,0.4)]"
                 >
-                    Generate
+                    {isCompareMode ? 'Compare' : 'Generate'}
                 </button>
             )}
         </div>
@@ -562,6 +1376,19 @@ const PromptBuilder: React.FC<PromptBuilderProps> = ({ selectedTopics, onRemove,
             onClose={() => setWhiteboardData(null)} 
         />
     )}
+
+    {/* RECIPE GALLERY */}
+    {isRecipesOpen && (
+        <RecipeGallery
+            catalog={catalog}
+            current={{ symbols: selectedTopics.map(t => t.symbol), selectedTech, targetModel, outputType }}
+            shared={sharedRecipe}
+            sharedErrors={sharedRecipeErrors}
+            onLoad={handleLoadRecipe}
+            onDismissShared={() => { setSharedRecipe(null); setSharedRecipeErrors([]); }}
+            onClose={() => setIsRecipesOpen(false)}
+        />
+    )}
     </>
   );
 };
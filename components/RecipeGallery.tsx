@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Recipe, Topic } from '../types';
+import { ambientEngine } from '../utils/audioEngine';
+import { downloadFile } from '../utils/sessionExport';
+import { categoryRegistry } from '../utils/categoryRegistry';
+import {
+  CURATED_RECIPES, createRecipeId, describeRecipeError, normalizeTags, parseRecipe, recipeFileName, recipeLink, recipeStore,
+  RecipeSetup, toRecipeJSON
+} from '../utils/recipes';
+
+interface RecipeGalleryProps {
+  catalog: Topic[]; // Every element on the table; recipe symbols are resolved against it
+  current: RecipeSetup;
+  shared: Recipe | null; // Arrived through a link; shown first until saved or dismissed
+  sharedErrors: string[]; // Why a shared link could not be loaded, shown in its place
+  onLoad: (recipe: Recipe) => void;
+  onDismissShared: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 rounded px-2 py-1.5 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-cyan-500";
+const actionClass = "px-2 text-[9px] uppercase font-bold tracking-wider";
+
+const RecipeGallery: React.FC<RecipeGalleryProps> = ({ catalog, current, shared, sharedErrors, onLoad, onDismissShared, onClose }) => {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [draft, setDraft] = useState({ name: '', description: '', tags: '' });
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => recipeStore.list().then(setRecipes).catch(e => console.error("Recipes unavailable:", e));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const tags = [...new Set([...recipes, ...CURATED_RECIPES].flatMap(r => r.tags))].sort();
+  const matchesTag = (recipe: Recipe) => !activeTag || recipe.tags.includes(activeTag);
+
+  // A recipe saved under an existing name replaces that recipe
+  const store = async (recipe: Recipe) => {
+    const existing = recipes.find(r => r.name.toLowerCase() === recipe.name.toLowerCase());
+    if (existing && !window.confirm(`Replace recipe "${existing.name}"?`)) return false;
+    await recipeStore.save(existing ? { ...recipe, id: existing.id, createdAt: existing.createdAt } : recipe);
+    ambientEngine.playSFX('activate');
+    refresh();
+    return true;
+  };
+
+  const saveCurrent = async () => {
+    const now = Date.now();
+    const saved = await store({
+      id: createRecipeId(),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tags: normalizeTags(draft.tags.split(',')),
+      ...current,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (saved) setDraft({ name: '', description: '', tags: '' });
+  };
+
+  const saveCopy = async (recipe: Recipe) => {
+    const now = Date.now();
+    const { curated, ...fields } = recipe;
+    if (await store({ ...fields, id: createRecipeId(), createdAt: now, updatedAt: now }) && recipe === shared) onDismissShared();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setErrors([]);
+    try {
+      await store(parseRecipe(await file.text()));
+    } catch (err) {
+      setErrors(describeRecipeError(err));
+    }
+  };
+
+  const handleDelete = async (recipe: Recipe) => {
+    if (!window.confirm(`Delete recipe "${recipe.name}"?`)) return;
+    ambientEngine.playSFX('close');
+    await recipeStore.remove(recipe.id);
+    refresh();
+  };
+
+  const copyLink = (recipe: Recipe) => {
+    navigator.clipboard.writeText(recipeLink(recipe));
+    ambientEngine.playSFX('click');
+    setCopiedId(recipe.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const exportRecipe = (recipe: Recipe) => {
+    ambientEngine.playSFX('click');
+    downloadFile(recipeFileName(recipe), toRecipeJSON(recipe), 'application/json');
+  };
+
+  const renderCard = (recipe: Recipe, variant: 'own' | 'starter' | 'shared') => {
+    const missing = recipe.symbols.filter(symbol => !catalog.some(t => t.symbol === symbol));
+    return (
+      <div key={recipe.id} className={`border rounded-lg p-3 bg-[#0a0a12]/50 flex flex-col gap-2 ${variant === 'shared' ? 'border-cyan-500/60' : 'border-gray-800 hover:border-gray-600'}`}>
+        <div>
+          <div className="text-xs font-bold text-gray-200 truncate">{recipe.name}</div>
+          {recipe.description && <p className="text-[10px] text-gray-400 mt-0.5">{recipe.description}</p>}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {recipe.symbols.map(symbol => {
+            const topic = catalog.find(t => t.symbol === symbol);
+            return (
+              <span
+                key={symbol}
+                title={topic ? topic.element : 'Not on the table; skipped when loaded'}
+                className={`px-1.5 py-px text-[10px] font-bold font-mono border rounded-sm ${topic ? '' : 'line-through text-gray-600 border-gray-800'}`}
+                style={topic ? { color: categoryRegistry.resolve(topic.category).color, borderColor: categoryRegistry.resolve(topic.category).color } : undefined}
+              >
+                {symbol}
+              </span>
+            );
+          })}
+        </div>
+        <div className="text-[10px] font-mono text-gray-500 truncate">
+          {recipe.targetModel} · {recipe.outputType}{recipe.selectedTech.length > 0 ? ` · ${recipe.selectedTech.join(', ')}` : ''}
+        </div>
+        {recipe.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {recipe.tags.map(tag => <span key={tag} className="text-[9px] font-mono text-cyan-700">#{tag}</span>)}
+          </div>
+        )}
+        {missing.length > 0 && (
+          <div className="text-[10px] font-mono text-yellow-500">// Not on the table: {missing.join(', ')}</div>
+        )}
+        <div className="flex items-center mt-auto pt-1">
+          <button
+            onClick={() => { ambientEngine.playSFX('activate'); onLoad(recipe); }}
+            disabled={missing.length === recipe.symbols.length}
+            className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white text-[9px] font-bold uppercase tracking-wider rounded transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Load
+          </button>
+          <button onClick={() => copyLink(recipe)} className={`${actionClass} ml-2 text-gray-400 hover:text-cyan-400`}>
+            {copiedId === recipe.id ? '✓ Copied' : 'Link'}
+          </button>
+          <button onClick={() => exportRecipe(recipe)} className={`${actionClass} text-gray-400 hover:text-cyan-400`}>JSON</button>
+          {variant === 'own' && (
+            <button onClick={() => handleDelete(recipe)} className={`${actionClass} ml-auto text-gray-500 hover:text-red-400`}>Delete</button>
+          )}
+          {variant === 'shared' && (
+            <>
+              <button onClick={() => saveCopy(recipe)} className={`${actionClass} text-gray-400 hover:text-cyan-400`}>Save</button>
+              <button onClick={onDismissShared} className={`${actionClass} ml-auto text-gray-500 hover:text-white`}>Dismiss</button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const ownRecipes = recipes.filter(matchesTag);
+  const starters = CURATED_RECIPES.filter(matchesTag);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-[#050510] border border-cyan-500/30 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.15)] animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest flex items-center gap-2">
+            <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full"></span>
+            Recipes
+          </h4>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-5">
+          {shared && (
+            <div className="space-y-2">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Shared with you</span>
+              <div className="grid md:grid-cols-2 gap-3">{renderCard(shared, 'shared')}</div>
+            </div>
+          )}
+          {sharedErrors.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Shared with you</span>
+              <div className="flex items-start justify-between gap-3 border border-red-500/40 rounded-lg p-3 bg-red-900/10">
+                <ul className="text-[10px] font-mono text-red-400 space-y-0.5">
+                  <li>✗ The shared recipe could not be loaded.</li>
+                  {sharedErrors.map(error => <li key={error}>✗ {error}</li>)}
+                </ul>
+                <button onClick={onDismissShared} className={`${actionClass} text-gray-500 hover:text-white`}>Dismiss</button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Save current setup</span>
+            <div className="text-[10px] font-mono text-gray-500 truncate">
+              // {current.symbols.join(' ') || 'No elements selected'} · {current.targetModel} · {current.outputType}
+            </div>
+            <div className="grid md:grid-cols-[1fr_2fr_1fr] gap-2">
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} maxLength={60} placeholder="Name" className={inputClass} />
+              <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="What it's for" className={inputClass} />
+              <input value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="Tags, comma separated" className={inputClass} />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={saveCurrent}
+                disabled={!draft.name.trim() || current.symbols.length === 0}
+                className="flex-grow py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider text-[10px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Recipe
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all"
+              >
+                Import JSON
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+            </div>
+            {errors.length > 0 && (
+              <ul className="text-[10px] font-mono text-red-400 space-y-0.5">
+                {errors.map(error => <li key={error}>✗ {error}</li>)}
+              </ul>
+            )}
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {[null, ...tags].map(tag => (
+                <button
+                  key={tag || 'all'}
+                  onClick={() => setActiveTag(tag)}
+                  className={`px-2 py-0.5 text-[9px] font-mono uppercase border rounded transition-all ${activeTag === tag ? 'border-cyan-500 text-cyan-400' : 'border-gray-800 text-gray-500 hover:border-gray-600'}`}
+                >
+                  {tag ? `#${tag}` : 'All'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">My recipes</span>
+            {ownRecipes.length === 0 ? (
+              <div className="text-gray-600 text-xs font-mono py-2">// {recipes.length === 0 ? 'No saved recipes yet.' : 'None with this tag.'}</div>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-3">{ownRecipes.map(r => renderCard(r, 'own'))}</div>
+            )}
+          </div>
+
+          {starters.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Starters</span>
+              <div className="grid md:grid-cols-2 gap-3">{starters.map(r => renderCard(r, 'starter'))}</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeGallery;
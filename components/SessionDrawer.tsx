@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BuilderSession } from '../types';
+import { sessionStore } from '../utils/sessionStore';
+import { importSession } from '../utils/sessionExport';
+import { ambientEngine } from '../utils/audioEngine';
+
+interface SessionDrawerProps {
+  activeSessionId: string | null;
+  onOpen: (session: BuilderSession) => void;
+  onNew: () => void;
+  onRenamed?: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionDrawer: React.FC<SessionDrawerProps> = ({ activeSessionId, onOpen, onNew, onRenamed, onClose }) => {
+  const [sessions, setSessions] = useState<BuilderSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setSessions(await sessionStore.list());
+    } catch (e) {
+      console.error("Session history unavailable:", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const commitRename = async (id: string) => {
+    const name = editName.trim();
+    setEditingId(null);
+    if (!name) return;
+    await sessionStore.rename(id, name);
+    if (onRenamed) onRenamed(id, name);
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    ambientEngine.playSFX('click');
+    await sessionStore.duplicate(id);
+    refresh();
+  };
+
+  const handleDelete = async (session: BuilderSession) => {
+    if (!window.confirm(`Delete session "${session.name}"?`)) return;
+    ambientEngine.playSFX('close');
+    await sessionStore.remove(session.id);
+    if (session.id === activeSessionId) onNew();
+    refresh();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const session = importSession(await file.text());
+      await sessionStore.save(session);
+      ambientEngine.playSFX('activate');
+      refresh();
+      onOpen(session);
+    } catch (err: any) {
+      setImportError(err?.message || "Import failed.");
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 left-0 z-20 w-full md:w-80 bg-[#050510]/98 border-r border-cyan-500/30 backdrop-blur-xl flex flex-col animate-in slide-in-from-left duration-300">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+            <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest flex items-center gap-2">
+                <span className="w-1.5 h-1.5 bg-cyan-400 rounded-full"></span>
+                Session History
+            </h4>
+            <button onClick={onClose} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="flex gap-2 m-4">
+            <button
+                onClick={() => { ambientEngine.playSFX('activate'); onNew(); }}
+                className="flex-1 py-2 border border-dashed border-cyan-500/50 text-cyan-400 text-[10px] uppercase font-bold tracking-widest rounded hover:bg-cyan-900/20 transition-all"
+            >
+                + New Session
+            </button>
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                title="Import a JSON export or HTML report"
+                className="px-3 py-2 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all"
+            >
+                Import
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.html,application/json,text/html" className="hidden" onChange={handleImport} />
+        </div>
+        {importError && <div className="mx-4 -mt-2 mb-3 text-[10px] font-mono text-red-400">// {importError}</div>}
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar px-4 pb-4 space-y-2">
+            {isLoading && <div className="text-gray-600 text-xs font-mono animate-pulse">// Loading archive...</div>}
+            {!isLoading && sessions.length === 0 && (
+                <div className="text-gray-600 text-xs font-mono uppercase tracking-widest">// No saved sessions</div>
+            )}
+
+            {sessions.map(session => (
+                <div
+                    key={session.id}
+                    className={`group border rounded p-3 transition-all ${session.id === activeSessionId ? 'border-cyan-400 bg-cyan-900/20' : 'border-gray-800 hover:border-gray-600 bg-[#0a0a12]/50'}`}
+                >
+                    {editingId === session.id ? (
+                        <input
+                            autoFocus
+                            value={editName}
+                            onChange={(e) => setEditName(e.target.value)}
+                            onBlur={() => commitRename(session.id)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitRename(session.id);
+                                if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            className="w-full bg-black border border-cyan-500 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none"
+                        />
+                    ) : (
+                        <button
+                            onClick={() => { ambientEngine.playSFX('click'); onOpen(session); }}
+                            className="w-full text-left"
+                        >
+                            <div className="text-xs font-bold text-gray-200 truncate">{session.name}</div>
+                            <div className="text-[10px] font-mono text-gray-500 mt-1 flex justify-between gap-2">
+                                <span className="truncate">{session.symbols.join(' ') || 'No elements'}</span>
+                                <span className="shrink-0">{formatDate(session.updatedAt)}</span>
+                            </div>
+                            <div className="text-[10px] font-mono text-gray-600 mt-0.5 truncate">
+                                {session.targetModel} · {session.messages.length} msgs
+                            </div>
+                        </button>
+                    )}
+
+                    <div className="flex gap-3 mt-2 text-[9px] uppercase font-bold tracking-wider text-gray-500 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => { setEditingId(session.id); setEditName(session.name); }} className="hover:text-cyan-400">Rename</button>
+                        <button onClick={() => handleDuplicate(session.id)} className="hover:text-cyan-400">Duplicate</button>
+                        <button onClick={() => handleDelete(session)} className="hover:text-red-400 ml-auto">Delete</button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default SessionDrawer;
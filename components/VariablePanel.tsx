@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { VariableSet } from '../types';
+import {
+  extractVariables, renderTemplate, missingVariables, variableValue, parseCSV, renderBulk, bulkToCSV, bulkToJSONL, CSVTable
+} from '../utils/templateVars';
+import { variableSetStore, createVariableSetId } from '../utils/variableSetStore';
+import { downloadFile } from '../utils/sessionExport';
+import { ambientEngine } from '../utils/audioEngine';
+
+interface VariablePanelProps {
+  template: string;
+  onClose: () => void;
+}
+
+const BULK_PREVIEW_ROWS = 3;
+
+const VariablePanel: React.FC<VariablePanelProps> = ({ template, onClose }) => {
+  const variables = extractVariables(template);
+  const [tab, setTab] = useState<'fill' | 'bulk'>('fill');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+
+  // Saved Sets
+  const [sets, setSets] = useState<VariableSet[]>([]);
+  const [activeSetId, setActiveSetId] = useState<string>('');
+  const [setName, setSetName] = useState('');
+
+  // Bulk CSV
+  const [csvText, setCsvText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshSets = async () => {
+    try {
+      setSets(await variableSetStore.list());
+    } catch (e) {
+      console.error("Variable sets unavailable:", e);
+    }
+  };
+
+  useEffect(() => {
+    refreshSets();
+  }, []);
+
+  const rendered = renderTemplate(template, values);
+  const missing = missingVariables(template, values);
+
+  // Clearing a field leaves the variable unfilled rather than blank
+  const setVariable = (name: string, value: string) => setValues(prev => {
+    const { [name]: _, ...rest } = prev;
+    return value ? { ...rest, [name]: value } : rest;
+  });
+
+  const handleLoadSet = (id: string) => {
+    ambientEngine.playSFX('click');
+    setActiveSetId(id);
+    const set = sets.find(s => s.id === id);
+    if (!set) return;
+    setValues(prev => ({ ...prev, ...set.values }));
+    setSetName(set.name);
+  };
+
+  // Saving under the name of the loaded set updates it; any other name creates a new set
+  const handleSaveSet = async () => {
+    const name = setName.trim();
+    if (!name) return;
+    const existing = sets.find(s => s.id === activeSetId && s.name === name);
+    const set: VariableSet = {
+      id: existing?.id || createVariableSetId(),
+      name,
+      values: { ...existing?.values, ...values },
+      updatedAt: Date.now(),
+    };
+    await variableSetStore.save(set);
+    ambientEngine.playSFX('activate');
+    setActiveSetId(set.id);
+    refreshSets();
+  };
+
+  const handleDeleteSet = async () => {
+    const set = sets.find(s => s.id === activeSetId);
+    if (!set || !window.confirm(`Delete variable set "${set.name}"?`)) return;
+    await variableSetStore.remove(set.id);
+    ambientEngine.playSFX('close');
+    setActiveSetId('');
+    setSetName('');
+    refreshSets();
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(rendered);
+    ambientEngine.playSFX('click');
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setCsvText(await file.text());
+  };
+
+  let table: CSVTable | null = null;
+  let csvError: string | null = null;
+  if (csvText.trim()) {
+    try {
+      table = parseCSV(csvText);
+    } catch (err: any) {
+      csvError = err?.message || "Could not parse CSV.";
+    }
+  }
+  const bulk = table ? renderBulk(template, table) : [];
+  const unmappedColumns = table ? variables.filter(v => !table!.headers.includes(v)) : [];
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-full md:w-96 bg-[#050510]/98 border-l border-purple-500/30 backdrop-blur-xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+            <h4 className="text-xs font-bold text-purple-400 uppercase tracking-widest flex items-center gap-2">
+                <span className="w-1.5 h-1.5 bg-purple-400 rounded-full"></span>
+                Template Variables ({variables.length})
+            </h4>
+            <button onClick={onClose} className="text-gray-500 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="flex gap-2 px-4 pt-4">
+            {(['fill', 'bulk'] as const).map(t => (
+                <button
+                    key={t}
+                    onClick={() => { ambientEngine.playSFX('click'); setTab(t); }}
+                    className={`flex-1 py-1.5 text-[10px] uppercase font-bold tracking-widest rounded border transition-all ${tab === t ? 'bg-purple-900/40 border-purple-400 text-purple-100' : 'border-gray-800 text-gray-500 hover:border-gray-600'}`}
+                >
+                    {t === 'fill' ? 'Fill' : 'Bulk CSV'}
+                </button>
+            ))}
+        </div>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4">
+            {tab === 'fill' && (
+                <>
+                    {/* Saved Sets */}
+                    <div className="space-y-2">
+                        <div className="flex gap-2">
+                            <select
+                                value={activeSetId}
+                                onChange={(e) => handleLoadSet(e.target.value)}
+                                className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-gray-300 focus:outline-none focus:border-purple-500"
+                            >
+                                <option value="">— Saved sets ({sets.length}) —</option>
+                                {sets.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                            {activeSetId && <button onClick={handleDeleteSet} className="text-[9px] uppercase font-bold tracking-wider text-gray-500 hover:text-red-400">Delete</button>}
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                value={setName}
+                                onChange={(e) => setSetName(e.target.value)}
+                                placeholder="Set name (e.g. Acme Corp)"
+                                className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-purple-500"
+                            />
+                            <button
+                                onClick={handleSaveSet}
+                                disabled={!setName.trim()}
+                                className="px-3 border border-purple-700 text-purple-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-purple-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Form */}
+                    {variables.map(name => (
+                        <label key={name} className="block">
+                            <span className="text-[10px] font-mono text-purple-300">{`{{${name}}}`}</span>
+                            <textarea
+                                rows={2}
+                                value={variableValue(values, name) ?? ''}
+                                onChange={(e) => setVariable(name, e.target.value)}
+                                className="mt-1 w-full bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-white focus:outline-none focus:border-purple-500 resize-y"
+                            />
+                        </label>
+                    ))}
+
+                    {/* Preview */}
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+                                Preview {missing.length > 0 && <span className="text-yellow-500">· {missing.length} unfilled</span>}
+                            </span>
+                            <button onClick={handleCopy} className="text-[10px] uppercase font-bold tracking-widest text-gray-400 hover:text-white">
+                                {copied ? <span className="text-green-400">✓ Copied</span> : 'Copy'}
+                            </button>
+                        </div>
+                        <pre className="bg-[#0a0a12] border border-gray-800 rounded p-3 text-xs font-mono text-gray-300 whitespace-pre-wrap max-h-64 overflow-y-auto custom-scrollbar">{rendered}</pre>
+                    </div>
+                </>
+            )}
+
+            {tab === 'bulk' && (
+                <>
+                    <div className="text-[10px] font-mono text-gray-500">
+                        // One row per prompt. Headers are variable names: {variables.join(', ')}
+                    </div>
+                    <textarea
+                        rows={6}
+                        value={csvText}
+                        onChange={(e) => setCsvText(e.target.value)}
+                        placeholder={variables.join(',')}
+                        className="w-full bg-black border border-gray-700 rounded px-2 py-1 text-xs font-mono text-white placeholder-gray-600 focus:outline-none focus:border-purple-500 resize-y"
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="w-full py-2 border border-dashed border-purple-500/50 text-purple-400 text-[10px] uppercase font-bold tracking-widest rounded hover:bg-purple-900/20 transition-all"
+                    >
+                        Load CSV File
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvFile} />
+
+                    {csvError && <div className="text-[10px] font-mono text-red-400">// {csvError}</div>}
+                    {unmappedColumns.length > 0 && (
+                        <div className="text-[10px] font-mono text-yellow-500">// No column for: {unmappedColumns.join(', ')} (left as placeholders)</div>
+                    )}
+
+                    {table && (
+                        <>
+                            <div className="flex items-center gap-2">
+                                <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mr-auto">{bulk.length} prompts</span>
+                                <button
+                                    onClick={() => { ambientEngine.playSFX('click'); downloadFile('prompts.csv', bulkToCSV(table!, bulk), 'text/csv'); }}
+                                    disabled={bulk.length === 0}
+                                    className="px-3 py-1.5 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all disabled:opacity-30"
+                                >
+                                    CSV
+                                </button>
+                                <button
+                                    onClick={() => { ambientEngine.playSFX('click'); downloadFile('prompts.jsonl', bulkToJSONL(bulk), 'application/jsonl'); }}
+                                    disabled={bulk.length === 0}
+                                    className="px-3 py-1.5 border border-gray-700 text-gray-400 text-[10px] uppercase font-bold tracking-widest rounded hover:border-gray-500 hover:text-white transition-all disabled:opacity-30"
+                                >
+                                    JSONL
+                                </button>
+                            </div>
+                            {bulk.slice(0, BULK_PREVIEW_ROWS).map(r => (
+                                <div key={r.row} className="border border-gray-800 rounded p-2">
+                                    <div className="text-[9px] font-mono uppercase tracking-widest text-gray-600 mb-1">
+                                        Row {r.row}{r.missing.length > 0 && <span className="text-yellow-500"> · missing {r.missing.join(', ')}</span>}
+                                    </div>
+                                    <pre className="text-[11px] font-mono text-gray-400 whitespace-pre-wrap max-h-24 overflow-hidden">{r.prompt}</pre>
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default VariablePanel;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { PromptVersion, VersionSource } from '../types';
+import { diffWords } from '../utils/diff';
+import { flattenTree, versionLabel } from '../utils/versions';
+import { ambientEngine } from '../utils/audioEngine';
+
+interface VersionPanelProps {
+  versions: PromptVersion[];
+  headVersionId: string | null;
+  onBranch: (version: PromptVersion) => void;
+  onRollback: (version: PromptVersion) => void;
+}
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  generate: 'Generated',
+  regenerate: 'Regenerated',
+  whiteboard: 'Whiteboard',
+  assemble: 'Assembled',
+  output: 'Output',
+};
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const VersionPanel: React.FC<VersionPanelProps> = ({ versions, headVersionId, onBranch, onRollback }) => {
+  const [compareId, setCompareId] = useState<string | null>(headVersionId);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  // Follow the head as new versions arrive, diffed against its parent
+  useEffect(() => {
+    const head = versions.find(v => v.id === headVersionId);
+    setCompareId(headVersionId);
+    setBaseId(head?.parentId || null);
+  }, [headVersionId, versions.length]);
+
+  if (versions.length === 0) {
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-600 opacity-50 pointer-events-none">
+            <div className="text-6xl mb-4 grayscale opacity-50">🌿</div>
+            <p className="font-mono text-sm uppercase tracking-widest">No Versions Yet</p>
+        </div>
+    );
+  }
+
+  const rows = flattenTree(versions);
+  const base = versions.find(v => v.id === baseId);
+  const target = versions.find(v => v.id === compareId);
+  const segments = base && target ? diffWords(base.text, target.text) : null;
+  const addedSymbols = base && target ? target.symbols.filter(s => !base.symbols.includes(s)) : [];
+  const removedSymbols = base && target ? base.symbols.filter(s => !target.symbols.includes(s)) : [];
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 h-full min-h-0">
+        {/* Lineage Tree */}
+        <div className="md:w-72 shrink-0 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+            <div className="grid grid-cols-[1fr_auto_auto] gap-2 text-[9px] uppercase font-bold tracking-widest text-gray-600 px-2 mb-1">
+                <span>Lineage</span><span>A</span><span>B</span>
+            </div>
+            {rows.map(({ version, depth }) => (
+                <div
+                    key={version.id}
+                    className={`grid grid-cols-[1fr_auto_auto] gap-2 items-center rounded border px-2 py-1.5 ${version.id === compareId ? 'border-cyan-500/60 bg-cyan-900/10' : 'border-gray-800'}`}
+                    style={{ marginLeft: `${Math.min(depth, 6) * 10}px` }}
+                >
+                    <button onClick={() => { ambientEngine.playSFX('click'); setCompareId(version.id); }} className="text-left min-w-0" title={version.note}>
+                        <div className="text-xs font-mono font-bold text-gray-200">
+                            {versionLabel(versions, version.id)}
+                            {version.id === headVersionId && <span className="ml-2 text-[9px] text-green-400">HEAD</span>}
+                            <span className="ml-2 text-[9px] font-normal uppercase text-gray-500">{SOURCE_LABELS[version.source]}</span>
+                        </div>
+                        <div className="text-[10px] text-gray-500 truncate">{version.note || version.text.slice(0, 60)}</div>
+                        <div className="text-[9px] font-mono text-gray-600">{formatTime(version.createdAt)}{version.modelLabel ? ` · ${version.modelLabel}` : ''}</div>
+                    </button>
+                    <input type="radio" name="version-base" checked={version.id === baseId} onChange={() => setBaseId(version.id)} className="accent-purple-500" />
+                    <input type="radio" name="version-compare" checked={version.id === compareId} onChange={() => setCompareId(version.id)} className="accent-cyan-500" />
+                </div>
+            ))}
+        </div>
+
+        {/* Diff + Actions */}
+        <div className="flex-1 flex flex-col min-h-0 border border-gray-700 rounded-lg bg-gray-800/30">
+            {target && (
+                <div className="p-3 border-b border-gray-800 flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-bold uppercase tracking-wider text-cyan-400">
+                        {base ? `${versionLabel(versions, base.id)} → ` : ''}{versionLabel(versions, target.id)}
+                    </span>
+                    {addedSymbols.length > 0 && <span className="text-[10px] font-mono text-green-400">+{addedSymbols.join(' +')}</span>}
+                    {removedSymbols.length > 0 && <span className="text-[10px] font-mono text-red-400">-{removedSymbols.join(' -')}</span>}
+                    <div className="ml-auto flex gap-2">
+                        <button
+                            onClick={() => onBranch(target)}
+                            disabled={target.id === headVersionId}
+                            title="Continue refining from this version; later versions are kept"
+                            className="px-3 py-1 text-[10px] uppercase font-bold tracking-wider rounded border border-purple-700 text-purple-400 hover:border-purple-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                            Branch Here
+                        </button>
+                        <button
+                            onClick={() => onRollback(target)}
+                            disabled={target.id === headVersionId}
+                            title="Make this version the head and restore its element set"
+                            className="px-3 py-1 text-[10px] uppercase font-bold tracking-wider rounded border border-yellow-700 text-yellow-500 hover:border-yellow-400 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                            Roll Back
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="p-3 overflow-y-auto custom-scrollbar flex-grow text-sm font-mono whitespace-pre-wrap text-gray-200">
+                {target?.note && <div className="mb-3 text-[10px] text-gray-500">// NOTE: {target.note}</div>}
+                {target?.image && <img src={target.image} alt="Whiteboard refinement" className="mb-3 max-h-40 rounded border border-gray-700" />}
+                {segments
+                    ? segments.map((seg, i) => (
+                        <span
+                            key={i}
+                            className={seg.type === 'added' ? 'bg-green-900/50 text-green-200' : seg.type === 'removed' ? 'bg-red-900/40 text-red-300 line-through' : ''}
+                        >
+                            {seg.text}
+                        </span>
+                    ))
+                    : target?.text}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default VersionPanel;
@@ -1,5 +1,5 @@
 
-import { Topic, Tier2Topic, Category } from './types';
+import { Topic, Tier2Topic, Category, ElementRules } from './types';
 
 export const TOPICS: Topic[] = [
   {
@@ -328,3 +328,69 @@ export const TIER_2_TOPICS: Tier2Topic[] = [
   { name: 'Emotional Prompt', category: Category.UNIVERSAL, trend: -2.1, sentiment: 'down' },
   { name: 'Hallucination Check', category: Category.UNIVERSAL, trend: 11.0, sentiment: 'up' },
 ];
+
+// Synergies, conflicts and target applicability for the built-in elements;
+// custom and pack elements can add their own through `Topic.rules`.
+export const ELEMENT_RULES: Record<string, ElementRules> = {
+  Cl: { synergies: ['Xml', 'Fm'] },
+  Xml: { synergies: ['Cx', 'Fm'] },
+  Fs: {
+    synergies: ['Fm', 'Xml'],
+    conflicts: [{ symbol: 'O1', reason: "Reasoning models perform worse with few-shot examples." }],
+  },
+  Tmp: {
+    synergies: ['Di'],
+    providers: ['gemini'],
+    targetNote: "Its 'strictly 1.0 for Gemini 3' advice does not carry over to other vendors.",
+  },
+  Cx: { synergies: ['Xml', 'Mc'] },
+  Gm: {
+    synergies: ['Pl'],
+    conflicts: [{ symbol: 'Th', reason: "Two different thinking controls; keep the one for the target vendor." }],
+    providers: ['gemini'],
+    requires: ['thinking'],
+  },
+  Mc: { synergies: ['Cx'], providers: ['gemini'] },
+  Cf: { synergies: ['Cr'], providers: ['gemini'] },
+  Gs: { synergies: ['Rs', 'Uc'], providers: ['gemini'], requires: ['search'] },
+  So: {
+    synergies: ['Fm'],
+    conflicts: [{ symbol: 'Pf', reason: "Structured Outputs and prefilling both force the format; use one." }],
+    providers: ['openai'],
+  },
+  O1: {
+    conflicts: [{ symbol: 'Th', reason: "o-series reasoning and Claude extended thinking target different models." }],
+    providers: ['openai'],
+    requires: ['thinking'],
+  },
+  Ag: { synergies: ['Pl', 'Rv'], providers: ['openai'] },
+  Th: {
+    synergies: ['Pl', 'Rv'],
+    conflicts: [{ symbol: 'Pf', reason: "Claude does not accept a prefilled response with extended thinking on." }],
+    providers: ['anthropic'],
+    requires: ['thinking'],
+  },
+  Pf: { synergies: ['Fm', 'Xml'], providers: ['anthropic'] },
+  Uc: { synergies: ['Gs', 'Rs', 'Rv'] },
+  Op: {
+    synergies: ['Cl'],
+    conflicts: [{ symbol: 'Di', reason: "Anti-over-engineering asks for the minimal solution; Diverse asks for several." }],
+    providers: ['anthropic'],
+  },
+  Gk: { providers: ['xai'] },
+  Ro: { synergies: ['Ps'], providers: ['xai'] },
+  Px: { synergies: ['Sf', 'Rs'], providers: ['perplexity'], targetNote: "None of the target models run on Perplexity." },
+  Sf: { synergies: ['Px'], providers: ['perplexity'], targetNote: "None of the target models run on Perplexity." },
+  Lm: {
+    conflicts: [{ symbol: 'Qw', reason: "Llama and Qwen use different chat templates; keep the one for the target model." }],
+    providers: ['openrouter'],
+  },
+  Qw: { providers: ['openrouter'] },
+  Ps: { synergies: ['Cl', 'Ro'] },
+  Pl: { synergies: ['Rv'] },
+  Rv: { synergies: ['Pl', 'Uc'] },
+  Fm: { synergies: ['Xml'] },
+  Di: { synergies: ['Rv'] },
+  Cr: { synergies: ['Rv', 'Cf'] },
+  Rs: { synergies: ['Gs', 'Uc', 'Pl'] },
+};
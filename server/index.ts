@@ -0,0 +1,14 @@
+import { createServer } from 'http';
+import { loadEnv } from 'vite';
+import { createProxyHandler, loadProxyConfig } from './proxy';
+
+// Standalone entry (`npm run proxy`). Reads the same .env files as Vite,
+// with process.env taking precedence.
+const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+const config = loadProxyConfig(env);
+const port = Number(env.LLM_PROXY_PORT) || 8787;
+
+createServer(createProxyHandler(config)).listen(port, config.host, () => {
+  const served = config.mock ? 'mock mode' : Object.keys(config.credentials).join(', ') || 'no providers configured';
+  console.log(`[llm-proxy] Listening on http://${config.host}:${port} (${served})`);
+});
@@ -0,0 +1,352 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  createProvider, CredentialMap, DEFAULT_MOCK_CONFIG, JSONSchema, LLMError, LLMProvider, MockConfig, MockProvider, PROVIDER_IDS, ProviderId,
+  TokenUsage
+} from '../utils/llm';
+import { validateSchema } from '../utils/jsonSchema';
+import { PROXY_PATH } from '../utils/llm/proxy';
+import { RateLimiter, RateLimitConfig } from './rateLimit';
+import { ProxyOperation, UsageLog } from './usageLog';
+
+// Forwards the browser's LLM calls to the vendors with keys held here, so
+// they never reach the client. Routes (all under PROXY_PATH):
+//   GET  /status  -> { mock, providers }
+//   GET  /usage   -> per-client totals since start
+//   POST /chat    -> { provider, options, message, stream }; NDJSON when streaming
+//   POST /json    -> { provider, request }
+//   POST /image   -> { provider, request } -> { image }
+//   POST /test    -> { provider }
+
+export interface ProxyConfig {
+  credentials: CredentialMap;
+  mock: MockConfig | null; // Serve every provider from MockProvider, no network needed
+  rateLimit: RateLimitConfig;
+  logFile?: string;
+  host: string; // Interface the standalone server binds to
+  allowOrigins: string[]; // Browser origins allowed to call it; '*' opens it to any site
+  allowHosts: string[]; // Host header names it answers to, so DNS-rebinding pages are refused
+  allowRemote: boolean; // Serve clients on other machines; off, only loopback connections are answered
+}
+
+type Env = Record<string, string | undefined>;
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Room for a few base64 images
+
+// The Vite dev server (vite.config.ts); any other origin must be allowed explicitly
+const DEV_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+const listOf = (value?: string) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+// Reads `<PROVIDER>_API_KEY` / `<PROVIDER>_BASE_URL` for each provider plus
+// the LLM_PROXY_* options (LLM_PROXY_MOCK_LATENCY in ms, LLM_PROXY_MOCK_ERROR_RATE 0-1).
+export const loadProxyConfig = (env: Env): ProxyConfig => {
+  const credentials: CredentialMap = {};
+  PROVIDER_IDS.forEach(id => {
+    const apiKey = env[`${id.toUpperCase()}_API_KEY`];
+    const baseUrl = env[`${id.toUpperCase()}_BASE_URL`];
+    if (apiKey) credentials[id] = { apiKey, ...(baseUrl ? { baseUrl } : {}) };
+  });
+
+  const host = env.LLM_PROXY_HOST || '127.0.0.1';
+  return {
+    credentials,
+    mock: ['1', 'true'].includes(env.LLM_PROXY_MOCK || '')
+      ? {
+          latencyMs: Number(env.LLM_PROXY_MOCK_LATENCY ?? DEFAULT_MOCK_CONFIG.latencyMs),
+          errorRate: Number(env.LLM_PROXY_MOCK_ERROR_RATE ?? DEFAULT_MOCK_CONFIG.errorRate),
+        }
+      : null,
+    rateLimit: {
+      requests: Number(env.LLM_PROXY_RATE_LIMIT) || 30,
+      windowMs: 60_000,
+    },
+    logFile: env.LLM_PROXY_LOG ?? 'logs/llm-usage.log',
+    host,
+    allowOrigins: env.LLM_PROXY_ALLOW_ORIGIN ? listOf(env.LLM_PROXY_ALLOW_ORIGIN) : DEV_ORIGINS,
+    allowHosts: [...new Set([...LOOPBACK_HOSTS, host, ...listOf(env.LLM_PROXY_ALLOW_HOST)])],
+    allowRemote: ['1', 'true'].includes(env.LLM_PROXY_ALLOW_REMOTE || ''),
+  };
+};
+
+// For the handler mounted on a Vite server: its own pages, on whichever port it got
+export const withServerOrigins = (config: ProxyConfig, port: number): ProxyConfig => ({
+  ...config,
+  allowOrigins: [...new Set([...config.allowOrigins, `http://localhost:${port}`, `http://127.0.0.1:${port}`])],
+});
+
+export const isProxyEnabled = (env: Env) =>
+  ['1', 'true'].includes(env.LLM_PROXY || '') || ['1', 'true'].includes(env.LLM_PROXY_MOCK || '');
+
+export class ProxyError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// Same shape as vendor errors, so the client's ensureOk reads it unchanged.
+// `blocked` carries a vendor safety refusal through to the client's classifier.
+const errorBody = (message: string, status: number, blocked?: boolean) => ({ error: { message, status, ...(blocked ? { blocked } : {}) } });
+
+const isBlocked = (e: any) => e instanceof LLMError && !!e.details.blocked;
+
+const readBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ProxyError("Request body too large.", 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch (e) {
+        reject(new ProxyError("Request body is not valid JSON.", 400));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Rate limits and usage are tracked per connecting address
+const clientOf = (req: IncomingMessage) => req.socket.remoteAddress || 'unknown';
+
+// Request bodies per route, checked before dispatch so a malformed call is a
+// 400 rather than a TypeError deep in a provider
+const TEXT = { type: 'string' };
+const MODEL_REQUEST = { type: 'object', properties: { model: { type: 'string', minLength: 1 }, prompt: TEXT }, required: ['model', 'prompt'] };
+
+const BODY_SCHEMAS: Record<ProxyOperation, JSONSchema> = {
+  chat: {
+    type: 'object',
+    properties: {
+      provider: TEXT,
+      options: {
+        type: 'object',
+        properties: {
+          model: { type: 'string', minLength: 1 },
+          systemInstruction: TEXT,
+          history: { type: 'array', items: { type: 'object', properties: { role: { enum: ['user', 'model'] }, text: TEXT }, required: ['role', 'text'] } },
+        },
+        required: ['model'],
+      },
+      message: { type: 'object', properties: { text: TEXT, image: TEXT }, required: ['text'] },
+      stream: { type: 'boolean' },
+    },
+    required: ['provider', 'options', 'message'],
+  },
+  json: { type: 'object', properties: { provider: TEXT, request: MODEL_REQUEST }, required: ['provider', 'request'] },
+  image: { type: 'object', properties: { provider: TEXT, request: MODEL_REQUEST }, required: ['provider', 'request'] },
+  test: { type: 'object', properties: { provider: TEXT }, required: ['provider'] },
+};
+
+const validateBody = (operation: ProxyOperation, body: unknown) => {
+  const errors = validateSchema(BODY_SCHEMAS[operation], body, 'body');
+  if (errors.length) throw new ProxyError(`Invalid ${operation} request: ${errors.slice(0, 3).join('; ')}`, 400);
+};
+
+const statusOf = (e: any): number => {
+  if (e instanceof ProxyError) return e.status;
+  if (e instanceof LLMError && e.status) return e.status;
+  if (isBlocked(e)) return 422;
+  if (e?.name === 'AbortError') return 499;
+  return 502;
+};
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next?: () => void) => void;
+
+export const createProxyHandler = (config: ProxyConfig): Middleware => {
+  const limiter = new RateLimiter(config.rateLimit);
+  const usage = new UsageLog(config.logFile);
+  const providers = new Map<ProviderId, LLMProvider>();
+
+  const servedProviders = PROVIDER_IDS.filter(id => config.mock || config.credentials[id]);
+
+  const providerFor = (id: unknown): LLMProvider => {
+    if (!PROVIDER_IDS.includes(id as ProviderId)) throw new ProxyError(`Unknown provider: ${id}`, 400);
+    const providerId = id as ProviderId;
+    if (!servedProviders.includes(providerId)) throw new ProxyError(`The proxy has no key for ${providerId}.`, 503);
+
+    let provider = providers.get(providerId);
+    if (!provider) {
+      provider = config.mock ? new MockProvider(providerId, config.mock) : createProvider(providerId, config.credentials[providerId]!);
+      providers.set(providerId, provider);
+    }
+    return provider;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, operation: ProxyOperation) => {
+    const client = clientOf(req);
+    const started = Date.now();
+    const body = await readBody(req);
+    validateBody(operation, body);
+    const provider = providerFor(body.provider);
+    const model: string | undefined = body.options?.model || body.request?.model;
+    let tokens: TokenUsage | undefined;
+
+    const log = (status: number, error?: string) => usage.record({
+      time: new Date().toISOString(),
+      client,
+      provider: provider.id,
+      model,
+      operation,
+      status,
+      latencyMs: Date.now() - started,
+      inputTokens: tokens?.inputTokens,
+      outputTokens: tokens?.outputTokens,
+      error,
+    });
+
+    const limit = limiter.take(client);
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', Math.ceil(limit.retryAfterMs / 1000));
+      log(429, 'Rate limited');
+      throw new ProxyError(`Rate limit reached. Try again in ${Math.ceil(limit.retryAfterMs / 1000)}s.`, 429);
+    }
+    res.setHeader('X-RateLimit-Remaining', limit.remaining);
+
+    // Cancel the upstream call when the browser goes away
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+    const signal = controller.signal;
+
+    try {
+      switch (operation) {
+        case 'chat': {
+          const chat = provider.createChat(body.options);
+          if (!body.stream) {
+            const result = await chat.sendMessage(body.message, { signal });
+            tokens = result.usage;
+            sendJSON(res, 200, result);
+            break;
+          }
+          res.statusCode = 200;
+          res.setHeader('Content-Type', 'application/x-ndjson');
+          try {
+            for await (const chunk of chat.sendMessageStream(body.message, { signal })) {
+              if (chunk.usage) tokens = chunk.usage;
+              res.write(JSON.stringify(chunk) + '\n');
+            }
+          } catch (e: any) {
+            // Headers are already sent; report the failure in-band
+            res.end(JSON.stringify(errorBody(e?.message || 'Stream failed.', statusOf(e), isBlocked(e))) + '\n');
+            log(statusOf(e), e?.message);
+            return;
+          }
+          res.end();
+          break;
+        }
+        case 'json': {
+          const result = await provider.generateJSON(body.request, { signal });
+          tokens = result.usage;
+          sendJSON(res, 200, result);
+          break;
+        }
+        case 'image':
+          sendJSON(res, 200, { image: await provider.generateImage(body.request, { signal }) });
+          break;
+        case 'test':
+          await provider.testConnection({ signal });
+          sendJSON(res, 200, { ok: true });
+          break;
+      }
+      log(200);
+    } catch (e: any) {
+      log(statusOf(e), e?.message);
+      throw e;
+    }
+  };
+
+  const isAllowedHost = (host?: string) => {
+    if (!host) return false;
+    try {
+      return config.allowHosts.includes(new URL(`http://${host}`).hostname);
+    } catch {
+      return false;
+    }
+  };
+
+  const routes: Record<string, ProxyOperation> = { '/chat': 'chat', '/json': 'json', '/image': 'image', '/test': 'test' };
+
+  return (req, res, next) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (!path.startsWith(PROXY_PATH)) {
+      if (next) next();
+      else sendJSON(res, 404, errorBody("Not found.", 404));
+      return;
+    }
+
+    // Any site the user visits could otherwise spend the keys held here. CORS
+    // alone only hides the response, so other hosts and origins are refused,
+    // and calls that spend keys must name an allowed origin.
+    // The dev and preview servers listen on every interface; the proxy answers
+    // only this machine unless told otherwise
+    if (!config.allowRemote && !LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || '')) {
+      sendJSON(res, 403, errorBody("The LLM proxy only serves this machine. Set LLM_PROXY_ALLOW_REMOTE=1 to open it.", 403));
+      return;
+    }
+    if (!isAllowedHost(req.headers.host)) {
+      sendJSON(res, 403, errorBody(`Host ${req.headers.host || '(none)'} is not allowed. Add it to LLM_PROXY_ALLOW_HOST.`, 403));
+      return;
+    }
+    const origin = req.headers.origin;
+    const anyOrigin = config.allowOrigins.includes('*');
+    res.setHeader('Vary', 'Origin');
+    if (origin && !anyOrigin && !config.allowOrigins.includes(origin)) {
+      sendJSON(res, 403, errorBody(`Origin ${origin} is not allowed. Add it to LLM_PROXY_ALLOW_ORIGIN.`, 403));
+      return;
+    }
+    if (!origin && req.method === 'POST') {
+      sendJSON(res, 403, errorBody("Requests must come from an allowed browser origin.", 403));
+      return;
+    }
+    if (origin) res.setHeader('Access-Control-Allow-Origin', anyOrigin ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    const route = path.slice(PROXY_PATH.length);
+    if (req.method === 'GET' && route === '/status') {
+      sendJSON(res, 200, { mock: !!config.mock, providers: servedProviders });
+      return;
+    }
+    if (req.method === 'GET' && route === '/usage') {
+      sendJSON(res, 200, usage.summary());
+      return;
+    }
+
+    const operation = routes[route];
+    if (req.method !== 'POST' || !operation) {
+      sendJSON(res, 404, errorBody("Not found.", 404));
+      return;
+    }
+
+    handle(req, res, operation).catch((e: any) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      // Pass the vendor's backoff hint on, so the client waits as long as upstream asked
+      const retryAfterMs = e instanceof LLMError ? e.details.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined) res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+      sendJSON(res, statusOf(e), errorBody(e?.message || 'Proxy request failed.', statusOf(e), isBlocked(e)));
+    });
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rateLimit';
+
+describe('RateLimiter', () => {
+  it('allows `requests` calls per window and says when the next one is due', () => {
+    const limiter = new RateLimiter({ requests: 2, windowMs: 1000 });
+    expect(limiter.take('a', 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(limiter.take('a', 400)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect(limiter.take('a', 600)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 400 });
+    expect(limiter.take('a', 1001).allowed).toBe(true);
+  });
+
+  it('counts each client separately', () => {
+    const limiter = new RateLimiter({ requests: 1, windowMs: 1000 });
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(false);
+  });
+
+  it('drops clients whose window has emptied', () => {
+    const limiter = new RateLimiter({ requests: 1, windowMs: 1000 });
+    for (let i = 0; i < 99; i++) limiter.take(`client-${i}`, 0);
+    expect(limiter.size).toBe(99);
+    limiter.take('late', 5000);
+    expect(limiter.size).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+// Sliding-window limiter: each client may make `requests` calls in any
+// `windowMs` span. State is in memory, so limits reset when the proxy restarts.
+
+export interface RateLimitConfig {
+  requests: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+// Clients whose window has emptied are dropped this often, so the map stays
+// bounded however many addresses come and go
+const PRUNE_EVERY = 100;
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+  private calls = 0;
+
+  constructor(private config: RateLimitConfig) {}
+
+  public take(client: string, now = Date.now()): RateLimitResult {
+    const windowStart = now - this.config.windowMs;
+    if (++this.calls % PRUNE_EVERY === 0) this.prune(windowStart);
+    const recent = (this.hits.get(client) || []).filter(t => t > windowStart);
+
+    if (recent.length >= this.config.requests) {
+      this.hits.set(client, recent);
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + this.config.windowMs - now };
+    }
+
+    recent.push(now);
+    this.hits.set(client, recent);
+    return { allowed: true, remaining: this.config.requests - recent.length, retryAfterMs: 0 };
+  }
+
+  // Timestamps are in call order, so the last one tells whether any are still in the window
+  private prune(windowStart: number) {
+    this.hits.forEach((times, client) => {
+      if (times[times.length - 1] <= windowStart) this.hits.delete(client);
+    });
+  }
+
+  // Clients currently tracked
+  get size() {
+    return this.hits.size;
+  }
+}
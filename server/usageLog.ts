@@ -0,0 +1,56 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { ProviderId } from '../utils/llm';
+
+export type ProxyOperation = 'chat' | 'json' | 'image' | 'test';
+
+export interface UsageEntry {
+  time: string; // ISO timestamp
+  client: string;
+  provider: ProviderId;
+  model?: string;
+  operation: ProxyOperation;
+  status: number;
+  latencyMs: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  error?: string;
+}
+
+interface UsageTotals {
+  requests: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Appends one JSON line per proxied call to `file` and keeps running totals
+// per client for the /usage endpoint. Logging never fails a request.
+export class UsageLog {
+  private totals = new Map<string, UsageTotals>();
+  private ready: Promise<void> | null = null;
+
+  constructor(private file?: string) {}
+
+  public record(entry: UsageEntry) {
+    const totals = this.totals.get(entry.client) || { requests: 0, errors: 0, inputTokens: 0, outputTokens: 0 };
+    totals.requests += 1;
+    if (entry.status >= 400) totals.errors += 1;
+    totals.inputTokens += entry.inputTokens || 0;
+    totals.outputTokens += entry.outputTokens || 0;
+    this.totals.set(entry.client, totals);
+
+    console.log(`[llm-proxy] ${entry.client} ${entry.operation} ${entry.provider}${entry.model ? `/${entry.model}` : ''} ${entry.status} ${entry.latencyMs}ms`);
+
+    if (!this.file) return;
+    const file = this.file;
+    this.ready ??= mkdir(dirname(file), { recursive: true }).then(() => undefined);
+    this.ready
+      .then(() => appendFile(file, JSON.stringify(entry) + '\n'))
+      .catch(e => console.warn("[llm-proxy] Failed to write usage log:", e));
+  }
+
+  public summary(): Record<string, UsageTotals> {
+    return Object.fromEntries(this.totals);
+  }
+}
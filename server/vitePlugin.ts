@@ -0,0 +1,16 @@
+import type { Plugin } from 'vite';
+import { createProxyHandler, isProxyEnabled, loadProxyConfig, withServerOrigins } from './proxy';
+
+// Mounts the LLM proxy on the dev and preview servers when LLM_PROXY=1 (or
+// LLM_PROXY_MOCK=1), so the app can reach it same-origin.
+export const llmProxy = (env: Record<string, string>): Plugin => ({
+  name: 'llm-proxy',
+  configureServer(server) {
+    if (!isProxyEnabled(env)) return;
+    server.middlewares.use(createProxyHandler(withServerOrigins(loadProxyConfig(env), server.config.server.port ?? 5173)));
+  },
+  configurePreviewServer(server) {
+    if (!isProxyEnabled(env)) return;
+    server.middlewares.use(createProxyHandler(withServerOrigins(loadProxyConfig(env), server.config.preview.port ?? 4173)));
+  },
+});
@@ -30,10 +30,86 @@ export interface TopicDetails {
 export interface Topic {
   symbol: string;
   element: string; // Used as name
-  category: string; // Mapped to Category enum in UI
+  category: string; // A Category value or a user / pack category; see utils/categoryRegistry
   description: string;
   usage: string;
   details?: TopicDetails;
+  custom?: boolean; // Authored in the element editor and stored locally
+  pack?: string; // Name of the element pack it was loaded from
+  rules?: ElementRules; // Extends the built-in ELEMENT_RULES entry for its symbol
+}
+
+// Compatibility Types
+export interface ElementConflict {
+  symbol: string;
+  reason: string;
+}
+
+export interface ElementRules {
+  synergies?: string[]; // Symbols it works well alongside; suggested when missing
+  conflicts?: ElementConflict[];
+  providers?: string[]; // Provider ids it is written for; absent means any target
+  requires?: ('thinking' | 'search' | 'images')[]; // Target model features it relies on
+  targetNote?: string; // Shown when the target is outside `providers`
+}
+
+// Custom Element Types
+export interface CustomTopic extends Topic {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Category Registry Types
+export type CategoryGroup = 'main' | 'media' | 'bulletin'; // Main grid, media row, bulletin board
+
+export interface CategorySound {
+  frequency: number; // Hz; the hover blip sweeps up from here
+  wave: OscillatorType;
+}
+
+export interface CategoryDefinition {
+  name: string;
+  color: string; // #rrggbb; card, filter and modal styles are generated from it
+  glyph: string;
+  group: CategoryGroup;
+  sound: CategorySound;
+  description?: string;
+  pulse?: boolean; // Pulsing glow with a gradient backdrop
+}
+
+export interface UserCategory extends CategoryDefinition {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Element Pack Types
+export interface PackCategory {
+  name: string;
+  color: string; // #rrggbb
+  description?: string;
+  glyph?: string;
+  group?: CategoryGroup; // Defaults to the main grid
+  sound?: CategorySound;
+}
+
+export interface ElementPack {
+  name: string;
+  version: string;
+  author: string;
+  description?: string;
+  categories?: PackCategory[]; // New categories its topics may use
+  topics: Topic[];
+}
+
+export interface InstalledPack {
+  id: string;
+  pack: ElementPack;
+  enabled: boolean;
+  source: string; // File name or URL it was imported from
+  installedAt: number;
+  updatedAt: number;
 }
 
 export interface Tier2Topic {
@@ -54,33 +130,194 @@ export interface PlanData {
   }[];
 }
 
+// Presentation Types
+export interface Slide {
+  title: string;
+  subtitle?: string;
+  points: string[];
+  visualDescription?: string; // for image gen
+  imageUrl?: string;
+}
+
+// Compare Mode Types
+export interface CompareResult {
+  modelLabel: string;
+  modelId?: string;
+  status: 'pending' | 'done' | 'error';
+  text: string;
+  error?: string;
+  latencyMs?: number;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface CompareRun {
+  id: string;
+  prompt: string;
+  symbols: string[]; // Ingredient symbols the run was built with
+  createdAt: number;
+  results: CompareResult[];
+}
+
+// Builder Session Types
+export interface GeneratedOutput {
+  type: string; // Output type whose generator produced it
+  data: unknown; // Parsed response; matches the generator's schema when it validated
+  errors: string[]; // Schema and semantic validation problems; empty when valid
+}
+
+// A failed send, kept on its error note so the Retry button can re-run it
+export interface RetryRequest {
+  prompt: string;
+  image?: string;
+  isRegen?: boolean;
+  infographicFor?: string; // Re-runs only the infographic, attaching it to this version's reply
+}
+
+export interface BuilderMessage {
+  role: 'user' | 'model';
+  text: string;
+  image?: string;
+  plan?: PlanData; // Stores plan data if this message is a plan
+  isStreaming?: boolean; // Tokens are still arriving into this bubble
+  isPartial?: boolean; // Stream was cut short (stopped or failed)
+  isNote?: boolean; // App status line (fallback, stop, error); never replayed to the model
+  isDraft?: boolean; // Template assembled locally by the prompt composer; never replayed to the model
+  output?: GeneratedOutput; // Structured result from an output-type generator
+  versionId?: string; // Prompt version this message produced or restored
+  retry?: RetryRequest; // Set on error notes whose request can be sent again
+}
+
+// Custom system instruction pinned to a session: 'replace' sends `text` instead
+// of the generated instruction, 'append' adds it after the generated one
+export interface InstructionOverride {
+  mode: 'replace' | 'append';
+  text: string;
+}
+
+export interface BuilderSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  symbols: string[]; // Selected topic symbols, resolved against the table on load
+  selectedTech: string[];
+  targetModel: string;
+  outputType: string;
+  messages: BuilderMessage[];
+  compareRuns: CompareRun[];
+  evalSuite?: EvalSuite; // Absent on sessions saved before evals existed
+  versions?: PromptVersion[];
+  headVersionId?: string | null;
+  usage?: SessionUsage;
+  budget?: number | null; // Spending cap in USD; sends are blocked once usage.cost reaches it
+  instructionOverride?: InstructionOverride | null;
+}
+
+// Accumulated from the usage each response reports (estimated when it reports none)
+export interface SessionUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD at list prices
+}
+
+// Prompt Version Types
+export type VersionSource = 'generate' | 'regenerate' | 'whiteboard' | 'assemble' | 'output';
+
+export interface PromptVersion {
+  id: string;
+  parentId: string | null; // Version it was refined from; null for a root
+  createdAt: number;
+  text: string;
+  symbols: string[]; // Element set it was built with
+  source: VersionSource;
+  modelLabel?: string;
+  note?: string; // User prompt or refinement notes that produced it
+  image?: string; // Whiteboard capture, for whiteboard refinements
+}
+
+// Evaluation Types
+export type EvalCheckKind = 'contains' | 'regex' | 'jsonSchema' | 'judge';
+
+export interface EvalCheck {
+  id: string;
+  kind: EvalCheckKind;
+  // contains: substring (case-insensitive) | regex: pattern source | jsonSchema: schema as JSON text
+  // judge: optional minimum score, defaulting to the rubric's passing score
+  value: string;
+}
+
+export interface EvalCase {
+  id: string;
+  name: string;
+  input: string; // Sent as the user message; the prompt under test is the system instruction
+  checks: EvalCheck[];
+}
+
+export interface EvalCheckResult {
+  checkId: string;
+  pass: boolean;
+  score?: number; // Judge checks only, on the rubric's scale
+  detail?: string;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  status: 'pending' | 'done' | 'error';
+  output: string;
+  error?: string;
+  latencyMs?: number;
+  checks: EvalCheckResult[];
+}
+
+export interface EvalRun {
+  id: string;
+  createdAt: number;
+  modelLabel: string;
+  prompt: string; // Prompt under test at the time of the run
+  results: EvalCaseResult[];
+}
+
+export interface EvalSuite {
+  cases: EvalCase[];
+  runs: EvalRun[];
+}
+
+// Recipe Types
+// A named builder setup: the elements plus the configuration around them
+export interface Recipe {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  symbols: string[]; // Resolved against the table on load; missing ones are skipped
+  selectedTech: string[];
+  targetModel: string;
+  outputType: string;
+  createdAt: number;
+  updatedAt: number;
+  curated?: boolean; // Starter shipped with the app; never stored
+}
+
+// Deep Link Types
+export type ElementTab = 'overview' | 'specs' | 'code' | 'examples';
+
+// What the URL hash can carry; every field is optional
+export interface LinkState {
+  element?: string; // Symbol of the element open in the modal
+  tab?: ElementTab;
+  category?: string; // Category filter on the table
+  builder?: string[]; // Symbols in the reaction chamber
+  targetModel?: string;
+  outputType?: string;
+  tech?: string[];
+}
+
+// Template Variable Types
+export interface VariableSet {
+  id: string;
+  name: string; // e.g. a customer or dataset
+  values: Record<string, string>; // Variable name -> value
+  updatedAt: number;
+}
 
-export const CATEGORY_STYLES: Record<Category, string> = {
-  [Category.UNIVERSAL]: 'text-green-400 border-green-500/50 hover:border-green-400 hover:shadow-[0_0_15px_rgba(74,222,128,0.4)]',
-  [Category.GEMINI]: 'text-pink-400 border-pink-500/50 hover:border-pink-400 hover:shadow-[0_0_20px_rgba(236,72,153,0.6)] animate-pulse-slow',
-  [Category.OPENAI]: 'text-cyan-400 border-cyan-500/50 hover:border-cyan-400 hover:shadow-[0_0_15px_rgba(34,211,238,0.4)]',
-  [Category.CLAUDE]: 'text-orange-400 border-orange-500/50 hover:border-orange-400 hover:shadow-[0_0_15px_rgba(251,146,60,0.4)]',
-  [Category.GROK]: 'text-gray-100 border-gray-400/50 hover:border-white hover:shadow-[0_0_15px_rgba(255,255,255,0.4)]',
-  [Category.PERPLEXITY]: 'text-teal-400 border-teal-500/50 hover:border-teal-400 hover:shadow-[0_0_15px_rgba(45,212,191,0.4)]',
-  [Category.OPENSOURCE]: 'text-yellow-400 border-yellow-500/50 hover:border-yellow-400 hover:shadow-[0_0_15px_rgba(250,204,21,0.4)]',
-  [Category.COMMAND]: 'text-purple-400 border-purple-500/50 hover:border-purple-400 hover:shadow-[0_0_15px_rgba(192,132,252,0.4)]',
-  // Media Series Styles (High Glow)
-  [Category.VIDEO]: 'text-purple-500 border-purple-500 shadow-[0_0_10px_rgba(168,85,247,0.3)] hover:shadow-[0_0_25px_rgba(168,85,247,0.6)]',
-  [Category.AUDIO]: 'text-blue-500 border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.3)] hover:shadow-[0_0_25px_rgba(59,130,246,0.6)]',
-  [Category.VOICE]: 'text-orange-500 border-orange-500 shadow-[0_0_10px_rgba(249,115,22,0.3)] hover:shadow-[0_0_25px_rgba(249,115,22,0.6)]',
-};
-
-export const CATEGORY_HOVER_STYLES: Record<Category, string> = {
-  [Category.UNIVERSAL]: 'hover:bg-green-900/20',
-  [Category.GEMINI]: 'bg-[radial-gradient(circle_at_50%_0%,rgba(236,72,153,0.15),transparent_70%)] hover:bg-[radial-gradient(circle_at_50%_0%,rgba(236,72,153,0.3),transparent_70%)]',
-  [Category.OPENAI]: 'hover:bg-cyan-900/20',
-  [Category.CLAUDE]: 'hover:bg-orange-900/20',
-  [Category.GROK]: 'hover:bg-gray-800',
-  [Category.PERPLEXITY]: 'hover:bg-teal-900/20',
-  [Category.OPENSOURCE]: 'hover:bg-yellow-900/20',
-  [Category.COMMAND]: 'hover:bg-purple-900/20',
-  // Media Hover
-  [Category.VIDEO]: 'hover:bg-purple-900/30',
-  [Category.AUDIO]: 'hover:bg-blue-900/30',
-  [Category.VOICE]: 'hover:bg-orange-900/30',
-};
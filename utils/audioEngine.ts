@@ -1,5 +1,5 @@
 
-import { Category } from '../types';
+import { categoryRegistry, DEFAULT_SOUND } from './categoryRegistry';
 
 type SFXType = 'hover' | 'click' | 'activate' | 'close';
 
@@ -41,22 +41,10 @@ export class LyriaSimulator {
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
 
-    // Base Frequency Mapping based on Category
-    let baseFreq = 800;
-    let waveType: OscillatorType = 'sine';
-
-    if (category) {
-        switch (category) {
-            case Category.GEMINI: baseFreq = 1200; waveType = 'sine'; break;
-            case Category.COMMAND: baseFreq = 400; waveType = 'square'; break;
-            case Category.VIDEO: baseFreq = 600; waveType = 'sawtooth'; break;
-            case Category.AUDIO: baseFreq = 500; waveType = 'triangle'; break;
-            case Category.OPENAI: baseFreq = 1000; waveType = 'triangle'; break;
-            case Category.CLAUDE: baseFreq = 900; waveType = 'sine'; break;
-            case Category.OPENSOURCE: baseFreq = 300; waveType = 'square'; break;
-            default: baseFreq = 800;
-        }
-    }
+    // Pitch and timbre come from the category's sound profile
+    const sound = category ? categoryRegistry.resolve(category).sound : DEFAULT_SOUND;
+    const baseFreq = sound.frequency;
+    const waveType = sound.wave;
 
     switch (type) {
         case 'hover':
@@ -0,0 +1,160 @@
+import { Category, CategoryDefinition, CategoryGroup, CategorySound, PackCategory, UserCategory } from '../types';
+import { RecordStore } from './db';
+
+// Every category the table knows about: the built-ins, categories the team
+// defines in the category editor, and those added by enabled element packs.
+// Card, filter and modal styles and hover sounds are all derived from here.
+
+export const userCategoryStore = new RecordStore<UserCategory>('categories');
+
+export const createCategoryId = () => `category-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const DEFAULT_GLYPH = '◆';
+export const DEFAULT_SOUND: CategorySound = { frequency: 800, wave: 'sine' };
+
+export const CATEGORY_GROUPS: { group: CategoryGroup; label: string }[] = [
+  { group: 'main', label: 'Main Grid' },
+  { group: 'media', label: 'Media Row' },
+  { group: 'bulletin', label: 'Bulletin Board' },
+];
+
+export const SOUND_WAVES: OscillatorType[] = ['sine', 'triangle', 'square', 'sawtooth'];
+
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  { name: Category.UNIVERSAL, color: '#4ade80', glyph: '◎', group: 'main', sound: DEFAULT_SOUND },
+  { name: Category.GEMINI, color: '#f472b6', glyph: '✦', group: 'main', sound: { frequency: 1200, wave: 'sine' }, pulse: true },
+  { name: Category.OPENAI, color: '#22d3ee', glyph: '◈', group: 'main', sound: { frequency: 1000, wave: 'triangle' } },
+  { name: Category.CLAUDE, color: '#fb923c', glyph: '✺', group: 'main', sound: { frequency: 900, wave: 'sine' } },
+  { name: Category.GROK, color: '#f3f4f6', glyph: '✕', group: 'main', sound: DEFAULT_SOUND },
+  { name: Category.PERPLEXITY, color: '#2dd4bf', glyph: '❖', group: 'main', sound: DEFAULT_SOUND },
+  { name: Category.OPENSOURCE, color: '#facc15', glyph: '⟡', group: 'main', sound: { frequency: 300, wave: 'square' } },
+  { name: Category.COMMAND, color: '#c084fc', glyph: '⌘', group: 'bulletin', sound: { frequency: 400, wave: 'square' } },
+  // Media Series
+  { name: Category.VIDEO, color: '#a855f7', glyph: '▶', group: 'media', sound: { frequency: 600, wave: 'sawtooth' } },
+  { name: Category.AUDIO, color: '#3b82f6', glyph: '♪', group: 'media', sound: { frequency: 500, wave: 'triangle' } },
+  { name: Category.VOICE, color: '#f97316', glyph: '◉', group: 'media', sound: DEFAULT_SOUND },
+];
+
+const BUILT_IN_NAMES = new Set(BUILT_IN_CATEGORIES.map(c => c.name.toLowerCase()));
+
+export const isBuiltInCategory = (name: string) => BUILT_IN_NAMES.has(name.toLowerCase());
+
+// For elements whose category is not registered, e.g. after its pack was disabled
+const UNKNOWN_CATEGORY: Omit<CategoryDefinition, 'name'> = { color: '#9ca3af', glyph: '?', group: 'main', sound: DEFAULT_SOUND };
+
+export const fromPackCategory = ({ name, color, description, glyph, group, sound }: PackCategory): CategoryDefinition => ({
+  name,
+  color,
+  glyph: glyph || DEFAULT_GLYPH,
+  group: group || 'main',
+  sound: sound || DEFAULT_SOUND,
+  ...(description ? { description } : {}),
+});
+
+export const toPackCategory = ({ name, color, description, glyph, group, sound }: CategoryDefinition): PackCategory =>
+  ({ name, color, ...(description ? { description } : {}), glyph, group, sound });
+
+class CategoryRegistry {
+  private user: CategoryDefinition[] = [];
+  private packs: CategoryDefinition[] = [];
+  private index = new Map<string, CategoryDefinition>();
+
+  constructor() {
+    this.rebuild();
+  }
+
+  // App pushes these whenever they change, before rendering the table
+  setUserCategories(categories: CategoryDefinition[]) {
+    this.user = categories;
+    this.rebuild();
+  }
+
+  setPackCategories(categories: PackCategory[]) {
+    this.packs = categories.map(fromPackCategory);
+    this.rebuild();
+  }
+
+  // Built-ins, then user categories, then pack ones; the first use of a name wins
+  private rebuild() {
+    this.index = new Map();
+    [...BUILT_IN_CATEGORIES, ...this.user, ...this.packs].forEach(category => {
+      const key = category.name.toLowerCase();
+      if (!this.index.has(key)) this.index.set(key, category);
+    });
+  }
+
+  get(name: string): CategoryDefinition | undefined {
+    return this.index.get(name.toLowerCase());
+  }
+
+  // Falls back to a neutral definition so unknown categories still render
+  resolve(name: string): CategoryDefinition {
+    return this.get(name) || { ...UNKNOWN_CATEGORY, name };
+  }
+
+  list(group?: CategoryGroup): CategoryDefinition[] {
+    const all = [...this.index.values()];
+    return group ? all.filter(c => c.group === group) : all;
+  }
+
+  names(group?: CategoryGroup): string[] {
+    return this.list(group).map(c => c.name);
+  }
+
+  groupOf(name: string): CategoryGroup {
+    return this.resolve(name).group;
+  }
+}
+
+export const categoryRegistry = new CategoryRegistry();
+
+// --- STYLES ---
+
+export interface CategoryStyle {
+  card: string; // Text, border and glow for element cards
+  hover: string; // Card background on hover
+  theme: string; // Text and border, e.g. the element view
+  hex: string;
+}
+
+// Tailwind's CDN build generates arbitrary-value classes at runtime, so any
+// color works. Media cards glow at rest like the original media series.
+export const styleFor = ({ color: c, group, pulse }: Pick<CategoryDefinition, 'color' | 'group' | 'pulse'>): CategoryStyle => {
+  const card = group === 'media'
+    ? `text-[${c}] border-[${c}] shadow-[0_0_10px_${c}4d] hover:shadow-[0_0_25px_${c}99]`
+    : `text-[${c}] border-[${c}]/50 hover:border-[${c}] hover:shadow-[0_0_${pulse ? 20 : 15}px_${c}${pulse ? '99' : '66'}]${pulse ? ' animate-pulse-slow' : ''}`;
+  const hover = pulse
+    ? `bg-[radial-gradient(circle_at_50%_0%,${c}26,transparent_70%)] hover:bg-[radial-gradient(circle_at_50%_0%,${c}4d,transparent_70%)]`
+    : `hover:bg-[${c}]/${group === 'media' ? 20 : 10}`;
+  return { card, hover, theme: `text-[${c}] border-[${c}]`, hex: c };
+};
+
+export const categoryStyle = (name: string): CategoryStyle => styleFor(categoryRegistry.resolve(name));
+
+// --- VALIDATION ---
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MAX_NAME_LENGTH = 20;
+const MIN_FREQUENCY = 100;
+const MAX_FREQUENCY = 2000;
+
+// Problems with a category definition; `taken` holds every other category name
+export const validateCategory = (category: Partial<CategoryDefinition> & { name: string }, taken: string[]): string[] => {
+  const errors: string[] = [];
+  const name = category.name.trim();
+
+  if (!name) errors.push('Name is required.');
+  else if (name.length > MAX_NAME_LENGTH) errors.push(`Name must be at most ${MAX_NAME_LENGTH} characters.`);
+  else if (isBuiltInCategory(name)) errors.push(`"${name}" is a built-in category.`);
+  else if (taken.some(t => t.toLowerCase() === name.toLowerCase())) errors.push(`Category "${name}" already exists.`);
+
+  if (category.color !== undefined && !HEX_COLOR.test(category.color)) errors.push('Color must be a #rrggbb hex value.');
+  if (category.glyph !== undefined && (!category.glyph.trim() || [...category.glyph.trim()].length > 2)) errors.push('Glyph must be one or two characters.');
+  if (category.group !== undefined && !CATEGORY_GROUPS.some(g => g.group === category.group)) errors.push(`Unknown group "${category.group}".`);
+  if (category.sound !== undefined) {
+    const { frequency, wave } = category.sound;
+    if (typeof frequency !== 'number' || frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) errors.push(`Sound frequency must be between ${MIN_FREQUENCY} and ${MAX_FREQUENCY} Hz.`);
+    if (!SOUND_WAVES.includes(wave)) errors.push(`Sound wave must be one of: ${SOUND_WAVES.join(', ')}.`);
+  }
+  return errors;
+};
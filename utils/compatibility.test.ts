@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ElementRules, Topic } from '../types';
+import { ModelInfo } from './llm';
+import { checkCompatibility, rulesFor } from './compatibility';
+
+// Symbols outside ELEMENT_RULES so only the rules given here apply
+const topic = (symbol: string, rules?: ElementRules): Topic =>
+  ({ symbol, element: symbol, category: 'Test', description: '', usage: '', rules });
+
+const TARGET: ModelInfo = {
+  label: 'Test Model',
+  provider: 'openai',
+  modelId: 'test-model',
+  contextWindow: 1000,
+  pricing: { input: 0, output: 0 },
+  requestsPerMinute: 20,
+  features: { thinking: false, search: false, images: true },
+};
+
+describe('rulesFor', () => {
+  it('adds the element\'s own rules to the built-in ones', () => {
+    expect(rulesFor(topic('Cl', { synergies: ['Zz'] })).synergies).toEqual(['Xml', 'Fm', 'Zz']);
+    expect(rulesFor(topic('Qa'))).toEqual({ synergies: [], conflicts: [], providers: undefined, requires: undefined, targetNote: undefined });
+  });
+});
+
+describe('checkCompatibility', () => {
+  it('scores a selection without rules at 100', () => {
+    expect(checkCompatibility([topic('Qa'), topic('Qb')], TARGET, [])).toEqual({ score: 100, issues: [], synergies: [], suggestions: [] });
+  });
+
+  it('reports each conflicting pair once, whichever side declares it', () => {
+    const a = topic('Qa', { conflicts: [{ symbol: 'Qb', reason: 'They disagree.' }] });
+    const b = topic('Qb', { conflicts: [{ symbol: 'Qa', reason: 'Also from this side.' }] });
+    const report = checkCompatibility([a, b], undefined, []);
+    expect(report.issues).toEqual([{ kind: 'conflict', symbols: ['Qa', 'Qb'], message: 'Qa + Qb: They disagree.' }]);
+    expect(report.score).toBe(75);
+  });
+
+  it('flags elements written for another vendor or needing missing features', () => {
+    const vendor = topic('Qa', { providers: ['anthropic'], targetNote: 'Use plain headings instead.' });
+    const thinking = topic('Qb', { requires: ['thinking', 'search'] });
+    const report = checkCompatibility([vendor, thinking], TARGET, []);
+    expect(report.issues.map(i => i.message)).toEqual([
+      'Qa is written for Anthropic, not Test Model. Use plain headings instead.',
+      'Qb relies on extended thinking and search grounding, which Test Model does not support.',
+    ]);
+    expect(report.score).toBe(70);
+    expect(checkCompatibility([vendor, thinking], undefined, []).issues).toEqual([]);
+  });
+
+  it('adds a bonus for synergies and caps the score at 100', () => {
+    const a = topic('Qa', { synergies: ['Qb'], conflicts: [{ symbol: 'Qc', reason: 'No.' }] });
+    const b = topic('Qb', { synergies: ['Qa'] });
+    const report = checkCompatibility([a, b, topic('Qc')], undefined, []);
+    expect(report.synergies).toEqual([['Qa', 'Qb']]);
+    expect(report.score).toBe(80);
+    expect(checkCompatibility([a, b], undefined, []).score).toBe(100);
+  });
+
+  it('suggests missing synergies by how many selected elements want them, skipping ones that would clash', () => {
+    const catalog = [
+      topic('Qc'),
+      topic('Qd'),
+      topic('Qe', { conflicts: [{ symbol: 'Qa', reason: 'No.' }] }),
+      topic('Qf', { requires: ['search'] }),
+    ];
+    const a = topic('Qa', { synergies: ['Qc', 'Qd', 'Qe', 'Qf', 'Qz'] });
+    const b = topic('Qb', { synergies: ['Qd'] });
+    expect(checkCompatibility([a, b], TARGET, catalog).suggestions).toEqual([
+      { topic: catalog[1], reason: 'Works well with Qa, Qb' },
+      { topic: catalog[0], reason: 'Works well with Qa' },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { ElementRules, Topic } from '../types';
+import { ELEMENT_RULES } from '../data';
+import { getProviderLabel, ModelInfo, PROVIDER_IDS, ProviderId } from './llm';
+
+// Checks a builder selection against the element rules: pairs that conflict,
+// elements written for a different vendor than the target model, and missing
+// elements that would complement what is already selected.
+
+export interface CompatibilityIssue {
+  kind: 'conflict' | 'target';
+  symbols: string[];
+  message: string;
+}
+
+export interface CompatibilitySuggestion {
+  topic: Topic;
+  reason: string;
+}
+
+export interface CompatibilityReport {
+  score: number; // 0-100
+  issues: CompatibilityIssue[];
+  synergies: [string, string][]; // Selected pairs that declare each other
+  suggestions: CompatibilitySuggestion[];
+}
+
+const CONFLICT_PENALTY = 25;
+const TARGET_PENALTY = 15;
+const SYNERGY_BONUS = 5;
+const MAX_SUGGESTIONS = 3;
+
+const FEATURE_LABELS: Record<NonNullable<ElementRules['requires']>[number], string> = {
+  thinking: 'extended thinking',
+  search: 'search grounding',
+  images: 'image input',
+};
+
+// Built-in rules merged with whatever the element declares itself
+export const rulesFor = (topic: Topic): ElementRules => {
+  const base = ELEMENT_RULES[topic.symbol] || {};
+  const own = topic.rules || {};
+  return {
+    synergies: [...(base.synergies || []), ...(own.synergies || [])],
+    conflicts: [...(base.conflicts || []), ...(own.conflicts || [])],
+    providers: own.providers || base.providers,
+    requires: own.requires || base.requires,
+    targetNote: own.targetNote || base.targetNote,
+  };
+};
+
+const vendorLabel = (provider: string) =>
+  PROVIDER_IDS.includes(provider as ProviderId) ? getProviderLabel(provider as ProviderId) : provider.charAt(0).toUpperCase() + provider.slice(1);
+
+const targetIssues = (topic: Topic, rules: ElementRules, target: ModelInfo): CompatibilityIssue[] => {
+  const issues: CompatibilityIssue[] = [];
+  if (rules.providers?.length && !rules.providers.includes(target.provider)) {
+    const vendors = rules.providers.map(vendorLabel).join(' / ');
+    issues.push({
+      kind: 'target',
+      symbols: [topic.symbol],
+      message: `${topic.symbol} is written for ${vendors}, not ${target.label}.${rules.targetNote ? ` ${rules.targetNote}` : ''}`,
+    });
+  }
+  const missing = (rules.requires || []).filter(feature => !target.features[feature]);
+  if (missing.length) {
+    issues.push({
+      kind: 'target',
+      symbols: [topic.symbol],
+      message: `${topic.symbol} relies on ${missing.map(f => FEATURE_LABELS[f]).join(' and ')}, which ${target.label} does not support.`,
+    });
+  }
+  return issues;
+};
+
+export const checkCompatibility = (selected: Topic[], target: ModelInfo | undefined, catalog: Topic[]): CompatibilityReport => {
+  const symbols = new Set(selected.map(t => t.symbol));
+  const rules = new Map(selected.map(t => [t.symbol, rulesFor(t)]));
+  const issues: CompatibilityIssue[] = [];
+  const synergies: [string, string][] = [];
+
+  // Pairs are reported once, whichever side declares the rule
+  const seenPairs = new Set<string>();
+  const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+  selected.forEach(topic => {
+    const own = rules.get(topic.symbol)!;
+    own.conflicts!.forEach(({ symbol, reason }) => {
+      const key = pairKey(topic.symbol, symbol);
+      if (!symbols.has(symbol) || symbol === topic.symbol || seenPairs.has(key)) return;
+      seenPairs.add(key);
+      issues.push({ kind: 'conflict', symbols: [topic.symbol, symbol], message: `${topic.symbol} + ${symbol}: ${reason}` });
+    });
+    own.synergies!.forEach(symbol => {
+      const key = `+${pairKey(topic.symbol, symbol)}`;
+      if (!symbols.has(symbol) || symbol === topic.symbol || seenPairs.has(key)) return;
+      seenPairs.add(key);
+      synergies.push([topic.symbol, symbol]);
+    });
+    if (target) issues.push(...targetIssues(topic, own, target));
+  });
+
+  const conflicts = issues.filter(i => i.kind === 'conflict').length;
+  const score = Math.max(0, Math.min(100,
+    100 - conflicts * CONFLICT_PENALTY - (issues.length - conflicts) * TARGET_PENALTY + synergies.length * SYNERGY_BONUS
+  ));
+
+  // Unselected elements that several selected ones declare as synergies rank
+  // first; candidates that would add a conflict or miss the target are skipped.
+  const votes = new Map<string, string[]>();
+  selected.forEach(topic => rules.get(topic.symbol)!.synergies!.forEach(symbol => {
+    if (!symbols.has(symbol)) votes.set(symbol, [...(votes.get(symbol) || []), topic.symbol]);
+  }));
+  const suggestions = [...votes.entries()]
+    .map(([symbol, by]) => ({ topic: catalog.find(t => t.symbol === symbol), by }))
+    .filter((c): c is { topic: Topic; by: string[] } => !!c.topic)
+    .filter(({ topic }) => {
+      const candidate = rulesFor(topic);
+      const clashes = candidate.conflicts!.some(c => symbols.has(c.symbol))
+        || selected.some(t => rules.get(t.symbol)!.conflicts!.some(c => c.symbol === topic.symbol));
+      return !clashes && !(target && targetIssues(topic, candidate, target).length);
+    })
+    .sort((a, b) => b.by.length - a.by.length)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ topic, by }) => ({ topic, reason: `Works well with ${by.join(', ')}` }));
+
+  return { score, issues, synergies, suggestions };
+};
@@ -0,0 +1,66 @@
+import { CustomTopic, Topic, TopicDetails } from '../types';
+import { RecordStore } from './db';
+import { categoryRegistry } from './categoryRegistry';
+
+// Elements the team authors in the element editor. They sit in the grid next
+// to the built-ins, so symbols must stay unique across both.
+export const customTopicStore = new RecordStore<CustomTopic>('customTopics');
+
+export const createCustomTopicId = () => `topic-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Periodic-table style: a capital letter, then up to three letters or digits
+export const SYMBOL_PATTERN = /^[A-Z][A-Za-z0-9]{0,3}$/;
+
+const MAX_ELEMENT_LENGTH = 40;
+
+// Drops empty strings, lists and rows so saved details only hold what was filled in
+export const compactDetails = (details: TopicDetails): TopicDetails | undefined => {
+  const result: TopicDetails = {};
+  const text = (value?: string) => value?.trim() || undefined;
+  const fields = ['title', 'subtitle', 'body', 'configuration_code', 'critical_note', 'marketing_note'] as const;
+  fields.forEach(key => {
+    const value = text(details[key]);
+    if (value) result[key] = value;
+  });
+
+  const practices = (details.best_practices || []).map(p => p.trim()).filter(Boolean);
+  if (practices.length) result.best_practices = practices;
+  const examples = (details.examples || []).filter(e => e.type.trim() || e.content.trim());
+  if (examples.length) result.examples = examples;
+  const levels = (details.when_to_use || []).filter(w => w.level.trim() || w.description?.trim() || w.use_cases?.trim());
+  if (levels.length) result.when_to_use = levels;
+  const thinking = (details.thinking_levels || []).filter(t => t.keyword.trim() || t.description.trim());
+  if (thinking.length) result.thinking_levels = thinking;
+
+  return Object.keys(result).length ? result : undefined;
+};
+
+// Problems that block saving; `taken` holds every other symbol on the table
+// and `categories` every category a topic may use.
+export const validateTopic = (topic: Topic, taken: string[], categories: string[] = categoryRegistry.names()): string[] => {
+  const errors: string[] = [];
+  const symbol = topic.symbol.trim();
+
+  if (!symbol) errors.push('Symbol is required.');
+  else if (!SYMBOL_PATTERN.test(symbol)) errors.push('Symbol must start with a capital letter and be 1-4 letters or digits.');
+  else if (taken.some(s => s.toLowerCase() === symbol.toLowerCase())) errors.push(`Symbol "${symbol}" is already on the table.`);
+
+  if (!topic.element.trim()) errors.push('Element name is required.');
+  else if (topic.element.trim().length > MAX_ELEMENT_LENGTH) errors.push(`Element name must be at most ${MAX_ELEMENT_LENGTH} characters.`);
+
+  if (!categories.includes(topic.category)) errors.push(topic.category ? `Unknown category "${topic.category}".` : 'Pick a category.');
+  if (!topic.description.trim()) errors.push('Description is required.');
+
+  const details = topic.details;
+  details?.examples?.forEach((example, i) => {
+    if (!example.type.trim() || !example.content.trim()) errors.push(`Example ${i + 1} needs both a label and content.`);
+  });
+  details?.when_to_use?.forEach((row, i) => {
+    if (!row.level.trim()) errors.push(`When-to-use row ${i + 1} needs a level.`);
+  });
+  details?.thinking_levels?.forEach((row, i) => {
+    if (!row.keyword.trim() || !row.description.trim()) errors.push(`Thinking level ${i + 1} needs a keyword and a description.`);
+  });
+
+  return errors;
+};
@@ -0,0 +1,64 @@
+// Shared IndexedDB database for everything the app persists locally. Each
+// object store is keyed by `id`; bump DB_VERSION when adding a store.
+
+const DB_NAME = 'periodic-table';
+const DB_VERSION = 7;
+const OBJECT_STORES = ['sessions', 'variableSets', 'settings', 'customTopics', 'elementPacks', 'categories', 'recipes'] as const;
+
+export type StoreName = typeof OBJECT_STORES[number];
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      OBJECT_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Basic CRUD over one object store; subclasses add domain operations.
+export class RecordStore<T extends { id: string; updatedAt: number }> {
+  constructor(private readonly name: StoreName) {}
+
+  protected async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await openDatabase();
+    return db.transaction(this.name, mode).objectStore(this.name);
+  }
+
+  // Newest first
+  public async list(): Promise<T[]> {
+    const records = await promisify<T[]>((await this.store('readonly')).getAll());
+    return records.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public async get(id: string): Promise<T | undefined> {
+    return promisify<T | undefined>((await this.store('readonly')).get(id));
+  }
+
+  public async save(record: T): Promise<void> {
+    await promisify((await this.store('readwrite')).put(record));
+  }
+
+  public async remove(id: string): Promise<void> {
+    await promisify((await this.store('readwrite')).delete(id));
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DiffSegment, diffWords } from './diff';
+
+const side = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter(s => s.type !== skip).map(s => s.text).join('');
+
+describe('diffWords', () => {
+  it('returns one equal segment for identical text', () => {
+    expect(diffWords('a b c', 'a b c')).toEqual([{ type: 'equal', text: 'a b c' }]);
+  });
+
+  it('marks replaced words and merges neighbouring segments of a kind', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' fox' },
+    ]);
+  });
+
+  it('handles insertions and deletions at either end', () => {
+    expect(diffWords('b', 'a b')).toEqual([{ type: 'added', text: 'a ' }, { type: 'equal', text: 'b' }]);
+    expect(diffWords('a b', 'a')).toEqual([{ type: 'equal', text: 'a' }, { type: 'removed', text: ' b' }]);
+    expect(diffWords('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+  });
+
+  it('keeps whitespace so both sides can be rebuilt exactly', () => {
+    const before = 'line one\n  indented  words';
+    const after = 'line two\n  indented words\n';
+    const segments = diffWords(before, after);
+    expect(side(segments, 'added')).toBe(before);
+    expect(side(segments, 'removed')).toBe(after);
+  });
+
+  it('falls back to a whole-text replacement for very long inputs', () => {
+    const long = 'w '.repeat(6000);
+    expect(diffWords(long, long + 'x')).toEqual([{ type: 'removed', text: long }, { type: 'added', text: long + 'x' }]);
+    expect(diffWords(long, long)).toEqual([{ type: 'equal', text: long }]);
+  });
+});
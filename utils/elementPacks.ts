@@ -0,0 +1,225 @@
+import { ElementPack, InstalledPack, PackCategory, Topic } from '../types';
+import { JSONSchema } from './llm';
+import { validateSchema } from './jsonSchema';
+import { RecordStore } from './db';
+import { validateTopic } from './customTopicStore';
+import { BUILT_IN_CATEGORIES, validateCategory } from './categoryRegistry';
+import { slugify } from './fileNames';
+
+// Element packs: shareable JSON files holding a set of topics, plus any new
+// categories they use. Installed packs are stored locally and, while enabled,
+// merged into the table after the built-ins and custom elements.
+
+export const PACK_FORMAT = 'periodic-table-pack';
+export const PACK_FORMAT_VERSION = 1;
+
+export const elementPackStore = new RecordStore<InstalledPack>('elementPacks');
+
+export class PackImportError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'PackImportError';
+  }
+}
+
+// --- FORMAT ---
+
+const TEXT = { type: 'string' };
+
+const TOPIC_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    symbol: TEXT,
+    element: TEXT,
+    category: TEXT,
+    description: TEXT,
+    usage: TEXT,
+    details: {
+      type: 'object',
+      properties: {
+        title: TEXT,
+        subtitle: TEXT,
+        body: TEXT,
+        best_practices: { type: 'array', items: TEXT },
+        examples: {
+          type: 'array',
+          items: { type: 'object', properties: { type: TEXT, content: TEXT }, required: ['type', 'content'] },
+        },
+        configuration_code: TEXT,
+        when_to_use: {
+          type: 'array',
+          items: { type: 'object', properties: { level: TEXT, description: TEXT, use_cases: TEXT }, required: ['level'] },
+        },
+        thinking_levels: {
+          type: 'array',
+          items: { type: 'object', properties: { keyword: TEXT, description: TEXT }, required: ['keyword', 'description'] },
+        },
+        critical_note: TEXT,
+        marketing_note: TEXT,
+      },
+    },
+    rules: {
+      type: 'object',
+      properties: {
+        synergies: { type: 'array', items: TEXT },
+        conflicts: {
+          type: 'array',
+          items: { type: 'object', properties: { symbol: TEXT, reason: TEXT }, required: ['symbol', 'reason'] },
+        },
+        providers: { type: 'array', items: TEXT },
+        requires: { type: 'array', items: { type: 'string', enum: ['thinking', 'search', 'images'] } },
+        targetNote: TEXT,
+      },
+    },
+  },
+  required: ['symbol', 'element', 'category', 'description'],
+};
+
+const PACK_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: [PACK_FORMAT] },
+    formatVersion: { type: 'integer', minimum: 1 },
+    name: { type: 'string', minLength: 1, maxLength: 60 },
+    version: { type: 'string', minLength: 1 },
+    author: { type: 'string', minLength: 1 },
+    description: TEXT,
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          color: TEXT,
+          description: TEXT,
+          glyph: TEXT,
+          group: TEXT,
+          sound: { type: 'object', properties: { frequency: { type: 'number' }, wave: TEXT }, required: ['frequency', 'wave'] },
+        },
+        required: ['name', 'color'],
+      },
+    },
+    topics: { type: 'array', minItems: 1, items: TOPIC_SCHEMA },
+  },
+  required: ['format', 'formatVersion', 'name', 'version', 'author', 'topics'],
+};
+
+// Re-importing a pack with the same name replaces the installed copy
+export const packId = (pack: ElementPack) => `pack-${slugify(pack.name, 'pack')}`;
+
+export const packFileName = (pack: ElementPack) => `${slugify(pack.name, 'pack')}-${slugify(pack.version, 'pack')}.json`;
+
+const nameFromSource = (source: string) =>
+  source.split(/[\\/]/).filter(Boolean).pop()?.replace(/\.json$/i, '').replace(/[-_]+/g, ' ') || 'Imported Pack';
+
+// Only the Topic fields travel; app flags like `custom` stay behind
+const toPackTopic = ({ symbol, element, category, description, usage, details, rules }: Topic): Topic =>
+  ({ symbol, element, category, description, usage: usage || '', ...(details ? { details } : {}), ...(rules ? { rules } : {}) });
+
+// Parses and validates a pack file. A bare array of topics (the shape of
+// data.ts and components/input.json) imports as a pack named after `source`.
+export const parsePack = (text: string, source: string): ElementPack => {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new PackImportError("File does not contain valid JSON.");
+  }
+
+  if (Array.isArray(payload)) {
+    payload = { format: PACK_FORMAT, formatVersion: PACK_FORMAT_VERSION, name: nameFromSource(source), version: '0.0.0', author: 'Unknown', topics: payload };
+  }
+  if (payload?.format !== PACK_FORMAT) throw new PackImportError("Not a Periodic Table element pack.");
+  if (typeof payload.formatVersion === 'number' && payload.formatVersion > PACK_FORMAT_VERSION) {
+    throw new PackImportError(`Unsupported pack format version: ${payload.formatVersion}.`);
+  }
+
+  const schemaErrors = validateSchema(PACK_SCHEMA, payload);
+  if (schemaErrors.length > 0) throw new PackImportError("Pack does not match the pack format.", schemaErrors);
+
+  const errors: string[] = [];
+  const categories: PackCategory[] = payload.categories || [];
+  categories.forEach((category, i) => {
+    const earlier = categories.slice(0, i).map(c => c.name);
+    validateCategory(category, earlier).forEach(error => errors.push(`categories[${i}]: ${error}`));
+  });
+
+  // Pack topics may use the built-ins and the pack's own categories
+  const allowed = [...BUILT_IN_CATEGORIES.map(c => c.name), ...categories.map(c => c.name)];
+  const seen: string[] = [];
+  const topics = (payload.topics as Topic[]).map(toPackTopic);
+  topics.forEach((topic, i) => {
+    const label = `topics[${i}] (${topic.symbol || '?'})`;
+    validateTopic(topic, [], allowed).forEach(error => errors.push(`${label}: ${error}`));
+    if (seen.some(s => s.toLowerCase() === topic.symbol.toLowerCase())) errors.push(`${label}: symbol appears more than once in the pack.`);
+    seen.push(topic.symbol);
+  });
+  if (errors.length > 0) throw new PackImportError("Pack failed validation.", errors);
+
+  return {
+    name: payload.name.trim(),
+    version: payload.version.trim(),
+    author: payload.author.trim(),
+    ...(payload.description ? { description: payload.description } : {}),
+    ...(categories.length ? { categories: categories.map(({ name, color, description, glyph, group, sound }) =>
+      ({ name, color, ...(description ? { description } : {}), ...(glyph ? { glyph } : {}), ...(group ? { group } : {}), ...(sound ? { sound } : {}) })) } : {}),
+    topics,
+  };
+};
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+export const fetchPack = async (url: string): Promise<ElementPack> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch {
+    throw new PackImportError("Could not download the pack. Check the URL and that the server allows cross-origin requests.");
+  }
+  if (!response.ok) throw new PackImportError(`Could not download the pack (${response.status}).`);
+  return parsePack(await response.text(), url);
+};
+
+export const toPackJSON = (pack: ElementPack): string => JSON.stringify({
+  format: PACK_FORMAT,
+  formatVersion: PACK_FORMAT_VERSION,
+  ...pack,
+  topics: pack.topics.map(toPackTopic),
+}, null, 2);
+
+// --- MERGE ---
+
+export interface PackConflict {
+  pack: string;
+  symbol: string;
+}
+
+export interface MergedPacks {
+  topics: Topic[]; // Tagged with their pack's name
+  categories: PackCategory[];
+  conflicts: PackConflict[]; // Topics skipped because their symbol was already taken
+}
+
+// Enabled packs in install order. Earlier entries win: a topic whose symbol is
+// already on the table (`taken`, then earlier packs) is skipped and reported,
+// and a category name keeps the first pack's definition.
+export const mergePacks = (installed: InstalledPack[], taken: string[]): MergedPacks => {
+  const symbols = new Set(taken.map(s => s.toLowerCase()));
+  const merged: MergedPacks = { topics: [], categories: [], conflicts: [] };
+
+  [...installed].sort((a, b) => a.installedAt - b.installedAt).filter(p => p.enabled).forEach(({ pack }) => {
+    (pack.categories || []).forEach(category => {
+      if (!merged.categories.some(c => c.name === category.name)) merged.categories.push(category);
+    });
+    pack.topics.forEach(topic => {
+      const key = topic.symbol.toLowerCase();
+      if (symbols.has(key)) {
+        merged.conflicts.push({ pack: pack.name, symbol: topic.symbol });
+        return;
+      }
+      symbols.add(key);
+      merged.topics.push({ ...topic, pack: pack.name });
+    });
+  });
+  return merged;
+};
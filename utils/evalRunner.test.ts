@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EvalCase, EvalCheck } from '../types';
+import { JSONRequest, LLMProvider, MODEL_REGISTRY, ModelRoute } from './llm';
+import { EvalRubricData } from './outputGenerators';
+import { isCasePassing, isValidJudgeThreshold, runEvalCase } from './evalRunner';
+
+const LEVELS = [1, 2, 3, 4].map(score => ({ score, descriptor: `Level ${score}` }));
+const RUBRIC: EvalRubricData = {
+  title: 'Answers',
+  criteria: [
+    { name: 'Accuracy', description: 'Facts are right', weight: 60, levels: LEVELS },
+    { name: 'Clarity', description: 'Easy to follow', weight: 40, levels: LEVELS },
+  ],
+  passing_score: 3,
+};
+
+// A route whose chat always replies `output` and whose generateJSON plays the judge
+const fakeRoute = (output: string, judge: (request: JSONRequest) => Promise<string> = async () => '{"scores": []}') => {
+  const generateJSON = vi.fn(async (request: JSONRequest) => ({ text: await judge(request) }));
+  const provider = {
+    id: 'openai',
+    createChat: () => ({ sendMessage: async () => ({ text: output }) }),
+    generateJSON,
+  } as unknown as LLMProvider;
+  return { route: { model: MODEL_REGISTRY[0], provider } as ModelRoute, generateJSON };
+};
+
+const judgeReply = (...scores: [string, number][]) => async () =>
+  JSON.stringify({ scores: scores.map(([criterion, score]) => ({ criterion, score, reason: 'Because.' })) });
+
+const caseWith = (...checks: Omit<EvalCheck, 'id'>[]): EvalCase =>
+  ({ id: 'case', name: 'Case', input: 'What is 2 + 2?', checks: checks.map((c, i) => ({ id: `check-${i}`, ...c })) });
+
+const run = async (output: string, check: Omit<EvalCheck, 'id'>, judge?: (request: JSONRequest) => Promise<string>) => {
+  const result = await runEvalCase(fakeRoute(output, judge).route, 'You are a calculator.', caseWith(check), RUBRIC);
+  return result.checks[0];
+};
+
+describe('runEvalCase', () => {
+  it('records the reply and passes when every check passes', async () => {
+    const result = await runEvalCase(fakeRoute('The answer is 4.').route, 'Prompt', caseWith(
+      { kind: 'contains', value: 'ANSWER' },
+      { kind: 'regex', value: '\\b4\\b' },
+    ), null);
+    expect(result).toMatchObject({ caseId: 'case', status: 'done', output: 'The answer is 4.' });
+    expect(isCasePassing(result)).toBe(true);
+  });
+
+  it('explains failed contains and regex checks, and rejects bad patterns', async () => {
+    expect(await run('Five', { kind: 'contains', value: 'four' })).toEqual({ checkId: 'check-0', pass: false, detail: 'Missing "four".' });
+    expect((await run('Five', { kind: 'regex', value: '^4$' })).detail).toBe('No match for /^4$/.');
+    expect((await run('Five', { kind: 'regex', value: '(' })).detail).toBe('Invalid pattern /(/.');
+  });
+
+  it('validates fenced JSON replies against the check schema', async () => {
+    const schema = JSON.stringify({ type: 'object', required: ['answer'] });
+    expect((await run('```json\n{"answer": 4}\n```', { kind: 'jsonSchema', value: schema })).pass).toBe(true);
+    expect((await run('{}', { kind: 'jsonSchema', value: schema })).detail).toBe('$.answer: is required');
+    expect((await run('four', { kind: 'jsonSchema', value: schema })).detail).toBe('Response is not valid JSON.');
+    expect((await run('{}', { kind: 'jsonSchema', value: '{nope' })).detail).toBe('Check schema is not valid JSON.');
+  });
+});
+
+describe('judge checks', () => {
+  it('weights the scores by criterion and compares them with the rubric passing score', async () => {
+    const result = await run('4', { kind: 'judge', value: '' }, judgeReply(['Accuracy', 4], ['clarity', 2]));
+    expect(result).toEqual({ checkId: 'check-0', pass: true, score: 3.2, detail: 'Accuracy: 4 — Because.\nclarity: 2 — Because.' });
+  });
+
+  it('uses the check threshold when one is set', async () => {
+    const result = await run('4', { kind: 'judge', value: '3.5' }, judgeReply(['Accuracy', 4], ['Clarity', 2]));
+    expect(result).toMatchObject({ pass: false, score: 3.2 });
+  });
+
+  it('scores criteria the judge skipped at the lowest level', async () => {
+    expect(await run('4', { kind: 'judge', value: '' }, judgeReply(['Accuracy', 4]))).toMatchObject({ pass: false, score: 2.8 });
+  });
+
+  it('sends the rubric, input and reply to the judge', async () => {
+    const { route, generateJSON } = fakeRoute('4', judgeReply());
+    await runEvalCase(route, 'Prompt', caseWith({ kind: 'judge', value: '' }), RUBRIC);
+    const request = generateJSON.mock.calls[0][0];
+    expect(request.temperature).toBe(0);
+    expect(request.prompt).toContain('- Accuracy (60%): Facts are right\n    1: Level 1');
+    expect(request.prompt).toContain('Input:\nWhat is 2 + 2?\n\nResponse:\n4');
+  });
+
+  it('fails without calling the judge when there is no rubric or the threshold is invalid', async () => {
+    const { route, generateJSON } = fakeRoute('4');
+    const noRubric = await runEvalCase(route, 'Prompt', caseWith({ kind: 'judge', value: '' }), null);
+    expect(noRubric.checks[0].detail).toBe('No Eval Rubric in this session. Generate one with the Eval Rubric output type.');
+    expect((await run('4', { kind: 'judge', value: 'high' })).detail).toBe('Invalid threshold "high": enter a number or leave it blank.');
+    expect(generateJSON).not.toHaveBeenCalled();
+  });
+
+  it('reports malformed scores and judge failures as failed checks', async () => {
+    expect((await run('4', { kind: 'judge', value: '' }, async () => '{"scores": [{"criterion": "Accuracy"}]}')).detail)
+      .toBe('Judge returned malformed scores: $.scores[0].score: is required');
+    expect((await run('4', { kind: 'judge', value: '' }, async () => { throw new Error('Offline'); })).detail).toBe('Judge failed: Offline');
+  });
+
+  it('rethrows judge failures once the run is cancelled', async () => {
+    const controller = new AbortController();
+    const judge = async () => {
+      controller.abort();
+      throw new Error('Aborted');
+    };
+    const evalCase = caseWith({ kind: 'judge', value: '' });
+    await expect(runEvalCase(fakeRoute('4', judge).route, 'Prompt', evalCase, RUBRIC, { signal: controller.signal })).rejects.toThrow('Aborted');
+  });
+});
+
+describe('isValidJudgeThreshold', () => {
+  it('accepts blanks and numbers only', () => {
+    expect(['', '  ', '3', '2.5'].every(isValidJudgeThreshold)).toBe(true);
+    expect(isValidJudgeThreshold('three')).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { EvalCase, EvalCaseResult, EvalCheck, EvalCheckKind, EvalCheckResult, EvalSuite } from '../types';
+import { JSONSchema, ModelRoute, RequestOptions, stripFences } from './llm';
+import { EvalRubricData, rubricScores } from './outputGenerators';
+import { validateSchema } from './jsonSchema';
+
+// Runs a prompt under test against a suite of cases: the prompt is the system
+// instruction, each case input is a fresh single-turn conversation, and every
+// check on the case is scored against the model's reply.
+
+export const EMPTY_EVAL_SUITE: EvalSuite = { cases: [], runs: [] };
+
+export const EVAL_CHECK_LABELS: Record<EvalCheckKind, string> = {
+  contains: 'Contains',
+  regex: 'Regex',
+  jsonSchema: 'JSON Schema',
+  judge: 'LLM Judge',
+};
+
+export const createEvalId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// --- JUDGE ---
+
+// A blank threshold falls back to the rubric's passing score
+export const isValidJudgeThreshold = (value: string) => !value.trim() || Number.isFinite(Number(value));
+
+const JUDGE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string' },
+          score: { type: 'number' },
+          reason: { type: 'string' },
+        },
+        required: ['criterion', 'score', 'reason'],
+      },
+    },
+  },
+  required: ['scores'],
+};
+
+interface JudgeScore {
+  criterion: string;
+  score: number;
+  reason: string;
+}
+
+const judge = async (
+  check: EvalCheck, input: string, output: string, rubric: EvalRubricData | null, route: ModelRoute, options?: RequestOptions
+): Promise<EvalCheckResult> => {
+  if (!rubric) return { checkId: check.id, pass: false, detail: "No Eval Rubric in this session. Generate one with the Eval Rubric output type." };
+  if (!isValidJudgeThreshold(check.value)) {
+    return { checkId: check.id, pass: false, detail: `Invalid threshold "${check.value}": enter a number or leave it blank.` };
+  }
+
+  const criteria = rubric.criteria.map(c =>
+    `- ${c.name} (${c.weight}%): ${c.description}\n${c.levels.map(l => `    ${l.score}: ${l.descriptor}`).join('\n')}`
+  ).join('\n');
+  const result = await route.provider.generateJSON({
+    model: route.model.modelId,
+    systemInstruction: "You are a strict evaluator. Score the response against every rubric criterion using only the listed score levels.",
+    prompt: `Rubric: ${rubric.title}\n${criteria}\n\nInput:\n${input}\n\nResponse:\n${output}`,
+    schema: JUDGE_SCHEMA,
+    temperature: 0,
+  }, options);
+
+  const parsed = JSON.parse(stripFences(result.text));
+  const schemaErrors = validateSchema(JUDGE_SCHEMA, parsed);
+  if (schemaErrors.length) return { checkId: check.id, pass: false, detail: `Judge returned malformed scores: ${schemaErrors[0]}` };
+
+  // Criteria the judge skipped count as the lowest level
+  const scale = rubricScores(rubric);
+  const scores = (parsed.scores as JudgeScore[]);
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0) || 1;
+  const weighted = rubric.criteria.reduce((sum, c) => {
+    const given = scores.find(s => s.criterion.toLowerCase() === c.name.toLowerCase());
+    return sum + c.weight * (given ? given.score : scale[0] || 0);
+  }, 0) / totalWeight;
+
+  const threshold = check.value.trim() ? Number(check.value) : rubric.passing_score;
+  const score = Math.round(weighted * 100) / 100;
+  return {
+    checkId: check.id,
+    pass: score >= threshold,
+    score,
+    detail: scores.map(s => `${s.criterion}: ${s.score} — ${s.reason}`).join('\n'),
+  };
+};
+
+// --- CHECKS ---
+
+const runCheck = async (
+  check: EvalCheck, evalCase: EvalCase, output: string, rubric: EvalRubricData | null, route: ModelRoute, options?: RequestOptions
+): Promise<EvalCheckResult> => {
+  switch (check.kind) {
+    case 'contains': {
+      const pass = output.toLowerCase().includes(check.value.toLowerCase());
+      return { checkId: check.id, pass, detail: pass ? undefined : `Missing "${check.value}".` };
+    }
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(check.value, 'i');
+      } catch {
+        return { checkId: check.id, pass: false, detail: `Invalid pattern /${check.value}/.` };
+      }
+      const pass = pattern.test(output);
+      return { checkId: check.id, pass, detail: pass ? undefined : `No match for /${check.value}/.` };
+    }
+    case 'jsonSchema': {
+      let schema: JSONSchema;
+      try {
+        schema = JSON.parse(check.value);
+      } catch {
+        return { checkId: check.id, pass: false, detail: "Check schema is not valid JSON." };
+      }
+      let data: unknown;
+      try {
+        data = JSON.parse(stripFences(output));
+      } catch {
+        return { checkId: check.id, pass: false, detail: "Response is not valid JSON." };
+      }
+      const errors = validateSchema(schema, data);
+      return { checkId: check.id, pass: errors.length === 0, detail: errors.join('\n') || undefined };
+    }
+    case 'judge':
+      try {
+        return await judge(check, evalCase.input, output, rubric, route, options);
+      } catch (e: any) {
+        if (options?.signal?.aborted) throw e;
+        return { checkId: check.id, pass: false, detail: `Judge failed: ${e?.message || 'request error'}` };
+      }
+  }
+};
+
+export const runEvalCase = async (
+  route: ModelRoute, prompt: string, evalCase: EvalCase, rubric: EvalRubricData | null, options?: RequestOptions
+): Promise<EvalCaseResult> => {
+  const started = performance.now();
+  const chat = route.provider.createChat({ model: route.model.modelId, systemInstruction: prompt });
+  const response = await chat.sendMessage({ text: evalCase.input }, options);
+  const latencyMs = performance.now() - started;
+
+  const checks = await Promise.all(evalCase.checks.map(check => runCheck(check, evalCase, response.text, rubric, route, options)));
+  return { caseId: evalCase.id, status: 'done', output: response.text, latencyMs, checks };
+};
+
+export const passedChecks = (result: EvalCaseResult) => result.checks.filter(c => c.pass).length;
+
+export const isCasePassing = (result: EvalCaseResult) =>
+  result.status === 'done' && result.checks.every(c => c.pass);
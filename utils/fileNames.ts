@@ -0,0 +1,4 @@
+// Turns a display name into a file-name-safe slug: "My Pack v2!" -> "my-pack-v2".
+// `fallback` stands in when nothing usable is left, e.g. for a name in emoji only.
+export const slugify = (text: string, fallback: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
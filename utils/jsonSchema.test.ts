@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { validateSchema } from './jsonSchema';
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    const schema = {
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['name'],
+    };
+    expect(validateSchema(schema, { name: 'x', tags: ['a'] })).toEqual([]);
+  });
+
+  it('reports type mismatches with their path and stops there', () => {
+    expect(validateSchema({ type: 'string', minLength: 3 }, 5)).toEqual(['$: expected string, got integer']);
+    expect(validateSchema({ type: 'object' }, null)).toEqual(['$: expected object, got null']);
+    expect(validateSchema({ type: 'object' }, [])).toEqual(['$: expected object, got array']);
+  });
+
+  it('treats integers as numbers but not the reverse', () => {
+    expect(validateSchema({ type: 'number' }, 2)).toEqual([]);
+    expect(validateSchema({ type: 'integer' }, 2.5)).toEqual(['$: expected integer, got number']);
+  });
+
+  it('accepts any of a list of types', () => {
+    expect(validateSchema({ type: ['string', 'null'] }, null)).toEqual([]);
+  });
+
+  it('checks enums, numeric bounds and string lengths', () => {
+    expect(validateSchema({ enum: ['a', 'b'] }, 'c')).toEqual(['$: must be one of "a", "b"']);
+    expect(validateSchema({ type: 'number', minimum: 1, maximum: 3 }, 0)).toEqual(['$: must be >= 1']);
+    expect(validateSchema({ type: 'number', minimum: 1, maximum: 3 }, 4)).toEqual(['$: must be <= 3']);
+    expect(validateSchema({ type: 'string', maxLength: 2 }, 'abc')).toEqual(['$: must be at most 2 characters']);
+  });
+
+  it('checks array bounds and every item', () => {
+    const schema = { type: 'array', minItems: 1, maxItems: 2, items: { type: 'string' } };
+    expect(validateSchema(schema, [])).toEqual(['$: needs at least 1 items']);
+    expect(validateSchema(schema, ['a', 1, 'c'])).toEqual(['$: allows at most 2 items', '$[1]: expected string, got integer']);
+  });
+
+  it('reports nested paths, missing keys and disallowed extras', () => {
+    const schema = {
+      type: 'object',
+      properties: { step: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
+      required: ['step'],
+      additionalProperties: false,
+    };
+    expect(validateSchema(schema, { extra: 1 })).toEqual(['$.step: is required', '$.extra: is not allowed']);
+    expect(validateSchema(schema, { step: { id: 1 } })).toEqual(['$.step.id: expected string, got integer']);
+  });
+
+  it('does not count inherited properties as present', () => {
+    expect(validateSchema({ type: 'object', required: ['toString'] }, {})).toEqual(['$.toString: is required']);
+  });
+});
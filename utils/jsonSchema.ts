@@ -0,0 +1,60 @@
+import { JSONSchema } from './llm';
+
+// Checks a parsed value against the subset of JSON Schema the app writes itself:
+// type, enum, properties, required, additionalProperties, items and the basic
+// numeric / length bounds. Errors are reported with a JSONPath-like location.
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (expected: string, value: unknown) => {
+  const actual = typeOf(value);
+  return actual === expected || (expected === 'number' && actual === 'integer');
+};
+
+export const validateSchema = (schema: JSONSchema, value: unknown, path = '$'): string[] => {
+  const types = schema.type === undefined ? [] : ([] as string[]).concat(schema.type as string | string[]);
+  if (types.length > 0 && !types.some(t => matchesType(t, value))) {
+    return [`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${path}: needs at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${path}: allows at most ${schema.maxItems} items`);
+    const items = schema.items as JSONSchema | undefined;
+    if (items) value.forEach((item, i) => errors.push(...validateSchema(items, item, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties || {}) as Record<string, JSONSchema>;
+    ((schema.required || []) as string[]).forEach(key => {
+      if (!Object.hasOwn(record, key)) errors.push(`${path}.${key}: is required`);
+    });
+    Object.entries(record).forEach(([key, child]) => {
+      if (properties[key]) errors.push(...validateSchema(properties[key], child, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key}: is not allowed`);
+    });
+  }
+
+  return errors;
+};
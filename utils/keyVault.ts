@@ -0,0 +1,107 @@
+import { CredentialMap } from './llm';
+import { RecordStore } from './db';
+
+// Provider keys encrypted at rest with a user passphrase: PBKDF2-SHA256 derives
+// an AES-GCM key, and only salt, IV and ciphertext are written to IndexedDB.
+// The derived key is non-extractable and kept in memory until the vault is locked.
+
+const VAULT_ID = 'provider-keys';
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultRecord {
+  id: typeof VAULT_ID;
+  salt: string; // base64
+  iv: string; // base64, fresh for every write
+  ciphertext: string; // base64 AES-GCM of the JSON CredentialMap
+  updatedAt: number;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export class KeyVault {
+  private store = new RecordStore<VaultRecord>('settings');
+  private session: { key: CryptoKey; salt: Uint8Array } | null = null;
+
+  public get isUnlocked() {
+    return this.session !== null;
+  }
+
+  public async exists(): Promise<boolean> {
+    return !!(await this.store.get(VAULT_ID));
+  }
+
+  // Starts an empty vault protected by `passphrase`, replacing any existing one
+  public async create(passphrase: string): Promise<void> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new VaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    this.session = { key: await deriveKey(passphrase, salt), salt };
+    await this.save({});
+  }
+
+  public async unlock(passphrase: string): Promise<CredentialMap> {
+    const record = await this.store.get(VAULT_ID);
+    if (!record) throw new VaultError("No saved keys. Create a vault first.");
+
+    const salt = fromBase64(record.salt);
+    const key = await deriveKey(passphrase, salt);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext));
+    } catch {
+      // GCM authentication fails for a wrong passphrase
+      throw new VaultError("Wrong passphrase.");
+    }
+    this.session = { key, salt };
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+
+  public async save(credentials: CredentialMap): Promise<void> {
+    if (!this.session) throw new VaultError("Vault is locked.");
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.session.key,
+      new TextEncoder().encode(JSON.stringify(credentials))
+    );
+    await this.store.save({
+      id: VAULT_ID,
+      salt: toBase64(this.session.salt),
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+      updatedAt: Date.now(),
+    });
+  }
+
+  public lock() {
+    this.session = null;
+  }
+
+  public async destroy(): Promise<void> {
+    this.session = null;
+    await this.store.remove(VAULT_ID);
+  }
+}
+
+export const keyVault = new KeyVault();
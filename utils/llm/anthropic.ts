@@ -0,0 +1,145 @@
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, LLMChat, LLMError, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, RequestOptions, TokenUsage
+} from './types';
+import { blockedError, ensureOk, parseDataUrl, readSSE, stripFences } from './shared';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+const toMessage = (turn: ChatTurn | (MessageInput & { role: 'user' })) => {
+  const role = turn.role === 'model' ? 'assistant' : 'user';
+  if (!turn.image) return { role, content: turn.text };
+  const { mimeType, data } = parseDataUrl(turn.image);
+  return {
+    role,
+    content: [
+      { type: 'image', source: { type: 'base64', media_type: mimeType, data } },
+      { type: 'text', text: turn.text },
+    ]
+  };
+};
+
+const toUsage = (usage: any): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  return { inputTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 };
+};
+
+const extractText = (body: any): string =>
+  (body.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+
+class AnthropicChat implements LLMChat {
+  public readonly history: ChatTurn[];
+
+  constructor(private provider: AnthropicProvider, private options: ChatOptions) {
+    this.history = [...(options.history || [])];
+  }
+
+  private buildBody(message: MessageInput) {
+    return {
+      model: this.options.model,
+      max_tokens: DEFAULT_MAX_TOKENS,
+      temperature: this.options.temperature,
+      system: this.options.systemInstruction,
+      messages: [...this.history.map(toMessage), toMessage({ role: 'user', ...message })],
+    };
+  }
+
+  async sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    const body = await this.provider.request(this.buildBody(message), options?.signal).then(res => res.json());
+    const text = extractText(body);
+    if (!text && body.stop_reason === 'refusal') throw blockedError(this.provider.id, 'refusal');
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+    return { text, usage: toUsage(body.usage) };
+  }
+
+  async *sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.provider.request({ ...this.buildBody(message), stream: true }, options?.signal);
+
+    let text = '';
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const event of readSSE(response)) {
+      switch (event.type) {
+        case 'message_start':
+          usage.inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            text += event.delta.text;
+            yield { text: event.delta.text };
+          }
+          break;
+        case 'message_delta':
+          if (!text && event.delta?.stop_reason === 'refusal') throw blockedError(this.provider.id, 'refusal');
+          usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+          yield { text: '', usage: { ...usage } };
+          break;
+        case 'error':
+          throw new LLMError(event.error?.message || "Stream error", this.provider.id);
+      }
+    }
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  public readonly id = 'anthropic' as const;
+
+  constructor(private apiKey: string) {}
+
+  private get headers() {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      // Required for calls made straight from the browser.
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  async request(body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${ANTHROPIC_BASE_URL}/messages`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    await ensureOk(response, this.id);
+    return response;
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new AnthropicChat(this, options);
+  }
+
+  // The Messages API has no JSON mode, so the output (and schema) is constrained
+  // through the system prompt and any stray code fence is stripped.
+  async generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    const system = [
+      request.systemInstruction,
+      "Respond with valid JSON only. No prose, no code fences.",
+      request.schema ? `The JSON must match this schema:\n${JSON.stringify(request.schema)}` : '',
+    ];
+    const body = await this.request({
+      model: request.model,
+      max_tokens: DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      system: system.filter(Boolean).join('\n'),
+      messages: [{ role: 'user', content: request.prompt }],
+    }, options?.signal).then(res => res.json());
+
+    if (body.stop_reason === 'refusal' && !extractText(body)) throw blockedError(this.id, 'refusal');
+    const text = stripFences(extractText(body));
+    return { text, usage: toUsage(body.usage) };
+  }
+
+  async testConnection(options?: RequestOptions): Promise<void> {
+    const response = await fetch(`${ANTHROPIC_BASE_URL}/models?limit=1`, { headers: this.headers, signal: options?.signal });
+    await ensureOk(response, this.id);
+  }
+
+  async generateImage(_request: ImageRequest): Promise<string | null> {
+    throw new LLMError("Anthropic models do not support image generation.", this.id);
+  }
+}
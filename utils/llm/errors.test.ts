@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, errorSummary, RequestError } from './errors';
+import { LLMError } from './types';
+
+describe('classifyError', () => {
+  it('sorts vendor statuses into kinds', () => {
+    expect(classifyError(new LLMError('x', 'openai', 401)).kind).toBe('auth');
+    expect(classifyError(new LLMError('x', 'openai', 429)).kind).toBe('rateLimit');
+    expect(classifyError(new LLMError('insufficient_quota', 'openai', 429)).kind).toBe('quota');
+    expect(classifyError(new LLMError('x', 'openai', 504)).kind).toBe('timeout');
+    expect(classifyError(new LLMError('x', 'openai', 502)).kind).toBe('server');
+    expect(classifyError(new LLMError('bad field', 'openai', 400)).kind).toBe('invalid');
+    expect(classifyError(new LLMError('x', 'openai', undefined, { blocked: true })).kind).toBe('safety');
+  });
+
+  it('recognises errors without a status by their message', () => {
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key.')).kind).toBe('auth');
+    expect(classifyError(new TypeError('Failed to fetch'))).toMatchObject({ kind: 'network', retryable: true });
+    expect(classifyError(new Error('something odd'))).toMatchObject({ kind: 'unknown', retryable: false });
+  });
+
+  it('prefers the Retry-After header and falls back to a hint in the message', () => {
+    expect(classifyError(new LLMError('x', 'gemini', 429, { retryAfterMs: 2000 })).retryAfterMs).toBe(2000);
+    expect(classifyError(new LLMError('{"retryDelay":"37s"}', 'gemini', 429)).retryAfterMs).toBe(37_000);
+  });
+});
+
+describe('errorSummary', () => {
+  it('labels the kind before the message', () => {
+    const error = new RequestError('Gemini rejected the API key.', classifyError(new LLMError('x', 'gemini', 401)), 1);
+    expect(errorSummary(error)).toBe('AUTH FAILED: Gemini rejected the API key.');
+  });
+
+  it('classifies errors that did not go through the executor and falls back on an empty message', () => {
+    expect(errorSummary(new TypeError('Failed to fetch'))).toBe('NETWORK ERROR: Failed to fetch');
+    expect(errorSummary(new Error(''), 'Image generation failed.')).toBe('ERROR: Image generation failed.');
+  });
+});
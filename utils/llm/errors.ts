@@ -0,0 +1,117 @@
+import { LLMError } from './types';
+
+// Sorts whatever an adapter threw (LLMError, SDK errors, fetch failures) into
+// the few cases the UI can explain and the executor knows how to handle.
+
+export type ErrorKind = 'auth' | 'quota' | 'rateLimit' | 'safety' | 'network' | 'timeout' | 'server' | 'invalid' | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+  detail: string; // The underlying message, for logs and the `invalid` / `unknown` cases
+}
+
+const RETRYABLE: Record<ErrorKind, boolean> = {
+  auth: false,
+  quota: false,
+  rateLimit: true,
+  safety: false,
+  network: true,
+  timeout: true,
+  server: true,
+  invalid: false,
+  unknown: false,
+};
+
+const AUTH_PATTERN = /api key not valid|invalid api key|invalid x-api-key|incorrect api key|unauthori[sz]ed|permission denied/i;
+// 429s that will not clear by waiting; plain per-minute limits are retried
+const QUOTA_PATTERN = /insufficient_quota|billing|credit balance|out of credits|payment required/i;
+const SAFETY_PATTERN = /safety|content policy|content_filter|responsible ai/i;
+const NETWORK_PATTERN = /failed to fetch|networkerror|network request failed|load failed|econnrefused|econnreset|enotfound|fetch failed/i;
+
+// Gemini reports its backoff hint in the message body, e.g. "retryDelay":"37s"
+const retryHint = (message: string): number | undefined => {
+  const match = /retry(?:Delay)?["'\s:]*(?:in\s+)?"?(\d+(?:\.\d+)?)s/i.exec(message);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const kindOf = (status: number | undefined, message: string, blocked: boolean): ErrorKind => {
+  if (blocked) return 'safety';
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return 'auth';
+  if (status === 402 || (status === 429 && QUOTA_PATTERN.test(message))) return 'quota';
+  if (status === 429) return 'rateLimit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) return SAFETY_PATTERN.test(message) ? 'safety' : 'invalid';
+  if (NETWORK_PATTERN.test(message) || (typeof navigator !== 'undefined' && navigator.onLine === false)) return 'network';
+  return 'unknown';
+};
+
+export const classifyError = (e: unknown): ClassifiedError => {
+  const error = e as any;
+  const detail: string = error?.message || String(e);
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  const details = e instanceof LLMError ? e.details : {};
+  const kind = kindOf(status, detail, !!details.blocked);
+  return {
+    kind,
+    retryable: RETRYABLE[kind],
+    status,
+    retryAfterMs: details.retryAfterMs ?? retryHint(detail),
+    detail,
+  };
+};
+
+const KIND_LABELS: Record<ErrorKind, string> = {
+  auth: 'AUTH FAILED',
+  quota: 'QUOTA EXCEEDED',
+  rateLimit: 'RATE LIMITED',
+  safety: 'BLOCKED',
+  network: 'NETWORK ERROR',
+  timeout: 'TIMED OUT',
+  server: 'PROVIDER ERROR',
+  invalid: 'REQUEST REJECTED',
+  unknown: 'ERROR',
+};
+
+export const errorKindLabel = (kind: ErrorKind) => KIND_LABELS[kind];
+
+// One sentence saying what went wrong and what the user can do about it
+export const describeError = (error: ClassifiedError, providerLabel: string): string => {
+  switch (error.kind) {
+    case 'auth': return `${providerLabel} rejected the API key. Check it under Keys.`;
+    case 'quota': return `${providerLabel} reports the account is out of quota or credit. Check billing, or switch the target model.`;
+    case 'rateLimit': return `${providerLabel} is rate limiting requests. Wait a moment, then retry.`;
+    case 'safety': return `${providerLabel} blocked this content on safety grounds. Rephrase the request and retry.`;
+    case 'network': return `Could not reach ${providerLabel}. Check your connection or the proxy, then retry.`;
+    case 'timeout': return `${providerLabel} did not respond in time.`;
+    case 'server': return `${providerLabel} had a server error${error.status ? ` (${error.status})` : ''}.`;
+    case 'invalid': return `${providerLabel} rejected the request: ${error.detail}`;
+    default: return error.detail;
+  }
+};
+
+// Thrown by the request executor once a call has failed for good
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    public readonly error: ClassifiedError,
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+
+  get kind(): ErrorKind {
+    return this.error.kind;
+  }
+}
+
+// Error line for the UI: what kind of failure, then the readable message.
+// Errors that bypassed the executor are classified here.
+export const errorSummary = (e: unknown, fallback = 'Request failed.'): string => {
+  const kind = e instanceof RequestError ? e.kind : classifyError(e).kind;
+  return `${errorKindLabel(kind)}: ${(e as Error | undefined)?.message || fallback}`;
+};
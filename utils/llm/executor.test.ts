@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RequestExecutor, RetryPolicy } from './executor';
+import { RequestError } from './errors';
+import { LLMError } from './types';
+
+// Model ids outside the registry get the default cap of 20 requests a minute
+const MODEL = 'test-model';
+const FAST: RetryPolicy = { retries: 2, baseDelayMs: 1, maxDelayMs: 1000, timeoutMs: 50 };
+
+const vendorError = (status: number, message = `failed (${status})`) => new LLMError(message, 'openai', status);
+
+// The RequestError a call ends with; resolving is a test failure
+const failure = (call: Promise<unknown>): Promise<RequestError> =>
+  call.then(() => { throw new Error('Expected the call to fail.'); }, e => e);
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+  const chunks: T[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('RequestExecutor.run', () => {
+  it('retries retryable failures until one succeeds', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const task = vi.fn()
+      .mockRejectedValueOnce(vendorError(503))
+      .mockRejectedValueOnce(vendorError(429))
+      .mockResolvedValueOnce('ok');
+    await expect(new RequestExecutor(FAST).run(MODEL, 'Test', task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails at once on errors that waiting will not fix', async () => {
+    const task = vi.fn().mockRejectedValue(vendorError(401));
+    const error = await failure(new RequestExecutor(FAST).run(MODEL, 'Test', task));
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error.kind).toBe('auth');
+    expect(error.message).toBe('Test rejected the API key. Check it under Keys.');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured retries and says how many attempts it made', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const task = vi.fn().mockRejectedValue(vendorError(500));
+    const error = await failure(new RequestExecutor(FAST).run(MODEL, 'Test', task));
+    expect(error.kind).toBe('server');
+    expect(error.attempts).toBe(3);
+    expect(error.message).toBe('Test had a server error (500). (Failed after 3 attempts.)');
+  });
+
+  it('does not wait out a backoff hint longer than maxDelayMs', async () => {
+    const task = vi.fn().mockRejectedValue(new LLMError('slow down', 'openai', 429, { retryAfterMs: 5000 }));
+    const error = await failure(new RequestExecutor(FAST).run(MODEL, 'Test', task));
+    expect(error.kind).toBe('rateLimit');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a task that ignores its signal', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const task = vi.fn(() => new Promise(() => {}));
+    const error = await failure(new RequestExecutor({ ...FAST, retries: 0 }).run(MODEL, 'Test', task));
+    expect(error.kind).toBe('timeout');
+  });
+
+  it('rethrows the original error once the caller aborts, without retrying', async () => {
+    const controller = new AbortController();
+    const original = vendorError(503);
+    const task = vi.fn(async () => {
+      controller.abort();
+      throw original;
+    });
+    await expect(new RequestExecutor(FAST).run(MODEL, 'Test', task, controller.signal)).rejects.toBe(original);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds calls past the per-minute cap until the window moves on', async () => {
+    vi.useFakeTimers();
+    const executor = new RequestExecutor(FAST);
+    const task = vi.fn(async () => 'ok');
+    const calls = Array.from({ length: 21 }, () => executor.run(MODEL, 'Test', task));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(20);
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(task).toHaveBeenCalledTimes(20);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(task).toHaveBeenCalledTimes(21);
+    await Promise.all(calls);
+  });
+});
+
+describe('RequestExecutor.stream', () => {
+  it('retries a stream that fails before its first chunk', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let calls = 0;
+    const task = async function* () {
+      if (calls++ === 0) throw vendorError(503);
+      yield 'a';
+      yield 'b';
+    };
+    await expect(collect(new RequestExecutor(FAST).stream(MODEL, 'Test', task))).resolves.toEqual(['a', 'b']);
+    expect(calls).toBe(2);
+  });
+
+  it('does not retry once text has been yielded', async () => {
+    let calls = 0;
+    const task = async function* () {
+      calls++;
+      yield 'a';
+      throw vendorError(503);
+    };
+    const chunks: string[] = [];
+    const error = await failure((async () => {
+      for await (const chunk of new RequestExecutor(FAST).stream(MODEL, 'Test', task)) chunks.push(chunk);
+    })());
+    expect(chunks).toEqual(['a']);
+    expect(error.kind).toBe('server');
+    expect(calls).toBe(1);
+  });
+
+  it('times out a stream that stalls and ignores its signal', async () => {
+    const task = async function* () {
+      yield 'a';
+      await new Promise(() => {});
+    };
+    const error = await failure(collect(new RequestExecutor({ ...FAST, retries: 0 }).stream(MODEL, 'Test', task)));
+    expect(error.kind).toBe('timeout');
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, LLMChat, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, RequestOptions
+} from './types';
+import { getModelInfoById } from './models';
+import { ClassifiedError, classifyError, describeError, RequestError } from './errors';
+import { sleep } from './shared';
+
+// Every provider call in the app goes through one RequestExecutor: calls wait
+// for a slot under the model's requests-per-minute cap, each attempt gets a
+// timeout, and retryable failures are retried with exponential backoff and
+// jitter. What still fails surfaces as a RequestError with a readable message.
+
+export interface RetryPolicy {
+  retries: number; // Extra attempts after the first, for retryable errors only
+  baseDelayMs: number; // Backoff before the first retry; doubles on each one after
+  maxDelayMs: number; // Longer vendor backoff hints give up instead of waiting
+  timeoutMs: number; // Without a response, or for streams without a new chunk
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, baseDelayMs: 1000, maxDelayMs: 60_000, timeoutMs: 90_000 };
+
+// For model ids outside the registry, e.g. the image models
+const DEFAULT_REQUESTS_PER_MINUTE = 20;
+const WINDOW_MS = 60_000;
+
+// Rejects once `signal` aborts, so a call that ignores its signal still times out
+const whenAborted = (signal: AbortSignal): Promise<never> =>
+  new Promise((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    else signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+
+// Sliding one-minute window per model. Calls over the cap wait their turn
+// instead of failing, and a 429 pauses the model for everyone.
+class ModelQueue {
+  private starts: number[] = [];
+  private pausedUntil = 0;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private requestsPerMinute: number) {}
+
+  // Slots are handed out in call order
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.tail.then(() => this.waitForSlot(signal));
+    this.tail = turn.catch(() => {});
+    return turn;
+  }
+
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForSlot(signal?: AbortSignal) {
+    while (true) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      this.starts = this.starts.filter(t => now - t < WINDOW_MS);
+      const full = this.starts.length >= this.requestsPerMinute;
+      const wait = Math.max(this.pausedUntil - now, full ? this.starts[0] + WINDOW_MS - now : 0);
+      if (wait <= 0) {
+        this.starts.push(now);
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  }
+}
+
+// The caller's signal plus a per-attempt timeout; `touch` restarts the clock
+class Attempt {
+  private controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  public timedOut = false;
+  // Raced against the task and each stream read, so adapters that ignore the signal still time out
+  public readonly expired: Promise<never>;
+
+  constructor(private timeoutMs: number, private outer?: AbortSignal) {
+    if (outer?.aborted) this.controller.abort(outer.reason);
+    outer?.addEventListener('abort', this.onAbort, { once: true });
+    this.expired = whenAborted(this.controller.signal);
+    this.expired.catch(() => {});
+    this.touch();
+  }
+
+  get signal() {
+    return this.controller.signal;
+  }
+
+  private onAbort = () => this.controller.abort(this.outer!.reason);
+
+  touch() {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort(new DOMException('Request timed out.', 'TimeoutError'));
+    }, this.timeoutMs);
+  }
+
+  dispose() {
+    clearTimeout(this.timer);
+    this.outer?.removeEventListener('abort', this.onAbort);
+  }
+}
+
+export class RequestExecutor {
+  private queues = new Map<string, ModelQueue>();
+
+  constructor(private policy: RetryPolicy = DEFAULT_RETRY_POLICY) {}
+
+  private queueFor(model: string) {
+    let queue = this.queues.get(model);
+    if (!queue) {
+      queue = new ModelQueue(getModelInfoById(model)?.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE);
+      this.queues.set(model, queue);
+    }
+    return queue;
+  }
+
+  private backoff(attempt: number, retryAfterMs?: number) {
+    const exponential = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (attempt - 1));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    return Math.max(jittered, retryAfterMs ?? 0);
+  }
+
+  // Returns how long to wait before the next attempt, or throws. Caller aborts
+  // rethrow the original error so existing `signal.aborted` checks still apply.
+  private settle(e: unknown, attempt: Attempt, count: number, queue: ModelQueue, label: string, canRetry: boolean, outer?: AbortSignal): number {
+    if (outer?.aborted) throw e;
+    const error: ClassifiedError = attempt.timedOut
+      ? { kind: 'timeout', retryable: true, detail: `No response within ${this.policy.timeoutMs / 1000}s.` }
+      : classifyError(e);
+
+    const delay = this.backoff(count, error.retryAfterMs);
+    if (error.kind === 'rateLimit') queue.pause(delay);
+
+    const giveUp = !canRetry || !error.retryable || count > this.policy.retries || (error.retryAfterMs ?? 0) > this.policy.maxDelayMs;
+    if (giveUp) {
+      const message = describeError(error, label);
+      throw new RequestError(count > 1 ? `${message} (Failed after ${count} attempts.)` : message, error, count);
+    }
+    console.warn(`${label}: ${error.kind} error, retrying in ${Math.round(delay)}ms (attempt ${count}).`, e);
+    return delay;
+  }
+
+  async run<T>(model: string, label: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const queue = this.queueFor(model);
+    for (let count = 1; ; count++) {
+      await queue.acquire(signal);
+      const attempt = new Attempt(this.policy.timeoutMs, signal);
+      let delay: number;
+      try {
+        return await Promise.race([task(attempt.signal), attempt.expired]);
+      } catch (e) {
+        delay = this.settle(e, attempt, count, queue, label, true, signal);
+      } finally {
+        attempt.dispose();
+      }
+      await sleep(delay, signal);
+    }
+  }
+
+  // Streams are only retried until their first chunk; after that a retry
+  // would repeat text the caller has already shown.
+  async *stream<T>(model: string, label: string, task: (signal: AbortSignal) => AsyncIterable<T>, signal?: AbortSignal): AsyncGenerator<T> {
+    const queue = this.queueFor(model);
+    for (let count = 1; ; count++) {
+      await queue.acquire(signal);
+      const attempt = new Attempt(this.policy.timeoutMs, signal);
+      let started = false;
+      let delay: number;
+      const chunks = task(attempt.signal)[Symbol.asyncIterator]();
+      try {
+        while (true) {
+          const next = await Promise.race([chunks.next(), attempt.expired]);
+          if (next.done) return;
+          started = true;
+          attempt.touch();
+          yield next.value;
+        }
+      } catch (e) {
+        delay = this.settle(e, attempt, count, queue, label, !started, signal);
+      } finally {
+        attempt.dispose();
+        // Not awaited: a stuck adapter would never settle it
+        chunks.return?.().catch(() => {});
+      }
+      await sleep(delay, signal);
+    }
+  }
+}
+
+export const requestExecutor = new RequestExecutor();
+
+class ResilientChat implements LLMChat {
+  constructor(private inner: LLMChat, private model: string, private label: string, private executor: RequestExecutor) {}
+
+  get history(): ChatTurn[] {
+    return this.inner.history;
+  }
+
+  sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    return this.executor.run(this.model, this.label, signal => this.inner.sendMessage(message, { signal }), options?.signal);
+  }
+
+  sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    return this.executor.stream(this.model, this.label, signal => this.inner.sendMessageStream(message, { signal }), options?.signal);
+  }
+}
+
+// Routes a provider's calls through the executor. `label` names the vendor in error messages.
+export class ResilientProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private label: string, private executor: RequestExecutor = requestExecutor) {}
+
+  get id() {
+    return this.inner.id;
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new ResilientChat(this.inner.createChat(options), options.model, this.label, this.executor);
+  }
+
+  generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    return this.executor.run(request.model, this.label, signal => this.inner.generateJSON(request, { signal }), options?.signal);
+  }
+
+  generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null> {
+    return this.executor.run(request.model, this.label, signal => this.inner.generateImage(request, { signal }), options?.signal);
+  }
+
+  // Key checks report the first answer; retrying would only delay it
+  testConnection(options?: RequestOptions): Promise<void> {
+    return this.inner.testConnection(options);
+  }
+}
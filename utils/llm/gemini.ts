@@ -0,0 +1,133 @@
+import { GoogleGenAI, Chat, Content, Part, GenerateContentResponse } from "@google/genai";
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, LLMChat, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, RequestOptions, TokenUsage
+} from './types';
+import { blockedError, parseDataUrl } from './shared';
+
+const toParts = (message: MessageInput): Part[] => {
+  const parts: Part[] = [{ text: message.text }];
+  if (message.image) parts.push({ inlineData: parseDataUrl(message.image) });
+  return parts;
+};
+
+const toUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount || 0,
+    outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  };
+};
+
+// Finish reasons that mean the content itself was withheld
+const BLOCKED_FINISH_REASONS: string[] = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+const blockReason = (response: GenerateContentResponse): string | undefined => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+};
+
+// Only empty responses are treated as blocked; partial text is still returned
+const ensureNotBlocked = (response: GenerateContentResponse) => {
+  const reason = blockReason(response);
+  if (reason && !response.text) throw blockedError('gemini', reason);
+};
+
+class GeminiChat implements LLMChat {
+  public readonly history: ChatTurn[];
+  private chat: Chat;
+
+  constructor(ai: GoogleGenAI, options: ChatOptions) {
+    this.history = [...(options.history || [])];
+    const history: Content[] = this.history.map(turn => ({
+      role: turn.role,
+      parts: toParts(turn),
+    }));
+
+    this.chat = ai.chats.create({
+      model: options.model,
+      history,
+      config: {
+        systemInstruction: options.systemInstruction,
+        temperature: options.temperature,
+        tools: options.enableSearch ? [{ googleSearch: {} }] : undefined,
+      }
+    });
+  }
+
+  async sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    const response = await this.chat.sendMessage({
+      message: toParts(message),
+      config: { abortSignal: options?.signal },
+    });
+    ensureNotBlocked(response);
+    const text = response.text || '';
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+    return { text, usage: toUsage(response) };
+  }
+
+  async *sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    const stream = await this.chat.sendMessageStream({
+      message: toParts(message),
+      config: { abortSignal: options?.signal },
+    });
+    let text = '';
+    let blocked: string | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.text || '';
+      text += delta;
+      blocked = blockReason(chunk) || blocked;
+      yield { text: delta, usage: toUsage(chunk) };
+    }
+    if (blocked && !text) throw blockedError('gemini', blocked);
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  public readonly id = 'gemini' as const;
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new GeminiChat(this.ai, options);
+  }
+
+  async generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    const response = await this.ai.models.generateContent({
+      model: request.model,
+      contents: { parts: [{ text: request.prompt }] },
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.schema,
+        abortSignal: options?.signal,
+      }
+    });
+    ensureNotBlocked(response);
+    return { text: response.text || '', usage: toUsage(response) };
+  }
+
+  async testConnection(options?: RequestOptions): Promise<void> {
+    await this.ai.models.list({ config: { pageSize: 1, abortSignal: options?.signal } });
+  }
+
+  async generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null> {
+    const response = await this.ai.models.generateContent({
+      model: request.model,
+      contents: { parts: [{ text: request.prompt }] },
+      config: { abortSignal: options?.signal },
+    });
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+    const reason = blockReason(response);
+    if (reason) throw blockedError('gemini', reason);
+    return null;
+  }
+}
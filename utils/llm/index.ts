@@ -0,0 +1,158 @@
+import { LLMProvider, ProviderId } from './types';
+import { FALLBACK_MODEL_LABEL, getModelInfo, ModelInfo } from './models';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { ProxyProvider, ProxyStatus, probeProxy } from './proxy';
+import { DEFAULT_MOCK_CONFIG, MockConfig, MockProvider } from './mock';
+import { ResilientProvider } from './executor';
+
+export * from './types';
+export * from './models';
+export { MockProvider, DEFAULT_MOCK_CONFIG } from './mock';
+export type { MockConfig } from './mock';
+export type { ProxyStatus } from './proxy';
+export { stripFences } from './shared';
+export * from './tokens';
+export * from './metered';
+export * from './errors';
+export * from './executor';
+
+interface ProviderConfig {
+  label: string;
+  baseUrl?: string; // Default endpoint; OpenAI-compatible providers accept an override
+}
+
+export const PROVIDER_CONFIG: Record<ProviderId, ProviderConfig> = {
+  gemini: { label: 'Google Gemini' },
+  openai: { label: 'OpenAI' },
+  anthropic: { label: 'Anthropic' },
+  deepseek: { label: 'DeepSeek', baseUrl: 'https://api.deepseek.com/v1' },
+  xai: { label: 'xAI', baseUrl: 'https://api.x.ai/v1' },
+  openrouter: { label: 'OpenRouter', baseUrl: 'https://openrouter.ai/api/v1' },
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_CONFIG) as ProviderId[];
+
+export interface ProviderCredentials {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+export type CredentialMap = Partial<Record<ProviderId, ProviderCredentials>>;
+
+// Keys live only in memory; they are entered at runtime (see utils/keyVault.ts),
+// never baked into the bundle. When the proxy in server/ is reachable, the
+// providers it holds keys for are routed through it instead.
+let credentials: CredentialMap = {};
+let proxy: ProxyStatus | null = null;
+let mockConfig: MockConfig | null = null; // When set, every provider is served by MockProvider
+const providers = new Map<ProviderId, LLMProvider>();
+const mockProviders = new Map<ProviderId, LLMProvider>();
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  providers.clear();
+  mockProviders.clear();
+  listeners.forEach(listener => listener());
+};
+
+export const setProviderCredentials = (next: CredentialMap) => {
+  credentials = next;
+  notify();
+};
+
+// Probes the proxy at `url` (empty for same-origin) and prefers it for every
+// provider it serves. Resolves to null, and falls back to local keys, when unreachable.
+export const connectProxy = async (url: string): Promise<ProxyStatus | null> => {
+  proxy = await probeProxy(url);
+  notify();
+  return proxy;
+};
+
+export const getProxyStatus = (): ProxyStatus | null => proxy;
+
+// Routes every provider to the offline mock (null turns it off). Takes
+// precedence over the proxy and local keys.
+export const setMockMode = (config: MockConfig | null) => {
+  mockConfig = config;
+  notify();
+};
+
+export const getMockMode = (): MockConfig | null => mockConfig;
+
+const isProxied = (id: ProviderId) => !!proxy?.providers.includes(id);
+
+// Returns an unsubscribe function, so it can be returned from useEffect directly
+export const onCredentialsChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isProviderConfigured = (id: ProviderId): boolean => !!mockConfig || isProxied(id) || !!credentials[id]?.apiKey;
+
+export const getProviderLabel = (id: ProviderId): string => PROVIDER_CONFIG[id].label;
+
+// Builds an uncached adapter; used directly to test keys before they are saved.
+export const createProvider = (id: ProviderId, { apiKey, baseUrl }: ProviderCredentials): LLMProvider => {
+  switch (id) {
+    case 'gemini': return new GeminiProvider(apiKey);
+    case 'anthropic': return new AnthropicProvider(apiKey);
+    default: return new OpenAICompatibleProvider(apiKey, baseUrl || PROVIDER_CONFIG[id].baseUrl, id);
+  }
+};
+
+// Returns a cached adapter for the provider, or null when neither mock mode,
+// the proxy nor a local API key covers it. Calls go through the shared request
+// executor (rate limits, retries, classified errors).
+export const getProvider = (id: ProviderId): LLMProvider | null => {
+  if (!isProviderConfigured(id)) return null;
+
+  let provider = providers.get(id);
+  if (!provider) {
+    let adapter: LLMProvider;
+    if (mockConfig) adapter = new MockProvider(id, mockConfig);
+    else if (isProxied(id)) adapter = new ProxyProvider(id, proxy!.url);
+    else adapter = createProvider(id, credentials[id]!);
+    provider = new ResilientProvider(adapter, getProviderLabel(id));
+    providers.set(id, provider);
+  }
+  return provider;
+};
+
+// Offline stand-in for flows that run without any configured provider, so
+// they exercise the same code path as a real call.
+export const getMockProvider = (id: ProviderId): LLMProvider => {
+  let provider = mockProviders.get(id);
+  if (!provider) {
+    provider = new ResilientProvider(new MockProvider(id, mockConfig || DEFAULT_MOCK_CONFIG), `${getProviderLabel(id)} (mock)`);
+    mockProviders.set(id, provider);
+  }
+  return provider;
+};
+
+export interface ModelRoute {
+  model: ModelInfo;
+  provider: LLMProvider;
+  fallbackFrom?: ModelInfo; // Set when the requested target had no configured provider
+}
+
+// Maps a Target Model label to a ready provider, falling back to
+// FALLBACK_MODEL_LABEL when the target's vendor has no key. Null when nothing is configured.
+export const resolveModel = (label: string): ModelRoute | null => {
+  const fallback = getModelInfo(FALLBACK_MODEL_LABEL)!;
+  const requested = getModelInfo(label) || fallback;
+
+  const provider = getProvider(requested.provider);
+  if (provider) return { model: requested, provider };
+
+  const fallbackProvider = getProvider(fallback.provider);
+  if (!fallbackProvider) return null;
+  return { model: fallback, provider: fallbackProvider, fallbackFrom: requested };
+};
+
+// The requested target served by the mock; used when resolveModel finds nothing.
+export const resolveMockModel = (label: string): ModelRoute => {
+  const model = getModelInfo(label) || getModelInfo(FALLBACK_MODEL_LABEL)!;
+  return { model, provider: getMockProvider(model.provider) };
+};
@@ -0,0 +1,84 @@
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, LLMChat, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, RequestOptions, TokenUsage
+} from './types';
+import { ModelInfo } from './models';
+import { estimateTokens, estimateTurnTokens } from './tokens';
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+// Wraps a provider so every completed text call reports its token usage.
+// Responses that omit usage fall back to an estimate from the exchanged text.
+// Image generation is billed per image and is not reported.
+
+class MeteredChat implements LLMChat {
+  constructor(
+    private inner: LLMChat,
+    private options: ChatOptions,
+    private model: ModelInfo,
+    private onUsage: UsageListener
+  ) {}
+
+  get history(): ChatTurn[] {
+    return this.inner.history;
+  }
+
+  // Taken before sending, since the inner chat appends the turn afterwards
+  private inputTokens(message: MessageInput) {
+    const provider = this.model.provider;
+    return estimateTokens(this.options.systemInstruction || '', provider) + estimateTurnTokens([...this.inner.history, message], provider);
+  }
+
+  async sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    const inputTokens = this.inputTokens(message);
+    const response = await this.inner.sendMessage(message, options);
+    this.onUsage(response.usage || { inputTokens, outputTokens: estimateTokens(response.text, this.model.provider) });
+    return response;
+  }
+
+  async *sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    const inputTokens = this.inputTokens(message);
+    let text = '';
+    let usage: TokenUsage | undefined;
+    try {
+      for await (const chunk of this.inner.sendMessageStream(message, options)) {
+        text += chunk.text;
+        if (chunk.usage) usage = chunk.usage;
+        yield chunk;
+      }
+    } finally {
+      // Stopped streams are still billed for what was generated
+      if (text || usage) this.onUsage(usage || { inputTokens, outputTokens: estimateTokens(text, this.model.provider) });
+    }
+  }
+}
+
+export class MeteredProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private model: ModelInfo, private onUsage: UsageListener) {}
+
+  get id() {
+    return this.inner.id;
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new MeteredChat(this.inner.createChat(options), options, this.model, this.onUsage);
+  }
+
+  async generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    const response = await this.inner.generateJSON(request, options);
+    const provider = this.model.provider;
+    this.onUsage(response.usage || {
+      inputTokens: estimateTokens(`${request.systemInstruction || ''}${request.prompt}`, provider),
+      outputTokens: estimateTokens(response.text, provider),
+    });
+    return response;
+  }
+
+  generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null> {
+    return this.inner.generateImage(request, options);
+  }
+
+  testConnection(options?: RequestOptions): Promise<void> {
+    return this.inner.testConnection(options);
+  }
+}
@@ -0,0 +1,151 @@
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, JSONSchema, LLMChat, LLMError, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, ProviderId, RequestOptions, TokenUsage
+} from './types';
+import { sleep } from './shared';
+import { hash, mockChatReply, mockImage, mockJSONFixture, pick } from './mockFixtures';
+import { validateSchema } from '../jsonSchema';
+
+// Offline stand-in for every vendor. Replies are derived from the request
+// text, so the same input always produces the same output and features can
+// be exercised without keys or network access.
+
+export interface MockConfig {
+  latencyMs: number; // Before each response; streams spread it across chunks
+  errorRate: number; // 0-1 share of calls that fail with an injected vendor error
+}
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = { latencyMs: 600, errorRate: 0 };
+
+// Statuses real vendors return under load, so retry paths get exercised
+const INJECTED_STATUSES = [429, 500, 503];
+
+// Rough chars-per-token heuristic, so usage numbers move with input size
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const usageFor = (input: string, output: string): TokenUsage => ({
+  inputTokens: estimateTokens(input),
+  outputTokens: estimateTokens(output),
+});
+
+// Builds a value that satisfies `schema`, choosing enum members and array
+// lengths from the seed so different prompts give different (but stable) data.
+const sampleSchema = (schema: JSONSchema, seed: string): unknown => {
+  const enumValues = schema.enum as unknown[] | undefined;
+  if (enumValues?.length) return pick(enumValues, seed);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, JSONSchema>;
+      return Object.fromEntries(Object.entries(properties).map(([key, child]) => [key, sampleSchema(child, `${seed}.${key}`)]));
+    }
+    case 'array': {
+      const min = (schema.minItems as number) ?? 1;
+      const max = (schema.maxItems as number) ?? Math.max(min, 4);
+      const count = Math.max(min, Math.min(max, 3));
+      return Array.from({ length: count }, (_, i) => sampleSchema((schema.items || {}) as JSONSchema, `${seed}[${i}]`));
+    }
+    case 'number':
+    case 'integer': {
+      const min = (schema.minimum as number) ?? 0;
+      const max = (schema.maximum as number) ?? min + 10;
+      return min + (hash(seed) % (Math.floor(max - min) + 1));
+    }
+    case 'boolean':
+      return hash(seed) % 2 === 0;
+    case 'null':
+      return null;
+    default: {
+      const text = `mock ${seed.split('.').pop()}`;
+      const minLength = (schema.minLength as number) ?? 0;
+      return text.padEnd(minLength, '.');
+    }
+  }
+};
+
+// Prefers a realistic fixture, falling back to schema-sampled data when the
+// fixture is missing or would not validate
+const mockJSON = (request: JSONRequest): unknown => {
+  const fixture = mockJSONFixture(request.prompt);
+  if (!request.schema) return fixture ?? { result: 'mock', prompt: request.prompt.slice(0, 80) };
+  if (fixture !== undefined && validateSchema(request.schema, fixture).length === 0) return fixture;
+  return sampleSchema(request.schema, request.prompt);
+};
+
+class MockChat implements LLMChat {
+  public readonly history: ChatTurn[];
+
+  constructor(private provider: MockProvider, private options: ChatOptions) {
+    this.history = [...(options.history || [])];
+  }
+
+  private promptText(message: MessageInput) {
+    return [this.options.systemInstruction || '', ...this.history.map(t => t.text), message.text].join('\n');
+  }
+
+  private reply(message: MessageInput) {
+    return mockChatReply(this.options.model, message.text, this.options.systemInstruction);
+  }
+
+  async sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    await this.provider.respond(options?.signal);
+    const text = this.reply(message);
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+    return { text, usage: usageFor(this.promptText(message), text) };
+  }
+
+  async *sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    const input = this.promptText(message);
+    const pieces = this.reply(message).match(/\S+\s*/g) || [];
+    // Half the latency before the first token, the rest spread over the stream
+    await this.provider.respond(options?.signal, 0.5);
+    const perChunk = (this.provider.config.latencyMs * 0.5) / Math.max(pieces.length, 1);
+
+    let sent = '';
+    for (const piece of pieces) {
+      await sleep(perChunk, options?.signal);
+      sent += piece;
+      yield { text: piece, usage: usageFor(input, sent) };
+    }
+    this.history.push({ role: 'user', ...message }, { role: 'model', text: sent });
+  }
+}
+
+export class MockProvider implements LLMProvider {
+  private calls = 0;
+
+  constructor(public readonly id: ProviderId, public readonly config: MockConfig = DEFAULT_MOCK_CONFIG) {}
+
+  // Waits out the configured latency, then fails the call if this one is
+  // picked for error injection. Failures follow the call count, so a given
+  // sequence of calls fails at the same points on every run.
+  async respond(signal?: AbortSignal, latencyShare = 1): Promise<void> {
+    await sleep(this.config.latencyMs * latencyShare, signal);
+    const call = `${this.id}#${this.calls++}`;
+    if ((hash(call) % 1000) / 1000 < this.config.errorRate) {
+      const status = pick(INJECTED_STATUSES, call);
+      throw new LLMError(`${this.id} request failed (${status}): Injected mock failure.`, this.id, status);
+    }
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new MockChat(this, options);
+  }
+
+  async generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    await this.respond(options?.signal);
+    const text = JSON.stringify(mockJSON(request), null, 2);
+    return { text, usage: usageFor(`${request.systemInstruction || ''}${request.prompt}`, text) };
+  }
+
+  async generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null> {
+    // Images are slow for real vendors too
+    await this.respond(options?.signal, 2);
+    return mockImage(request.prompt);
+  }
+
+  async testConnection(options?: RequestOptions): Promise<void> {
+    await sleep(this.config.latencyMs, options?.signal);
+  }
+}
@@ -0,0 +1,124 @@
+import { PlanData, Slide } from '../../types';
+
+// Canned content for MockProvider. Every builder takes the text it is
+// derived from, so fixtures read plausibly for the request that produced them
+// and stay identical across runs.
+
+// FNV-1a; stable across runtimes, which is all the mock needs
+export const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const pick = <T>(items: readonly T[], seed: string): T => items[hash(seed) % items.length];
+
+const clip = (text: string, max: number) => {
+  const flat = text.trim().replace(/\s+/g, ' ');
+  return flat.length > max ? `${flat.slice(0, max)}...` : flat;
+};
+
+const PROMPT_TEMPLATES = [
+  (task: string) => [
+    `# Role`,
+    `You are a senior specialist with deep, practical experience in this domain.`,
+    ``,
+    `# Task`,
+    task,
+    ``,
+    `# Constraints`,
+    `- State any assumptions before answering.`,
+    `- Ask one clarifying question if the request is ambiguous.`,
+    `- Keep the answer under 300 words.`,
+    ``,
+    `# Output Format`,
+    `A short answer, then a bulleted summary of key points.`,
+  ],
+  (task: string) => [
+    `You are an expert assistant. Think through the problem step by step before answering.`,
+    ``,
+    `<task>`,
+    task,
+    `</task>`,
+    ``,
+    `<rules>`,
+    `1. Cite the facts you rely on.`,
+    `2. Prefer concrete examples over abstractions.`,
+    `3. If information is missing, say so instead of guessing.`,
+    `</rules>`,
+    ``,
+    `Respond with a numbered plan followed by the final answer.`,
+  ],
+  (task: string) => [
+    `Act as a meticulous reviewer and collaborator.`,
+    ``,
+    `Goal: ${task}`,
+    ``,
+    `Context: The reader is technical but new to this topic.`,
+    `Tone: Direct, friendly, no filler.`,
+    `Format: Markdown with headings; end with a one-line takeaway.`,
+  ],
+];
+
+export const mockChatReply = (model: string, message: string, systemInstruction = ''): string => {
+  const task = clip(message, 240);
+  // Tutor-style sessions get an explainer rather than a prompt
+  if (/tutor/i.test(systemInstruction)) {
+    const topic = /Topic: ([^\n(]+)/.exec(systemInstruction)?.[1]?.trim() || 'this topic';
+    return [
+      `// MOCK RESPONSE · ${model}`,
+      `## ${topic}: Deep Dive`,
+      ``,
+      `**ELI5:** ${topic} is a way of telling the model exactly what you need so it stops guessing.`,
+      ``,
+      `**Why it matters:** Clear structure reduces ambiguity, which makes outputs more consistent and easier to evaluate.`,
+      ``,
+      `**How to use it:**`,
+      `- Start with the smallest version that works.`,
+      `- Add one constraint at a time and compare results.`,
+      `- Keep an example of a good output next to the prompt.`,
+      ``,
+      `You asked: "${task}"`,
+    ].join('\n');
+  }
+  return [`// MOCK RESPONSE · ${model}`, ...pick(PROMPT_TEMPLATES, task)(task)].join('\n');
+};
+
+export const mockPlan = (context: string): PlanData => {
+  const subject = clip(context.replace(/^Based on this context:\s*"?/i, ''), 40) || 'the prompt';
+  return {
+    title: `Execution Plan: ${subject}`,
+    steps: [
+      { id: '1', label: 'Gather context', type: 'start', details: 'Collect the inputs, audience and constraints.' },
+      { id: '2', label: 'Draft the prompt', type: 'process', details: 'Combine the selected elements into one instruction.' },
+      { id: '3', label: 'Run test cases', type: 'process', details: 'Try the draft on three representative inputs.' },
+      { id: '4', label: 'Meets the criteria?', type: 'decision', details: 'Compare outputs with the success criteria; loop back if not.' },
+      { id: '5', label: 'Ship', type: 'end', details: 'Version the final prompt and share it with the team.' },
+    ],
+  };
+};
+
+export const mockSlides = (subject: string): Slide[] => [
+  { title: subject, subtitle: 'Offline mock deck', points: ['A guided tour generated without a provider.'], visualDescription: `Abstract neon diagram of ${subject}` },
+  { title: 'Core Concept', points: [`${subject} shapes how the model interprets a request.`, 'It trades a few extra words for far less ambiguity.'], visualDescription: '' },
+  { title: 'Mechanics', points: ['Name the goal up front.', 'Add constraints and examples.', 'Specify the output format.'], visualDescription: '' },
+  { title: 'Key Takeaway', points: ['Small, explicit prompts beat long, vague ones.', 'Measure changes with an eval suite.'], visualDescription: '' },
+];
+
+// JSON for the app's known prompts, keyed off the prompt wording; undefined when nothing matches
+export const mockJSONFixture = (prompt: string): unknown => {
+  if (/presentation|slide/i.test(prompt)) return mockSlides(/"([^"]+)"/.exec(prompt)?.[1] || 'This Topic');
+  if (/execution plan/i.test(prompt)) return mockPlan(prompt);
+  return undefined;
+};
+
+// A flat SVG card whose colour follows the prompt
+export const mockImage = (prompt: string): string => {
+  const hue = hash(prompt) % 360;
+  const label = clip(prompt, 40).replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="360"><rect width="100%" height="100%" fill="hsl(${hue},60%,12%)"/><circle cx="320" cy="150" r="80" fill="none" stroke="hsl(${hue},90%,60%)" stroke-width="4"/><text x="320" y="300" fill="hsl(${hue},90%,70%)" font-family="monospace" font-size="16" text-anchor="middle">MOCK · ${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
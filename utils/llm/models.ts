@@ -0,0 +1,98 @@
+import { ProviderId } from './types';
+
+export interface ModelFeatures {
+  thinking: boolean;
+  search: boolean; // Native search grounding (Gemini googleSearch tool)
+  images: boolean; // Accepts image input (whiteboard refinements)
+}
+
+// List prices in USD per million tokens; update when vendors change them.
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  label: string; // Name shown in the Target Model picker
+  provider: ProviderId;
+  modelId: string;
+  contextWindow: number;
+  pricing: ModelPricing;
+  requestsPerMinute: number; // Client-side cap; the request queue holds calls beyond it
+  features: ModelFeatures;
+}
+
+export const MODEL_REGISTRY: ModelInfo[] = [
+  {
+    label: 'Gemini 3.0 Pro',
+    provider: 'gemini',
+    modelId: 'gemini-3-pro-preview',
+    contextWindow: 1_048_576,
+    pricing: { input: 2, output: 12 },
+    requestsPerMinute: 25,
+    features: { thinking: true, search: true, images: true },
+  },
+  {
+    label: 'Gemini 2.5 Flash',
+    provider: 'gemini',
+    modelId: 'gemini-2.5-flash',
+    contextWindow: 1_048_576,
+    pricing: { input: 0.3, output: 2.5 },
+    requestsPerMinute: 60,
+    features: { thinking: true, search: true, images: true },
+  },
+  {
+    label: 'GPT-5 (Preview)',
+    provider: 'openai',
+    modelId: 'gpt-5',
+    contextWindow: 400_000,
+    pricing: { input: 1.25, output: 10 },
+    requestsPerMinute: 50,
+    features: { thinking: true, search: false, images: true },
+  },
+  {
+    label: 'Claude 4 Opus',
+    provider: 'anthropic',
+    modelId: 'claude-opus-4-1',
+    contextWindow: 200_000,
+    pricing: { input: 15, output: 75 },
+    requestsPerMinute: 40,
+    features: { thinking: true, search: false, images: true },
+  },
+  {
+    label: 'Llama 4 405B',
+    provider: 'openrouter',
+    modelId: 'meta-llama/llama-4-maverick',
+    contextWindow: 1_048_576,
+    pricing: { input: 0.15, output: 0.6 },
+    requestsPerMinute: 20,
+    features: { thinking: false, search: false, images: true },
+  },
+  {
+    label: 'DeepSeek V3',
+    provider: 'deepseek',
+    modelId: 'deepseek-chat',
+    contextWindow: 128_000,
+    pricing: { input: 0.27, output: 1.1 },
+    requestsPerMinute: 60,
+    features: { thinking: false, search: false, images: false },
+  },
+  {
+    label: 'Grok 3',
+    provider: 'xai',
+    modelId: 'grok-3',
+    contextWindow: 131_072,
+    pricing: { input: 3, output: 15 },
+    requestsPerMinute: 60,
+    features: { thinking: false, search: false, images: false },
+  },
+];
+
+// Used whenever the selected target has no configured provider.
+export const FALLBACK_MODEL_LABEL = 'Gemini 2.5 Flash';
+
+export const getModelInfo = (label: string): ModelInfo | undefined =>
+  MODEL_REGISTRY.find(m => m.label === label);
+
+export const getModelInfoById = (modelId: string): ModelInfo | undefined =>
+  MODEL_REGISTRY.find(m => m.modelId === modelId);
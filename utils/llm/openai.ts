@@ -0,0 +1,139 @@
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, LLMChat, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, ProviderId, RequestOptions, TokenUsage
+} from './types';
+import { blockedError, ensureOk, readSSE } from './shared';
+
+// Works against api.openai.com as well as any server exposing the same
+// /chat/completions contract (DeepSeek, Groq, xAI, Together, local vLLM...).
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const toMessage = (turn: ChatTurn | (MessageInput & { role: 'user' })) => {
+  const role = turn.role === 'model' ? 'assistant' : 'user';
+  if (!turn.image) return { role, content: turn.text };
+  return {
+    role,
+    content: [
+      { type: 'text', text: turn.text },
+      { type: 'image_url', image_url: { url: turn.image } },
+    ]
+  };
+};
+
+const toUsage = (usage: any): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 };
+};
+
+class OpenAIChat implements LLMChat {
+  public readonly history: ChatTurn[];
+
+  constructor(private provider: OpenAICompatibleProvider, private options: ChatOptions) {
+    this.history = [...(options.history || [])];
+  }
+
+  private buildMessages(message: MessageInput) {
+    const messages: any[] = [];
+    if (this.options.systemInstruction) messages.push({ role: 'system', content: this.options.systemInstruction });
+    this.history.forEach(turn => messages.push(toMessage(turn)));
+    messages.push(toMessage({ role: 'user', ...message }));
+    return messages;
+  }
+
+  async sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    const body = await this.provider.request('/chat/completions', {
+      model: this.options.model,
+      temperature: this.options.temperature,
+      messages: this.buildMessages(message),
+    }, options?.signal).then(res => res.json());
+
+    const text = body.choices?.[0]?.message?.content || '';
+    if (!text && body.choices?.[0]?.finish_reason === 'content_filter') throw blockedError(this.provider.id, 'content_filter');
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+    return { text, usage: toUsage(body.usage) };
+  }
+
+  async *sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.provider.request('/chat/completions', {
+      model: this.options.model,
+      temperature: this.options.temperature,
+      messages: this.buildMessages(message),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, options?.signal);
+
+    let text = '';
+    let finishReason: string | undefined;
+    for await (const event of readSSE(response)) {
+      const delta = event.choices?.[0]?.delta?.content || '';
+      text += delta;
+      finishReason = event.choices?.[0]?.finish_reason || finishReason;
+      if (delta || event.usage) yield { text: delta, usage: toUsage(event.usage) };
+    }
+    if (!text && finishReason === 'content_filter') throw blockedError(this.provider.id, 'content_filter');
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+  }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+    public readonly id: ProviderId = 'openai'
+  ) {}
+
+  // POSTs `body` as JSON, or GETs when there is none
+  async request(path: string, body?: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+    await ensureOk(response, this.id);
+    return response;
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new OpenAIChat(this, options);
+  }
+
+  async generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    const messages: any[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    messages.push({ role: 'user', content: request.prompt });
+
+    const body = await this.request('/chat/completions', {
+      model: request.model,
+      temperature: request.temperature,
+      messages,
+      response_format: request.schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: request.schema } }
+        : { type: 'json_object' },
+    }, options?.signal).then(res => res.json());
+
+    const text = body.choices?.[0]?.message?.content || '';
+    if (!text && body.choices?.[0]?.finish_reason === 'content_filter') throw blockedError(this.id, 'content_filter');
+    return { text, usage: toUsage(body.usage) };
+  }
+
+  async testConnection(options?: RequestOptions): Promise<void> {
+    await this.request('/models', undefined, options?.signal);
+  }
+
+  async generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null> {
+    const body = await this.request('/images/generations', {
+      model: request.model,
+      prompt: request.prompt,
+      n: 1,
+    }, options?.signal).then(res => res.json());
+
+    const image = body.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+    return null;
+  }
+}
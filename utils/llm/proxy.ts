@@ -0,0 +1,95 @@
+import {
+  ChatOptions, ChatTurn, ImageRequest, JSONRequest, LLMChat, LLMError, LLMProvider,
+  LLMResponse, LLMStreamChunk, MessageInput, ProviderId, RequestOptions
+} from './types';
+import { ensureOk, readNDJSON } from './shared';
+
+// Client for the optional proxy in server/. The proxy holds the vendor keys,
+// so requests carry only the provider id and the call itself. Chats stay
+// stateless on the server: every turn resends the history kept here.
+
+export const PROXY_PATH = '/api/llm';
+
+export interface ProxyStatus {
+  url: string; // Origin of the proxy; empty for same-origin
+  mock: boolean;
+  providers: ProviderId[]; // Providers the proxy holds keys for (all of them in mock mode)
+}
+
+const STATUS_TIMEOUT_MS = 3000;
+
+// Null when nothing answers at `url`, e.g. a static deploy without the proxy.
+export const probeProxy = async (url: string): Promise<ProxyStatus | null> => {
+  const origin = url.trim().replace(/\/$/, '');
+  try {
+    const response = await fetch(`${origin}${PROXY_PATH}/status`, { signal: AbortSignal.timeout(STATUS_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    const body = await response.json();
+    if (!Array.isArray(body?.providers)) return null;
+    return { url: origin, mock: !!body.mock, providers: body.providers };
+  } catch (e) {
+    return null;
+  }
+};
+
+class ProxyChat implements LLMChat {
+  public readonly history: ChatTurn[];
+
+  constructor(private provider: ProxyProvider, private options: ChatOptions) {
+    this.history = [...(options.history || [])];
+  }
+
+  private body(message: MessageInput, stream: boolean) {
+    return { options: { ...this.options, history: this.history }, message, stream };
+  }
+
+  async sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse> {
+    const result: LLMResponse = await this.provider.request('/chat', this.body(message, false), options?.signal).then(res => res.json());
+    this.history.push({ role: 'user', ...message }, { role: 'model', text: result.text });
+    return result;
+  }
+
+  async *sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.provider.request('/chat', this.body(message, true), options?.signal);
+    let text = '';
+    for await (const chunk of readNDJSON(response)) {
+      // Failures after the stream has started arrive as a final error line
+      if (chunk.error) throw new LLMError(chunk.error.message, this.provider.id, chunk.error.status, { blocked: chunk.error.blocked });
+      text += chunk.text;
+      yield chunk;
+    }
+    this.history.push({ role: 'user', ...message }, { role: 'model', text });
+  }
+}
+
+export class ProxyProvider implements LLMProvider {
+  constructor(public readonly id: ProviderId, private origin: string) {}
+
+  async request(path: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.origin}${PROXY_PATH}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider: this.id, ...body }),
+      signal,
+    });
+    await ensureOk(response, this.id);
+    return response;
+  }
+
+  createChat(options: ChatOptions): LLMChat {
+    return new ProxyChat(this, options);
+  }
+
+  async generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse> {
+    return this.request('/json', { request }, options?.signal).then(res => res.json());
+  }
+
+  async generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null> {
+    const body = await this.request('/image', { request }, options?.signal).then(res => res.json());
+    return body.image ?? null;
+  }
+
+  async testConnection(options?: RequestOptions): Promise<void> {
+    await this.request('/test', {}, options?.signal);
+  }
+}
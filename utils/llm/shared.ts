@@ -0,0 +1,112 @@
+import { LLMError, ProviderId } from './types';
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) return { mimeType: 'image/png', data: dataUrl.split(',')[1] || dataUrl };
+  return { mimeType: match[1], data: match[2] };
+};
+
+// Resolves after `ms`, or rejects with the abort reason. The listener is
+// removed either way, so long-lived signals don't collect one per wait.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    if (ms <= 0) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Models often wrap JSON in a markdown code fence despite being asked not to
+export const stripFences = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const ensureOk = async (response: Response, provider: ProviderId) => {
+  if (response.ok) return;
+  let detail = response.statusText;
+  let blocked: boolean | undefined;
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || detail;
+    blocked = body?.error?.blocked;
+  } catch (e) {}
+  throw new LLMError(`${provider} request failed (${response.status}): ${detail}`, provider, response.status, {
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    blocked,
+  });
+};
+
+// Thrown when a vendor answers but withholds the content on safety grounds
+export const blockedError = (provider: ProviderId, reason: string) =>
+  new LLMError(`${provider} blocked the response (${reason}).`, provider, undefined, { blocked: true });
+
+// Yields the JSON payload of every `data:` line of a server-sent event stream.
+export async function* readSSE(response: Response): AsyncGenerator<any> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === '[DONE]') continue;
+        try {
+          yield JSON.parse(payload);
+        } catch (e) {
+          console.warn("Skipping malformed stream chunk:", payload);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yields one parsed object per line of a newline-delimited JSON stream.
+export async function* readNDJSON(response: Response): AsyncGenerator<any> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line);
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
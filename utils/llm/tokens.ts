@@ -0,0 +1,70 @@
+import { ChatTurn, ProviderId, TokenUsage } from './types';
+import { ModelInfo } from './models';
+import { SessionUsage } from '../../types';
+
+// Offline token estimates, tuned per vendor tokenizer on English prose and
+// code. Good enough for a live counter; reported usage replaces them once a
+// response arrives.
+
+const CHARS_PER_TOKEN: Record<ProviderId, number> = {
+  gemini: 4,
+  openai: 4,
+  anthropic: 3.5,
+  deepseek: 3.7,
+  xai: 4,
+  openrouter: 3.7,
+};
+
+// Flat cost of one attached image at the default resolution
+const IMAGE_TOKENS: Record<ProviderId, number> = {
+  gemini: 258,
+  openai: 765,
+  anthropic: 1600,
+  deepseek: 765,
+  xai: 765,
+  openrouter: 765,
+};
+
+const TURN_OVERHEAD_TOKENS = 4; // Role markers and separators around each message
+
+export const estimateTokens = (text: string, provider: ProviderId): number =>
+  text ? Math.ceil(text.length / CHARS_PER_TOKEN[provider]) : 0;
+
+export const estimateTurnTokens = (turns: Pick<ChatTurn, 'text' | 'image'>[], provider: ProviderId): number =>
+  turns.reduce((sum, turn) => sum + estimateTokens(turn.text, provider) + (turn.image ? IMAGE_TOKENS[provider] : 0) + TURN_OVERHEAD_TOKENS, 0);
+
+export interface ContextEstimate {
+  system: number; // System instruction, which carries the selected elements
+  history: number;
+  input: number;
+  total: number;
+  contextWindow: number;
+}
+
+export const estimateContext = (
+  model: ModelInfo, parts: { systemInstruction: string; history: ChatTurn[]; input: string }
+): ContextEstimate => {
+  const system = estimateTokens(parts.systemInstruction, model.provider);
+  const history = estimateTurnTokens(parts.history, model.provider);
+  const input = estimateTokens(parts.input, model.provider);
+  return { system, history, input, total: system + history + input, contextWindow: model.contextWindow };
+};
+
+export const costOf = (usage: TokenUsage, model: ModelInfo): number =>
+  (usage.inputTokens * model.pricing.input + usage.outputTokens * model.pricing.output) / 1_000_000;
+
+export const EMPTY_USAGE: SessionUsage = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+export const addUsage = (totals: SessionUsage, usage: TokenUsage, model: ModelInfo): SessionUsage => ({
+  requests: totals.requests + 1,
+  inputTokens: totals.inputTokens + usage.inputTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  cost: totals.cost + costOf(usage, model),
+});
+
+export const formatTokens = (count: number): string =>
+  count >= 1_000_000 ? `${(count / 1_000_000).toFixed(1)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+// Sub-cent amounts keep enough digits to move visibly per request
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0.00' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
@@ -0,0 +1,90 @@
+export type ProviderId = 'gemini' | 'openai' | 'anthropic' | 'deepseek' | 'xai' | 'openrouter';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A user turn: plain text, optionally with an attached image (data URL).
+export interface MessageInput {
+  text: string;
+  image?: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  image?: string;
+}
+
+export interface ChatOptions {
+  model: string;
+  systemInstruction?: string;
+  history?: ChatTurn[];
+  enableSearch?: boolean;
+  temperature?: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+// `text` is the delta since the previous chunk; `usage`, when present, is the running total.
+export interface LLMStreamChunk {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export type JSONSchema = Record<string, unknown>;
+
+export interface JSONRequest {
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  temperature?: number;
+  schema?: JSONSchema; // Enforced natively where the provider supports it
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+}
+
+export interface LLMChat {
+  readonly history: ChatTurn[];
+  sendMessage(message: MessageInput, options?: RequestOptions): Promise<LLMResponse>;
+  sendMessageStream(message: MessageInput, options?: RequestOptions): AsyncGenerator<LLMStreamChunk>;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  createChat(options: ChatOptions): LLMChat;
+  // Single-shot call that asks the model for JSON and returns the raw text.
+  generateJSON(request: JSONRequest, options?: RequestOptions): Promise<LLMResponse>;
+  // Resolves to a data URL, or null when the model returned no image.
+  generateImage(request: ImageRequest, options?: RequestOptions): Promise<string | null>;
+  // Cheapest authenticated call (a model listing); rejects when the key or endpoint is wrong.
+  testConnection(options?: RequestOptions): Promise<void>;
+}
+
+export interface LLMErrorDetails {
+  retryAfterMs?: number; // From a Retry-After header or the vendor's retry hint
+  blocked?: boolean; // The vendor refused the content on safety grounds
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderId,
+    public readonly status?: number,
+    public readonly details: LLMErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_FINE_TUNING_EXAMPLES, validateJSONL } from './outputGenerators';
+
+const example = (messages: object[]) => JSON.stringify({ messages });
+const valid = example([{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }]);
+const dataset = (...lines: string[]) => [...lines, ...Array(MIN_FINE_TUNING_EXAMPLES).fill(valid)].join('\n');
+
+describe('validateJSONL', () => {
+  it('accepts a dataset of valid examples, ignoring blank lines', () => {
+    expect(validateJSONL(['', ...Array(MIN_FINE_TUNING_EXAMPLES).fill(valid), ''].join('\n'))).toEqual([]);
+  });
+
+  it('requires enough examples', () => {
+    expect(validateJSONL(valid)).toEqual([`Only 1 examples; fine-tuning needs at least ${MIN_FINE_TUNING_EXAMPLES}.`]);
+  });
+
+  it('reports lines that are not JSON or have no messages', () => {
+    expect(validateJSONL(dataset('{nope', '{"messages":[]}'))).toEqual([
+      'Line 1: not valid JSON.',
+      'Line 2: must be an object with a non-empty "messages" array.',
+    ]);
+  });
+
+  it('checks roles, content and assistant turns', () => {
+    expect(validateJSONL(dataset(example([{ role: 'bot', content: 'x' }, { role: 'user', content: ' ' }])))).toEqual([
+      'Line 1: message 1 has unknown role "bot".',
+      'Line 1: message 2 has empty content.',
+      'Line 1: needs at least one assistant message.',
+    ]);
+  });
+
+  it('allows tool calls without content and 0/1 weights on assistant turns only', () => {
+    const toolCall = example([{ role: 'user', content: 'x' }, { role: 'assistant', tool_calls: [], weight: 0 }]);
+    const badWeight = example([{ role: 'user', content: 'x', weight: 1 }, { role: 'assistant', content: 'y', weight: 2 }]);
+    expect(validateJSONL(dataset(toolCall, badWeight))).toEqual([
+      'Line 2: message 1 weight must be 0 or 1 on an assistant message.',
+      'Line 2: message 2 weight must be 0 or 1 on an assistant message.',
+    ]);
+  });
+});
@@ -0,0 +1,357 @@
+import { GeneratedOutput } from '../types';
+import { JSONSchema, stripFences } from './llm';
+import { validateSchema } from './jsonSchema';
+import { slugify } from './fileNames';
+
+// Each non-default output type is produced by a structured JSON request: the
+// generator supplies the schema the provider enforces, a validator for the
+// parsed result and a plain-text rendering used for copy, export and history.
+
+export const OUTPUT_TYPES = [
+  'Refined Prompt',
+  'System Prompt',
+  'Skills File',
+  'Reasoning Chain',
+  'Eval Rubric',
+  'Fine-Tuning JSONL'
+] as const;
+
+export type OutputType = typeof OUTPUT_TYPES[number];
+
+export interface OutputFile {
+  name: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface OutputGenerator<T> {
+  type: OutputType;
+  instruction: string; // Appended to the system instruction
+  schema: JSONSchema;
+  validate: (data: T) => string[]; // Semantic checks; runs once the schema passes
+  render: (data: T) => string;
+  toFile?: (data: T) => OutputFile;
+}
+
+// --- DATA SHAPES ---
+
+export interface SystemPromptData {
+  title: string;
+  system_prompt: string;
+  variables: string[];
+}
+
+export interface SkillsFileData {
+  name: string;
+  description: string;
+  tags: string[];
+  body: string;
+}
+
+export interface ReasoningChainData {
+  title: string;
+  steps: { step: string; rationale: string }[];
+  final_prompt: string;
+}
+
+export interface RubricLevel {
+  score: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  name: string;
+  description: string;
+  weight: number; // Percent; weights across criteria sum to 100
+  levels: RubricLevel[];
+}
+
+export interface EvalRubricData {
+  title: string;
+  criteria: RubricCriterion[];
+  passing_score: number;
+}
+
+export interface FineTuningMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface FineTuningData {
+  examples: { messages: FineTuningMessage[] }[];
+}
+
+const stringArray: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+// --- SYSTEM PROMPT ---
+
+const systemPrompt: OutputGenerator<SystemPromptData> = {
+  type: 'System Prompt',
+  instruction: "Produce a production system prompt for the user's task. Mark every value the operator must supply as {{variable_name}} and list those names in `variables`.",
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      system_prompt: { type: 'string', minLength: 1 },
+      variables: stringArray,
+    },
+    required: ['title', 'system_prompt', 'variables'],
+  },
+  validate: data => {
+    const used = new Set(Array.from(data.system_prompt.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1]));
+    return data.variables
+      .filter(name => !used.has(name))
+      .map(name => `Variable "${name}" is declared but never used in the prompt.`);
+  },
+  render: data => data.system_prompt,
+  toFile: data => ({ name: `${slugify(data.title, 'output')}.system.md`, content: data.system_prompt, mimeType: 'text/markdown' }),
+};
+
+// --- SKILLS FILE ---
+
+const SKILL_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const skillsFile: OutputGenerator<SkillsFileData> = {
+  type: 'Skills File',
+  instruction: "Produce an agent skill for the user's task. `name` is a short kebab-case identifier, `description` says what the skill does and when to use it, and `body` is the Markdown instructions the agent follows.",
+  schema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', maxLength: 64 },
+      description: { type: 'string', minLength: 1, maxLength: 1024 },
+      tags: stringArray,
+      body: { type: 'string', minLength: 1 },
+    },
+    required: ['name', 'description', 'tags', 'body'],
+  },
+  validate: data => SKILL_NAME_PATTERN.test(data.name) ? [] : [`Skill name "${data.name}" must be lowercase kebab-case.`],
+  // Front matter values are written as JSON strings, which YAML reads as double-quoted scalars
+  render: data => [
+    '---',
+    `name: ${data.name}`,
+    `description: ${JSON.stringify(data.description)}`,
+    ...(data.tags.length ? [`tags: [${data.tags.map(tag => JSON.stringify(tag)).join(', ')}]`] : []),
+    '---',
+    '',
+    data.body.trim(),
+    '',
+  ].join('\n'),
+  toFile: data => ({ name: `${slugify(data.name, 'output')}.SKILL.md`, content: skillsFile.render(data), mimeType: 'text/markdown' }),
+};
+
+// --- REASONING CHAIN ---
+
+const reasoningChain: OutputGenerator<ReasoningChainData> = {
+  type: 'Reasoning Chain',
+  instruction: "Break the user's task into an ordered chain of reasoning steps, each with the rationale for it, then give the final prompt that walks a model through the chain.",
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      steps: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: { step: { type: 'string' }, rationale: { type: 'string' } },
+          required: ['step', 'rationale'],
+        },
+      },
+      final_prompt: { type: 'string', minLength: 1 },
+    },
+    required: ['title', 'steps', 'final_prompt'],
+  },
+  validate: () => [],
+  render: data => [
+    `# ${data.title}`,
+    '',
+    ...data.steps.map((s, i) => `${i + 1}. ${s.step} — ${s.rationale}`),
+    '',
+    data.final_prompt,
+  ].join('\n'),
+};
+
+// --- EVAL RUBRIC ---
+
+// Every score any criterion defines, ascending; used as the table columns
+export const rubricScores = (data: EvalRubricData): number[] =>
+  Array.from(new Set(data.criteria.flatMap(c => c.levels.map(l => l.score)))).sort((a, b) => a - b);
+
+const evalRubric: OutputGenerator<EvalRubricData> = {
+  type: 'Eval Rubric',
+  instruction: "Produce a grading rubric for outputs of the user's task. Give 3-6 criteria whose weights (percent) sum to 100, each scored on the same 1-4 scale with a descriptor per level, and a weighted passing score on that scale.",
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      criteria: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            weight: { type: 'number', minimum: 0, maximum: 100 },
+            levels: {
+              type: 'array',
+              minItems: 2,
+              items: {
+                type: 'object',
+                properties: { score: { type: 'integer' }, descriptor: { type: 'string' } },
+                required: ['score', 'descriptor'],
+              },
+            },
+          },
+          required: ['name', 'description', 'weight', 'levels'],
+        },
+      },
+      passing_score: { type: 'number' },
+    },
+    required: ['title', 'criteria', 'passing_score'],
+  },
+  validate: data => {
+    const errors: string[] = [];
+    const totalWeight = data.criteria.reduce((sum, c) => sum + c.weight, 0);
+    if (Math.abs(totalWeight - 100) > 0.5) errors.push(`Criterion weights sum to ${totalWeight}, expected 100.`);
+    data.criteria.forEach(c => {
+      const scores = c.levels.map(l => l.score);
+      if (new Set(scores).size !== scores.length) errors.push(`Criterion "${c.name}" repeats a score level.`);
+    });
+    const scores = rubricScores(data);
+    if (scores.length && (data.passing_score < scores[0] || data.passing_score > scores[scores.length - 1])) {
+      errors.push(`Passing score ${data.passing_score} is outside the ${scores[0]}-${scores[scores.length - 1]} scale.`);
+    }
+    return errors;
+  },
+  render: data => {
+    const scores = rubricScores(data);
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    return [
+      `# ${data.title}`,
+      '',
+      `| Criterion | Weight | ${scores.join(' | ')} |`,
+      `| --- | --- | ${scores.map(() => '---').join(' | ')} |`,
+      ...data.criteria.map(c =>
+        `| **${cell(c.name)}** ${cell(c.description)} | ${c.weight}% | ${scores.map(s => cell(c.levels.find(l => l.score === s)?.descriptor || '')).join(' | ')} |`
+      ),
+      '',
+      `Passing score: ${data.passing_score}`,
+    ].join('\n');
+  },
+  toFile: data => ({ name: `${slugify(data.title, 'output')}.rubric.md`, content: evalRubric.render(data), mimeType: 'text/markdown' }),
+};
+
+// --- FINE-TUNING JSONL ---
+
+const FINE_TUNING_ROLES = ['system', 'user', 'assistant', 'tool'];
+export const MIN_FINE_TUNING_EXAMPLES = 10;
+
+// Checks JSONL text against the chat fine-tuning format: one object per line
+// with a `messages` array, known roles, non-empty content, at least one
+// assistant turn, and an optional 0/1 `weight` on assistant turns.
+export const validateJSONL = (jsonl: string): string[] => {
+  const errors: string[] = [];
+  const lines = jsonl.split('\n').map(line => line.trim());
+  let examples = 0;
+
+  lines.forEach((line, i) => {
+    if (!line) return;
+    const at = `Line ${i + 1}`;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      errors.push(`${at}: not valid JSON.`);
+      return;
+    }
+    examples++;
+    if (!record || typeof record !== 'object' || !Array.isArray(record.messages) || record.messages.length === 0) {
+      errors.push(`${at}: must be an object with a non-empty "messages" array.`);
+      return;
+    }
+    record.messages.forEach((m: any, j: number) => {
+      if (!FINE_TUNING_ROLES.includes(m?.role)) errors.push(`${at}: message ${j + 1} has unknown role ${JSON.stringify(m?.role)}.`);
+      const hasToolCalls = m?.role === 'assistant' && Array.isArray(m.tool_calls);
+      if (!hasToolCalls && (typeof m?.content !== 'string' || !m.content.trim())) errors.push(`${at}: message ${j + 1} has empty content.`);
+      if (m?.weight !== undefined && (m.role !== 'assistant' || (m.weight !== 0 && m.weight !== 1))) {
+        errors.push(`${at}: message ${j + 1} weight must be 0 or 1 on an assistant message.`);
+      }
+    });
+    if (!record.messages.some((m: any) => m?.role === 'assistant')) errors.push(`${at}: needs at least one assistant message.`);
+  });
+
+  if (examples < MIN_FINE_TUNING_EXAMPLES) errors.push(`Only ${examples} examples; fine-tuning needs at least ${MIN_FINE_TUNING_EXAMPLES}.`);
+  return errors;
+};
+
+const fineTuning: OutputGenerator<FineTuningData> = {
+  type: 'Fine-Tuning JSONL',
+  instruction: `Produce ${MIN_FINE_TUNING_EXAMPLES}-15 diverse chat fine-tuning examples for the user's task. Each example is a short conversation: an optional system message, then user and assistant turns, ending with the ideal assistant answer.`,
+  schema: {
+    type: 'object',
+    properties: {
+      examples: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            messages: {
+              type: 'array',
+              minItems: 2,
+              items: {
+                type: 'object',
+                properties: {
+                  role: { type: 'string', enum: ['system', 'user', 'assistant'] },
+                  content: { type: 'string' },
+                },
+                required: ['role', 'content'],
+              },
+            },
+          },
+          required: ['messages'],
+        },
+      },
+    },
+    required: ['examples'],
+  },
+  validate: data => validateJSONL(fineTuning.render(data)),
+  render: data => data.examples.map(example => JSON.stringify({ messages: example.messages })).join('\n'),
+  toFile: data => ({ name: 'training-data.jsonl', content: fineTuning.render(data), mimeType: 'application/jsonl' }),
+};
+
+// --- REGISTRY ---
+
+// 'Refined Prompt' has no generator: it stays on the streaming chat path
+const OUTPUT_GENERATORS: Partial<Record<OutputType, OutputGenerator<any>>> = {
+  'System Prompt': systemPrompt,
+  'Skills File': skillsFile,
+  'Reasoning Chain': reasoningChain,
+  'Eval Rubric': evalRubric,
+  'Fine-Tuning JSONL': fineTuning,
+};
+
+export const getOutputGenerator = (type: string): OutputGenerator<any> | undefined =>
+  OUTPUT_GENERATORS[type as OutputType];
+
+// The parsed data when it matched the generator's schema, else null
+export const structuredData = <T>(output: GeneratedOutput): T | null => {
+  const generator = getOutputGenerator(output.type);
+  if (!generator || output.data === null || validateSchema(generator.schema, output.data).length > 0) return null;
+  return output.data as T;
+};
+
+// Parses a raw model response. Schema errors skip the semantic checks and the
+// rendering, in which case the raw response is kept as the message text.
+export const parseOutput = (generator: OutputGenerator<any>, raw: string): { output: GeneratedOutput; text: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripFences(raw));
+  } catch {
+    return { output: { type: generator.type, data: null, errors: ['Response is not valid JSON.'] }, text: raw };
+  }
+  const schemaErrors = validateSchema(generator.schema, data);
+  if (schemaErrors.length > 0) return { output: { type: generator.type, data, errors: schemaErrors }, text: raw };
+  return { output: { type: generator.type, data, errors: generator.validate(data) }, text: generator.render(data) };
+};
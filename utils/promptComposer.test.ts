@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Topic } from '../types';
+import { composePrompt, formatParameters, toFragments } from './promptComposer';
+
+const topic = (symbol: string, category: string = Category.UNIVERSAL, usage = ''): Topic =>
+  ({ symbol, element: `Element ${symbol}`, category, description: '', usage });
+
+describe('composePrompt', () => {
+  it('puts the task first and leaves a placeholder when there is none', () => {
+    expect(composePrompt([]).text).toBe('## Task\n{{task}}');
+    expect(composePrompt([topic('Ro'), topic('Cl')], { task: '  Summarise the notes.  ' }).text).toBe([
+      '## Role\nYou are {{role}}.',
+      '## Task\nSummarise the notes.',
+      '## Instructions\n- State exactly what is required. Be explicit about constraints and do not add anything that was not asked for.',
+    ].join('\n\n'));
+  });
+
+  it('switches to XML tags with Xml and moves the task last with Cx', () => {
+    const { text } = composePrompt([topic('Xml'), topic('Cx')], { task: 'Answer.', techStack: ['React'] });
+    expect(text).toBe('<context>\nTech stack: React\n\n{{context}}\n</context>\n\n<task>\nAnswer.\n</task>');
+  });
+
+  it('lists each section line once even when several elements add it', () => {
+    const { text } = composePrompt([topic('Uc'), topic('Uc')]);
+    expect(text.match(/insufficient/g)).toHaveLength(1);
+  });
+
+  it('uses the usage line for elements without a rule, as reasoning for bulletin categories', () => {
+    expect(toFragments(topic('Zz', Category.UNIVERSAL, 'Do the thing.'))).toEqual([
+      { symbol: 'Zz', kind: 'instructions', text: 'Element Zz: Do the thing.' },
+    ]);
+    expect(toFragments(topic('Zz', Category.COMMAND, 'Do the thing.'))[0].kind).toBe('reasoning');
+  });
+
+  it('picks the temperature from the target model and the task', () => {
+    const temperature = (options: Parameters<typeof composePrompt>[1]) => composePrompt([topic('Tmp')], options).parameters[0].value;
+    expect(temperature({ targetModel: 'Gemini 3.0 Pro', task: 'Fix this bug' })).toBe(1.0);
+    expect(temperature({ task: 'Refactor the parser' })).toBe(0.2);
+    expect(temperature({ techStack: ['Go'] })).toBe(0.2);
+    expect(temperature({ task: 'Write a poem' })).toBe(0.7);
+  });
+
+  it('accumulates tools, lets later parameters win and returns the prefill', () => {
+    const { parameters, prefill } = composePrompt([topic('Cf'), topic('Gs'), topic('Lm'), topic('Qw'), topic('Pf')]);
+    expect(parameters).toEqual([
+      { name: 'tools', value: ['code_execution', 'google_search'] },
+      { name: 'chat_template', value: 'chatml', note: 'Wrap turns in <|im_start|> / <|im_end|>' },
+    ]);
+    expect(prefill).toBe('{');
+  });
+});
+
+describe('formatParameters', () => {
+  it('writes one JSON assignment per line with its note', () => {
+    expect(formatParameters([{ name: 'temperature', value: 0.2, note: 'Low' }, { name: 'tools', value: ['a'] }]))
+      .toBe('temperature = 0.2  // Low\ntools = ["a"]');
+  });
+});
@@ -0,0 +1,187 @@
+import { Topic } from '../types';
+import { categoryRegistry } from './categoryRegistry';
+
+// Offline prompt assembly: every selected Topic contributes a typed fragment and
+// the fragments are laid out in a fixed section order. No model is involved, so
+// the same selection always yields the same template.
+
+export type SectionKind = 'role' | 'context' | 'task' | 'instructions' | 'reasoning' | 'examples' | 'format';
+
+export interface PromptParameter {
+  name: string;
+  value: string | number | boolean | string[] | Record<string, unknown>;
+  note?: string;
+}
+
+export type PromptFragment =
+  | { symbol: string; kind: SectionKind; text: string }
+  | { symbol: string; kind: 'parameter'; parameter: PromptParameter }
+  | { symbol: string; kind: 'prefill'; text: string }
+  | { symbol: string; kind: 'structure' }; // Changes layout only (Xml, Cx)
+
+export interface ComposeOptions {
+  task?: string;
+  targetModel?: string;
+  techStack?: string[];
+  outputType?: string;
+}
+
+export interface ComposedPrompt {
+  text: string; // Ready-to-use prompt template
+  prefill?: string; // Assistant prefill, for APIs that support it
+  parameters: PromptParameter[];
+  fragments: PromptFragment[];
+}
+
+const SECTION_TITLES: Record<SectionKind, string> = {
+  role: 'Role',
+  context: 'Context',
+  task: 'Task',
+  instructions: 'Instructions',
+  reasoning: 'Reasoning',
+  examples: 'Examples',
+  format: 'Output Format',
+};
+
+// Default layout puts the query up front; Cx moves it after the context material.
+const DEFAULT_ORDER: SectionKind[] = ['role', 'task', 'context', 'instructions', 'reasoning', 'examples', 'format'];
+const CONTEXT_FIRST_ORDER: SectionKind[] = ['role', 'context', 'instructions', 'reasoning', 'examples', 'format', 'task'];
+
+const isCodeTask = (options: ComposeOptions) =>
+  (options.techStack?.length || 0) > 0 || /\b(code|function|bug|refactor|extract|parse|sql|api)\b/i.test(options.task || '');
+
+const pickTemperature = (options: ComposeOptions): PromptParameter => {
+  if (options.targetModel?.startsWith('Gemini 3')) {
+    return { name: 'temperature', value: 1.0, note: 'Gemini 3 is tuned for exactly 1.0' };
+  }
+  if (isCodeTask(options)) return { name: 'temperature', value: 0.2, note: 'Low randomness for code / extraction' };
+  return { name: 'temperature', value: 0.7, note: 'General-purpose default' };
+};
+
+type FragmentRule = (topic: Topic, options: ComposeOptions) => PromptFragment[];
+
+const section = (symbol: string, kind: SectionKind, text: string): PromptFragment => ({ symbol, kind, text });
+const param = (symbol: string, parameter: PromptParameter): PromptFragment => ({ symbol, kind: 'parameter', parameter });
+
+const FRAGMENT_RULES: Record<string, FragmentRule> = {
+  // Universal
+  Cl: t => [section(t.symbol, 'instructions', 'State exactly what is required. Be explicit about constraints and do not add anything that was not asked for.')],
+  Xml: t => [{ symbol: t.symbol, kind: 'structure' }],
+  Fs: t => [section(t.symbol, 'examples', [1, 2].map(n => `Input: {{example_input_${n}}}\nOutput: {{example_output_${n}}}`).join('\n\n'))],
+  Tmp: (t, options) => [param(t.symbol, pickTemperature(options))],
+  Cx: t => [{ symbol: t.symbol, kind: 'structure' }, section(t.symbol, 'context', '{{context}}')],
+
+  // Gemini
+  Gm: t => [param(t.symbol, { name: 'thinking_level', value: 'high' })],
+  Mc: t => [
+    section(t.symbol, 'context', '{{documents}}'),
+    section(t.symbol, 'instructions', 'Use the full material provided and cite the section you rely on for each claim.'),
+  ],
+  Cf: t => [param(t.symbol, { name: 'tools', value: ['code_execution'] })],
+  Gs: t => [param(t.symbol, { name: 'tools', value: ['google_search'] })],
+
+  // OpenAI
+  So: t => [
+    section(t.symbol, 'format', 'Respond with JSON that matches this schema exactly:\n{{json_schema}}'),
+    param(t.symbol, { name: 'response_format', value: { type: 'json_schema' } }),
+  ],
+  O1: t => [section(t.symbol, 'reasoning', 'Reason internally. Do not write out step-by-step thinking; return only the final answer.')],
+  Ag: t => [section(t.symbol, 'instructions', "You are an agent. Keep going until the user's query is completely resolved before ending your turn.")],
+
+  // Claude
+  Th: t => [
+    section(t.symbol, 'reasoning', 'Think hard about this problem before answering, and explain your reasoning step by step.'),
+    param(t.symbol, { name: 'thinking', value: { type: 'enabled', budget_tokens: 8000 } }),
+  ],
+  Pf: t => [{ symbol: t.symbol, kind: 'prefill', text: '{' }],
+  Uc: t => [section(t.symbol, 'instructions', 'If the information provided is insufficient, say so rather than speculating.')],
+  Op: t => [section(t.symbol, 'instructions', 'Only make changes that are directly requested. Do not add features, abstractions or refactors.')],
+
+  // Grok
+  Gk: t => [section(t.symbol, 'instructions', 'Use real-time X posts and breaking news where relevant, and date every source.')],
+  Ro: t => [section(t.symbol, 'role', 'You are {{role}}.')],
+
+  // Perplexity
+  Px: t => [param(t.symbol, { name: 'search_mode', value: 'academic' })],
+  Sf: t => [param(t.symbol, { name: 'search_domain_filter', value: ['{{domain}}'] })],
+
+  // OpenSource
+  Lm: t => [param(t.symbol, { name: 'chat_template', value: 'llama', note: 'Render with tokenizer.apply_chat_template()' })],
+  Qw: t => [param(t.symbol, { name: 'chat_template', value: 'chatml', note: 'Wrap turns in <|im_start|> / <|im_end|>' })],
+
+  // Commands
+  Ps: t => [section(t.symbol, 'role', 'You are {{role}}, an expert in {{domain}}. Tone: {{tone}}.')],
+  Pl: t => [section(t.symbol, 'reasoning', 'Before executing, write a plan: 1) decompose the goal into sub-tasks, 2) identify gaps and dependencies, 3) list the execution steps.')],
+  Rv: t => [section(t.symbol, 'instructions', 'After drafting, review the answer for accuracy, completeness and edge cases, and fix anything that fails.')],
+  Fm: t => [section(t.symbol, 'format', 'Structure: {{format}}. Length: {{length}}. Style: {{style}}.')],
+  Di: t => [section(t.symbol, 'instructions', 'Propose 3 distinct approaches with their trade-offs before recommending one.')],
+  Cr: t => [section(t.symbol, 'instructions', 'Review the code for correctness, security and performance. For each issue: quote the code, explain the risk, give the fix.')],
+  Rs: t => [section(t.symbol, 'reasoning', 'Investigate in three stages: core question → evidence with sources → synthesis.')],
+
+  // Media
+  Vid: t => [section(t.symbol, 'format', 'Camera: {{camera_motion}} | Lighting: {{lighting}} | Subject: {{subject_action}}')],
+  Aud: t => [section(t.symbol, 'format', 'Genre: {{genre}} | BPM: {{bpm}} | Instruments: {{instruments}} | Mood: {{mood}}')],
+  Vox: t => [section(t.symbol, 'format', 'Emotion: {{emotion}} | Pauses: {{pauses}} | Speed: {{speed}} | Accent: {{accent}}')],
+};
+
+// Elements without a dedicated rule contribute their usage line as an instruction.
+const fallbackRule: FragmentRule = t => {
+  const kind: SectionKind = categoryRegistry.groupOf(t.category) === 'bulletin' ? 'reasoning' : 'instructions';
+  return [section(t.symbol, kind, `${t.element}: ${t.usage}`)];
+};
+
+export const toFragments = (topic: Topic, options: ComposeOptions = {}): PromptFragment[] =>
+  (FRAGMENT_RULES[topic.symbol] || fallbackRule)(topic, options);
+
+const renderSection = (kind: SectionKind, body: string, useXml: boolean) =>
+  useXml
+    ? `<${kind}>\n${body}\n</${kind}>`
+    : `## ${SECTION_TITLES[kind]}\n${body}`;
+
+export const composePrompt = (topics: Topic[], options: ComposeOptions = {}): ComposedPrompt => {
+  const fragments = topics.flatMap(t => toFragments(t, options));
+  const symbols = new Set(topics.map(t => t.symbol));
+  const useXml = symbols.has('Xml');
+  const order = symbols.has('Cx') ? CONTEXT_FIRST_ORDER : DEFAULT_ORDER;
+
+  const sections = new Map<SectionKind, string[]>();
+  const push = (kind: SectionKind, text: string) => {
+    const list = sections.get(kind) || [];
+    if (!list.includes(text)) list.push(text);
+    sections.set(kind, list);
+  };
+
+  push('task', options.task?.trim() || '{{task}}');
+  if (options.techStack?.length) push('context', `Tech stack: ${options.techStack.join(', ')}`);
+  fragments.forEach(f => {
+    if (f.kind !== 'parameter' && f.kind !== 'prefill' && f.kind !== 'structure') push(f.kind, f.text);
+  });
+
+  const body = order
+    .filter(kind => sections.has(kind))
+    .map(kind => {
+      const items = sections.get(kind)!;
+      const text = kind === 'instructions' || kind === 'reasoning'
+        ? items.map(item => `- ${item}`).join('\n')
+        : items.join('\n\n');
+      return renderSection(kind, text, useXml);
+    })
+    .join('\n\n');
+
+  // Later fragments win when two elements set the same parameter, except tools which accumulate
+  const parameters: PromptParameter[] = [];
+  fragments.forEach(f => {
+    if (f.kind !== 'parameter') return;
+    const existing = parameters.find(p => p.name === f.parameter.name);
+    if (!existing) parameters.push({ ...f.parameter });
+    else if (Array.isArray(existing.value) && Array.isArray(f.parameter.value)) existing.value = [...existing.value, ...f.parameter.value];
+    else Object.assign(existing, f.parameter);
+  });
+
+  const prefill = fragments.find(f => f.kind === 'prefill') as { text: string } | undefined;
+
+  return { text: body, prefill: prefill?.text, parameters, fragments };
+};
+
+export const formatParameters = (parameters: PromptParameter[]): string =>
+  parameters.map(p => `${p.name} = ${JSON.stringify(p.value)}${p.note ? `  // ${p.note}` : ''}`).join('\n');
@@ -0,0 +1,190 @@
+import { Recipe } from '../types';
+import { JSONSchema } from './llm';
+import { validateSchema } from './jsonSchema';
+import { RecordStore } from './db';
+import { updateHash } from './urlState';
+import { slugify } from './fileNames';
+
+// Recipes: named element combinations with the builder configuration they
+// were saved with. User recipes are stored locally; the curated starters ship
+// with the app. Both travel as JSON files or as a link with the recipe in the
+// URL hash.
+
+export const RECIPE_FORMAT = 'periodic-table-recipe';
+export const RECIPE_FORMAT_VERSION = 1;
+
+// Hash parameter carrying a shared recipe: #recipe=<base64url JSON>
+const LINK_PARAM = 'recipe';
+
+// The part of the builder state a recipe captures
+export type RecipeSetup = Pick<Recipe, 'symbols' | 'selectedTech' | 'targetModel' | 'outputType'>;
+
+export const recipeStore = new RecordStore<Recipe>('recipes');
+
+export const createRecipeId = () => `recipe-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class RecipeImportError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
+
+const starter = (id: string, recipe: Omit<Recipe, 'id' | 'createdAt' | 'updatedAt' | 'curated'>): Recipe =>
+  ({ ...recipe, id: `starter-${id}`, createdAt: 0, updatedAt: 0, curated: true });
+
+export const CURATED_RECIPES: Recipe[] = [
+  starter('agentic-coding', {
+    name: 'Agentic Coding',
+    description: 'A coding agent that plans before editing, reviews its own diff and keeps changes minimal.',
+    tags: ['coding', 'agents'],
+    symbols: ['Th', 'Pl', 'Rv', 'Cr', 'Op', 'Xml'],
+    selectedTech: ['TypeScript', 'React', 'Node.js'],
+    targetModel: 'Claude 4 Opus',
+    outputType: 'System Prompt',
+  }),
+  starter('rag-research', {
+    name: 'RAG Research',
+    description: 'Research over retrieved and live sources, with citations and explicit uncertainty.',
+    tags: ['research', 'rag'],
+    symbols: ['Gs', 'Rs', 'Uc', 'Cx', 'Mc', 'Xml'],
+    selectedTech: ['Python', 'PostgreSQL'],
+    targetModel: 'Gemini 3.0 Pro',
+    outputType: 'Refined Prompt',
+  }),
+  starter('structured-extraction', {
+    name: 'Structured Extraction',
+    description: 'Pull fields out of messy text into a fixed JSON shape, anchored by a few examples.',
+    tags: ['data', 'json'],
+    symbols: ['So', 'Fm', 'Fs', 'Xml', 'Cl'],
+    selectedTech: ['Python'],
+    targetModel: 'GPT-5 (Preview)',
+    outputType: 'System Prompt',
+  }),
+  starter('deep-reasoning', {
+    name: 'Deep Reasoning',
+    description: 'Multi-step analysis that plans, checks its own work and says what it is unsure about.',
+    tags: ['reasoning', 'analysis'],
+    symbols: ['O1', 'Pl', 'Rv', 'Uc', 'Cl'],
+    selectedTech: [],
+    targetModel: 'GPT-5 (Preview)',
+    outputType: 'Reasoning Chain',
+  }),
+  starter('brainstorm', {
+    name: 'Brainstorm',
+    description: 'Several distinct ideas from a defined persona, then a critique to pick the strongest.',
+    tags: ['creative', 'ideation'],
+    symbols: ['Ps', 'Di', 'Tmp', 'Rv'],
+    selectedTech: [],
+    targetModel: 'Gemini 2.5 Flash',
+    outputType: 'Refined Prompt',
+  }),
+];
+
+// --- FORMAT ---
+
+const TEXT = { type: 'string' };
+const TEXT_LIST = { type: 'array', items: TEXT };
+
+const RECIPE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: [RECIPE_FORMAT] },
+    formatVersion: { type: 'integer', minimum: 1 },
+    recipe: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 60 },
+        description: TEXT,
+        tags: TEXT_LIST,
+        symbols: { type: 'array', minItems: 1, items: TEXT },
+        selectedTech: TEXT_LIST,
+        targetModel: TEXT,
+        outputType: TEXT,
+      },
+      required: ['name', 'symbols'],
+    },
+  },
+  required: ['format', 'formatVersion', 'recipe'],
+};
+
+export const recipeFileName = (recipe: Recipe) => `${slugify(recipe.name, 'recipe')}.recipe.json`;
+
+// Only the shareable fields travel; ids and timestamps are assigned on import
+const toPayload = ({ name, description, tags, symbols, selectedTech, targetModel, outputType }: Recipe) => ({
+  format: RECIPE_FORMAT,
+  formatVersion: RECIPE_FORMAT_VERSION,
+  recipe: { name, description, tags, symbols, selectedTech, targetModel, outputType },
+});
+
+export const toRecipeJSON = (recipe: Recipe): string => JSON.stringify(toPayload(recipe), null, 2);
+
+// Tags are compared lowercase, so "RAG" and "rag" are one tag
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean))];
+
+// Lines for the UI: the message plus the first few validation problems
+export const describeRecipeError = (e: unknown): string[] =>
+  e instanceof RecipeImportError ? [e.message, ...e.errors.slice(0, 3)] : [(e as Error | undefined)?.message || "Import failed."];
+
+// Parses and validates a recipe file. The result gets a fresh id so importing
+// never overwrites a local recipe.
+export const parseRecipe = (text: string): Recipe => {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new RecipeImportError("Not valid JSON.");
+  }
+
+  const errors = validateSchema(RECIPE_SCHEMA, payload);
+  if (errors.length) throw new RecipeImportError("Not a valid recipe.", errors);
+  if (payload.formatVersion > RECIPE_FORMAT_VERSION) {
+    throw new RecipeImportError(`Unsupported recipe version: ${payload.formatVersion}.`);
+  }
+
+  const { recipe } = payload;
+  const now = Date.now();
+  return {
+    id: createRecipeId(),
+    name: recipe.name.trim(),
+    description: recipe.description || '',
+    tags: normalizeTags(recipe.tags || []),
+    symbols: [...new Set<string>(recipe.symbols)],
+    selectedTech: recipe.selectedTech || [],
+    targetModel: recipe.targetModel || 'Gemini 3.0 Pro',
+    outputType: recipe.outputType || 'Refined Prompt',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// --- LINKS ---
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0)));
+
+export const recipeLink = (recipe: Recipe): string => {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}#${LINK_PARAM}=${toBase64Url(JSON.stringify(toPayload(recipe)))}`;
+};
+
+// Reads a shared recipe from a location hash; null when the hash carries none
+export const readRecipeLink = (hash: string): Recipe | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(LINK_PARAM);
+  if (!encoded) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    throw new RecipeImportError("The recipe link is damaged.");
+  }
+  return parseRecipe(text);
+};
+
+export const hasRecipeLink = (hash: string) => new URLSearchParams(hash.replace(/^#/, '')).has(LINK_PARAM);
+
+export const clearRecipeLink = () => updateHash(params => params.delete(LINK_PARAM));
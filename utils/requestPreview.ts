@@ -0,0 +1,34 @@
+import { InstructionOverride } from '../types';
+import { ChatOptions, JSONRequest, MessageInput } from './llm';
+
+// The request the builder's next send will hand to a provider, as shown in the
+// payload panel. PromptBuilder builds these with the same helpers it sends with.
+
+export type RequestPreview =
+  | {
+      kind: 'chat';
+      modelLabel: string;
+      providerLabel: string;
+      chat: ChatOptions; // History included: replayed into a new chat, or the live chat's so far
+      message: MessageInput;
+      liveChat: boolean; // The open chat is reused; its instruction was fixed when it started
+    }
+  | {
+      kind: 'structured';
+      modelLabel: string;
+      providerLabel: string;
+      request: JSONRequest;
+      outputType: string;
+    };
+
+export const applyInstructionOverride = (generated: string, override?: InstructionOverride | null): string => {
+  if (!override?.text.trim()) return generated;
+  return override.mode === 'replace' ? override.text : `${generated}\n\n${override.text}`;
+};
+
+// Image data URLs would swamp the view; they are shown by size instead
+const withoutImageData = (key: string, value: unknown) =>
+  key === 'image' && typeof value === 'string' ? `<image, ${Math.round(value.length / 1024)} KB>` : value;
+
+export const previewJSON = (preview: RequestPreview): string =>
+  JSON.stringify(preview.kind === 'chat' ? { ...preview.chat, message: preview.message } : preview.request, withoutImageData, 2);
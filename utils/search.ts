@@ -0,0 +1,262 @@
+import { Topic } from '../types';
+
+// Search behind the command palette. Fuzzy matching covers typos and partial
+// words across every text field of an element; the optional semantic index
+// adds related-concept matches ("reduce hallucinations" -> Grounding,
+// Uncertainty) without calling a model, so it works offline and costs nothing.
+
+export interface SearchResult {
+  topic: Topic;
+  score: number;
+  field: string; // Where the best match was, e.g. 'Description'
+  snippet: string;
+  related?: boolean; // Found by the semantic index only
+}
+
+interface SearchField {
+  label: string;
+  weight: number;
+  text: (topic: Topic) => string;
+}
+
+const detailText = (topic: Topic) => {
+  const d = topic.details;
+  if (!d) return '';
+  return [
+    d.title, d.subtitle, d.body, d.critical_note,
+    ...(d.best_practices || []),
+    ...(d.examples || []).map(e => e.content),
+    ...(d.when_to_use || []).map(w => `${w.description || ''} ${w.use_cases || ''}`),
+    ...(d.thinking_levels || []).map(t => `${t.keyword} ${t.description}`),
+  ].filter(Boolean).join(' \n ');
+};
+
+const FIELDS: SearchField[] = [
+  { label: 'Symbol', weight: 6, text: t => t.symbol },
+  { label: 'Name', weight: 5, text: t => t.element },
+  { label: 'Category', weight: 2, text: t => t.category },
+  { label: 'Description', weight: 3, text: t => t.description },
+  { label: 'Usage', weight: 2, text: t => t.usage },
+  { label: 'Details', weight: 1, text: detailText },
+];
+
+const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Optimal string alignment distance, stopping early once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) row[j] = Math.min(row[j], prev2[j - 2] + 1);
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const typoAllowance = (term: string) => term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+// 0..1 for how well one query term matches one word of the text
+const termScore = (term: string, word: string): number => {
+  if (word === term) return 1;
+  if (word.startsWith(term)) return 0.8;
+  if (term.length >= 3 && word.includes(term)) return 0.6;
+  const allowed = typoAllowance(term);
+  if (allowed === 0) return 0;
+  // Compare against the word's prefix too, so typos in partial words still match
+  const distance = Math.min(editDistance(term, word, allowed), editDistance(term, word.slice(0, term.length), allowed));
+  return distance <= allowed ? 0.5 - distance * 0.1 : 0;
+};
+
+// Letters in order, for abbreviations like "fs" -> "Few-Shot"; short fields only
+const subsequenceScore = (term: string, text: string): number => {
+  const target = text.toLowerCase();
+  let at = 0;
+  for (const ch of term) {
+    at = target.indexOf(ch, at);
+    if (at < 0) return 0;
+    at++;
+  }
+  return 0.3;
+};
+
+const snippetAround = (text: string, term: string, radius = 60): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const at = flat.toLowerCase().indexOf(term);
+  if (at < 0 || flat.length <= radius * 2) return flat.slice(0, radius * 2);
+  const start = Math.max(0, at - radius);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, at + term.length + radius)}${at + term.length + radius < flat.length ? '…' : ''}`;
+};
+
+interface FieldMatch {
+  score: number;
+  field: SearchField;
+  word: string;
+}
+
+const bestMatch = (term: string, topic: Topic, fieldWords: string[][]): FieldMatch | null => {
+  let best: FieldMatch | null = null;
+  FIELDS.forEach((field, i) => {
+    let score = 0;
+    let matched = '';
+    for (const word of fieldWords[i]) {
+      const s = termScore(term, word);
+      if (s > score) {
+        score = s;
+        matched = word;
+        if (s === 1) break;
+      }
+    }
+    if (score === 0 && field.weight >= 5) score = subsequenceScore(term, field.text(topic));
+    const weighted = score * field.weight;
+    if (weighted > 0 && (!best || weighted > best.score)) best = { score: weighted, field, word: matched || term };
+  });
+  return best;
+};
+
+const MAX_FIELD_SCORE = Math.max(...FIELDS.map(f => f.weight));
+
+// Every query term has to match somewhere; the score is the mean best match, 0..1
+export const fuzzySearch = (topics: Topic[], query: string): SearchResult[] => {
+  const terms = words(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  topics.forEach(topic => {
+    const fieldWords = FIELDS.map(f => words(f.text(topic)));
+    const matches = terms.map(term => bestMatch(term, topic, fieldWords));
+    if (matches.some(m => !m)) return;
+    const found = matches as FieldMatch[];
+    const score = found.reduce((sum, m) => sum + m.score, 0) / (terms.length * MAX_FIELD_SCORE);
+    const lead = found.reduce((a, b) => b.score > a.score ? b : a);
+    results.push({ topic, score, field: lead.field.label, snippet: snippetAround(lead.field.text(topic), lead.word) });
+  });
+  return results.sort((a, b) => b.score - a.score);
+};
+
+// --- SEMANTIC INDEX ---
+
+// Related prompt-engineering vocabulary; words sharing a group land on a
+// shared dimension, so a query can match an element that uses none of its words.
+const CONCEPTS: string[][] = [
+  ['hallucinat', 'fabricat', 'accura', 'factual', 'fact', 'ground', 'citation', 'cite', 'source', 'verif', 'evidence', 'truth', 'uncertain', 'know', 'reliab', 'validat'],
+  ['reason', 'think', 'step', 'logic', 'deliberat', 'chain', 'complex', 'problem', 'math', 'deep'],
+  ['plan', 'decompos', 'break', 'subtask', 'task', 'objective', 'goal', 'orchestrat', 'agent', 'persist', 'autonom'],
+  ['format', 'structur', 'json', 'schema', 'xml', 'markdown', 'table', 'template', 'output', 'pars', 'tag', 'prefill'],
+  ['role', 'persona', 'expert', 'tone', 'style', 'voice', 'character', 'act'],
+  ['example', 'shot', 'demonstrat', 'sample', 'pattern'],
+  ['context', 'document', 'retriev', 'long', 'window', 'token', 'memory', 'input'],
+  ['creativ', 'brainstorm', 'idea', 'divers', 'altern', 'approach', 'random', 'temperatur', 'variet', 'option'],
+  ['concise', 'brief', 'short', 'clear', 'clarity', 'direct', 'explicit', 'simpl', 'focus', 'precise'],
+  ['code', 'program', 'python', 'debug', 'bug', 'function', 'execut', 'engineer', 'secur', 'performance'],
+  ['review', 'critiqu', 'check', 'correct', 'self', 'feedback', 'evaluat', 'edge', 'complete', 'quality', 'mistake', 'error'],
+  ['search', 'web', 'realtime', 'real', 'current', 'news', 'research', 'academic', 'filter', 'domain', 'data'],
+  ['video', 'camera', 'film', 'motion', 'light', 'scene', 'visual', 'image'],
+  ['audio', 'sound', 'music', 'bpm', 'instrument', 'mood', 'sfx'],
+  ['speech', 'tts', 'prosody', 'emotion', 'accent', 'pause', 'spoken', 'narrat'],
+  ['speed', 'latency', 'fast', 'cost', 'cheap', 'efficien', 'throughput', 'budget'],
+];
+
+const HASH_DIMENSIONS = 1024;
+const CONCEPT_WEIGHT = 2;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'use', 'using', 'into', 'your', 'you', 'are', 'can', 'not', 'all', 'any', 'how', 'what', 'find', 'technique', 'techniques', 'element', 'want', 'need']);
+
+// Crude suffix stripping; enough to fold plurals and verb forms together
+const stem = (word: string) => word.length > 4 ? word.replace(/(ations?|ings?|ers?|ed|es|s|ly)$/, '') : word;
+
+const hashWord = (word: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < word.length; i++) h = Math.imul(h ^ word.charCodeAt(i), 16777619);
+  return (h >>> 0) % HASH_DIMENSIONS;
+};
+
+type Vector = Map<number, number>;
+
+const contentWords = (text: string) => words(text).filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+const normalize = (vector: Vector): Vector => {
+  const length = Math.sqrt([...vector.values()].reduce((sum, v) => sum + v * v, 0));
+  if (length > 0) vector.forEach((v, k) => vector.set(k, v / length));
+  return vector;
+};
+
+const cosine = (a: Vector, b: Vector) => {
+  let dot = 0;
+  a.forEach((v, k) => { dot += v * (b.get(k) || 0); });
+  return dot;
+};
+
+const documentText = (topic: Topic) => [topic.element, topic.category, topic.description, topic.usage, detailText(topic)].join(' ');
+
+// Bag-of-words vectors (TF-IDF over hashed stems) plus one dimension per
+// concept group. Rebuilt whenever the set of elements changes; it is small.
+export class SemanticIndex {
+  private constructor(
+    private entries: { topic: Topic; vector: Vector }[],
+    private idf: Map<string, number>,
+    private size: number
+  ) {}
+
+  static build(topics: Topic[]): SemanticIndex {
+    const docs = topics.map(topic => ({ topic, words: contentWords(documentText(topic)) }));
+    const counts = new Map<string, number>();
+    docs.forEach(doc => new Set(doc.words.map(stem)).forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+    const idf = new Map([...counts].map(([term, n]) => [term, Math.log(1 + docs.length / n)]));
+    const index = new SemanticIndex([], idf, docs.length);
+    index.entries = docs.map(doc => ({ topic: doc.topic, vector: index.vectorize(doc.words) }));
+    return index;
+  }
+
+  private vectorize(terms: string[]): Vector {
+    const vector: Vector = new Map();
+    const add = (dim: number, weight: number) => vector.set(dim, (vector.get(dim) || 0) + weight);
+    const unseenIdf = Math.log(1 + this.size);
+    terms.forEach(word => {
+      const term = stem(word);
+      add(hashWord(term), this.idf.get(term) ?? unseenIdf);
+      // Concept roots are matched on the whole word; stemming can cut into them
+      CONCEPTS.forEach((group, i) => {
+        if (group.some(root => word.startsWith(root))) add(HASH_DIMENSIONS + i, CONCEPT_WEIGHT);
+      });
+    });
+    return normalize(vector);
+  }
+
+  // Similarity 0..1 per element, best first; weak matches are dropped
+  search(query: string, minScore = 0.12): { topic: Topic; score: number }[] {
+    const vector = this.vectorize(contentWords(query));
+    if (vector.size === 0) return [];
+    return this.entries
+      .map(({ topic, vector: v }) => ({ topic, score: cosine(vector, v) }))
+      .filter(r => r.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+// Fuzzy matches first; with an index, related elements are blended in and
+// strong fuzzy hits that are also semantically close move up.
+export const searchTopics = (topics: Topic[], query: string, index?: SemanticIndex | null, limit = 20): SearchResult[] => {
+  if (!query.trim()) {
+    return topics.slice(0, limit).map(topic => ({ topic, score: 0, field: '', snippet: topic.description }));
+  }
+  const fuzzy = fuzzySearch(topics, query);
+  if (!index) return fuzzy.slice(0, limit);
+
+  const bySymbol = new Map(fuzzy.map(r => [r.topic.symbol, r]));
+  index.search(query).forEach(({ topic, score }) => {
+    const existing = bySymbol.get(topic.symbol);
+    if (existing) existing.score += score / 2;
+    else bySymbol.set(topic.symbol, { topic, score: score / 2, field: 'Related', snippet: topic.description, related: true });
+  });
+  return [...bySymbol.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+};
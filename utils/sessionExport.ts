@@ -0,0 +1,248 @@
+import { BuilderSession, BuilderMessage, PlanData, Topic } from '../types';
+import { createSessionId } from './sessionStore';
+import { formatCost } from './llm';
+import { slugify } from './fileNames';
+
+export const SESSION_EXPORT_FORMAT = 'periodic-table-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type ExportElement = Pick<Topic, 'symbol' | 'element' | 'category' | 'description' | 'usage'>;
+
+// Versioned envelope written by toJSON and embedded in the HTML report.
+// Bump SESSION_EXPORT_VERSION and extend migrate() when the shape changes.
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  elements: ExportElement[];
+  session: BuilderSession;
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+const toElements = (topics: Topic[]): ExportElement[] =>
+  topics.map(({ symbol, element, category, description, usage }) => ({ symbol, element, category, description, usage }));
+
+// Half-streamed bubbles are transient UI state, not part of the record
+const exportableMessages = (session: BuilderSession): BuilderMessage[] =>
+  session.messages.filter(m => !m.isStreaming);
+
+export const exportFileName = (session: BuilderSession, extension: string) => `${slugify(session.name, 'session')}.${extension}`;
+
+// --- JSON ---
+
+export const toJSON = (session: BuilderSession, topics: Topic[]): string => {
+  const payload: SessionExport = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    elements: toElements(topics),
+    session: { ...session, messages: exportableMessages(session) },
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+// --- MARKDOWN ---
+
+const planToMarkdown = (plan: PlanData) => [
+  `**Plan: ${plan.title}**`,
+  '',
+  ...plan.steps.map((step, i) => `${i + 1}. **${step.label}** _(${step.type})_${step.details ? ` — ${step.details}` : ''}`),
+].join('\n');
+
+export const toMarkdown = (session: BuilderSession, topics: Topic[]): string => {
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    `_Exported ${new Date().toLocaleString()}_`,
+    '',
+    '## Configuration',
+    '',
+    `- **Target Model:** ${session.targetModel}`,
+    `- **Output Type:** ${session.outputType}`,
+    `- **Stack:** ${session.selectedTech.join(', ') || 'None'}`,
+    ...(session.usage?.requests
+      ? [`- **Cost:** ${formatCost(session.usage.cost)} over ${session.usage.requests} requests${session.budget != null ? ` (cap ${formatCost(session.budget)})` : ''}`]
+      : []),
+    '',
+    ...(session.instructionOverride
+      ? [`## Pinned System Instruction (${session.instructionOverride.mode === 'replace' ? 'replaces' : 'appended to'} the generated one)`, '', '```', session.instructionOverride.text, '```', '']
+      : []),
+    '## Elements',
+    '',
+  ];
+
+  if (topics.length === 0) lines.push('_None selected_', '');
+  topics.forEach(t => {
+    lines.push(`### ${t.symbol} — ${t.element} (${t.category})`, '', t.description, '', `\`${t.usage}\``, '');
+  });
+
+  lines.push('## Conversation', '');
+  exportableMessages(session).forEach(m => {
+    lines.push(`### ${m.role === 'user' ? 'User' : 'Model'}${m.isPartial ? ' (partial)' : ''}`, '');
+    if (m.image) lines.push(`![${m.role === 'user' ? 'Refinement' : 'Infographic'}](${m.image})`, '');
+    if (m.plan) lines.push(planToMarkdown(m.plan), '');
+    lines.push(m.text, '');
+  });
+
+  const suite = session.evalSuite;
+  const lastRun = suite?.runs[suite.runs.length - 1];
+  if (suite && suite.cases.length > 0) {
+    lines.push('## Evaluation', '');
+    suite.cases.forEach(c => {
+      const result = lastRun?.results.find(r => r.caseId === c.id);
+      const status = !result ? 'not run' : result.status !== 'done' ? result.status : `${result.checks.filter(ch => ch.pass).length}/${result.checks.length} checks passed`;
+      lines.push(`- **${c.name}** — ${status}`);
+    });
+    if (lastRun) lines.push('', `_Last run: ${lastRun.modelLabel}, ${new Date(lastRun.createdAt).toLocaleString()}_`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Self-contained report: inline styles, images as data URLs, and the JSON
+// export embedded so the file can be imported back.
+export const toHTML = (session: BuilderSession, topics: Topic[]): string => {
+  const json = toJSON(session, topics).replace(/</g, '\\u003c');
+
+  const elements = topics.map(t => `
+    <div class="element">
+      <div class="symbol">${escapeHtml(t.symbol)}</div>
+      <div>
+        <strong>${escapeHtml(t.element)}</strong> <span class="muted">${escapeHtml(t.category)}</span>
+        <p>${escapeHtml(t.description)}</p>
+        <code>${escapeHtml(t.usage)}</code>
+      </div>
+    </div>`).join('');
+
+  const messages = exportableMessages(session).map(m => `
+    <div class="msg ${escapeHtml(m.role)}">
+      <div class="role">${m.role === 'user' ? 'User' : 'Model'}${m.isPartial ? ' · partial' : ''}</div>
+      ${m.image ? `<img src="${escapeHtml(m.image)}" alt="" />` : ''}
+      ${m.plan ? `<div class="plan"><strong>${escapeHtml(m.plan.title)}</strong><ol>${m.plan.steps.map(s => `<li><b>${escapeHtml(s.label)}</b> <span class="muted">(${escapeHtml(s.type)})</span>${s.details ? ` — ${escapeHtml(s.details)}` : ''}</li>`).join('')}</ol></div>` : ''}
+      <pre>${escapeHtml(m.text)}</pre>
+    </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(session.name)}</title>
+<style>
+  body { background: #050510; color: #e5e7eb; font-family: ui-sans-serif, system-ui, sans-serif; max-width: 960px; margin: 0 auto; padding: 32px; }
+  h1 { color: #22d3ee; font-family: 'Rajdhani', sans-serif; text-transform: uppercase; }
+  h2 { color: #4ade80; font-size: 12px; letter-spacing: .2em; text-transform: uppercase; border-bottom: 1px solid #1f2937; padding-bottom: 8px; margin-top: 40px; }
+  .muted { color: #6b7280; font-size: 12px; }
+  .config td { padding: 4px 16px 4px 0; font-size: 14px; }
+  .element { display: flex; gap: 16px; border: 1px solid #1f2937; border-radius: 8px; padding: 12px; margin-bottom: 8px; background: #0a0a12; }
+  .symbol { font-family: ui-monospace, monospace; font-size: 28px; font-weight: bold; color: #22d3ee; min-width: 56px; }
+  .element p { margin: 4px 0; font-size: 14px; }
+  code, pre { font-family: ui-monospace, monospace; font-size: 13px; }
+  code { color: #a855f7; }
+  .msg { border: 1px solid #374151; border-radius: 8px; padding: 16px; margin-bottom: 12px; background: rgba(31,41,55,.5); }
+  .msg.user { border-color: rgba(6,182,212,.3); background: rgba(22,78,99,.2); }
+  .role { font-size: 10px; font-weight: bold; letter-spacing: .2em; text-transform: uppercase; color: #22d3ee; margin-bottom: 8px; }
+  .msg img { max-width: 100%; border-radius: 6px; margin-bottom: 12px; }
+  .plan { border: 1px solid rgba(6,182,212,.5); border-radius: 6px; padding: 12px; margin-bottom: 12px; }
+  pre { white-space: pre-wrap; margin: 0; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <div class="muted">Exported ${escapeHtml(new Date().toLocaleString())}</div>
+
+  <h2>Configuration</h2>
+  <table class="config">
+    <tr><td class="muted">Target Model</td><td>${escapeHtml(session.targetModel)}</td></tr>
+    <tr><td class="muted">Output Type</td><td>${escapeHtml(session.outputType)}</td></tr>
+    <tr><td class="muted">Stack</td><td>${escapeHtml(session.selectedTech.join(', ') || 'None')}</td></tr>
+  </table>
+
+  <h2>Elements</h2>
+  ${elements || '<div class="muted">None selected</div>'}
+
+  <h2>Conversation</h2>
+  ${messages}
+
+  <script type="application/json" id="${SESSION_EXPORT_FORMAT}">${json}</script>
+</body>
+</html>`;
+};
+
+// --- IMPORT ---
+
+const extractJSON = (text: string): string => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return trimmed;
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  const embedded = doc.getElementById(SESSION_EXPORT_FORMAT)?.textContent;
+  if (!embedded) throw new SessionImportError("File is neither a session JSON export nor an HTML report.");
+  return embedded;
+};
+
+// Upgrades older export versions in place. Version 1 is the first release.
+const migrate = (payload: SessionExport): SessionExport => payload;
+
+// Parses a JSON export or HTML report. The restored session gets a fresh id
+// so importing never overwrites an existing local session.
+export const importSession = (text: string): BuilderSession => {
+  let payload: SessionExport;
+  try {
+    payload = JSON.parse(extractJSON(text));
+  } catch (e) {
+    if (e instanceof SessionImportError) throw e;
+    throw new SessionImportError("File does not contain valid JSON.");
+  }
+
+  if (payload?.format !== SESSION_EXPORT_FORMAT) throw new SessionImportError("Not a Periodic Table session export.");
+  if (typeof payload.version !== 'number' || payload.version > SESSION_EXPORT_VERSION) {
+    throw new SessionImportError(`Unsupported export version: ${payload.version}.`);
+  }
+
+  const { session } = migrate(payload);
+  if (!session || !Array.isArray(session.messages) || !Array.isArray(session.symbols)) {
+    throw new SessionImportError("Export is missing session data.");
+  }
+  const invalid = session.messages.find(m => (m.role !== 'user' && m.role !== 'model') || typeof m.text !== 'string');
+  if (invalid) throw new SessionImportError("Export contains malformed messages.");
+
+  const now = Date.now();
+  return {
+    id: createSessionId(),
+    name: session.name || 'Imported Session',
+    createdAt: session.createdAt || now,
+    updatedAt: now,
+    symbols: session.symbols,
+    selectedTech: session.selectedTech || [],
+    targetModel: session.targetModel || 'Gemini 2.5 Flash',
+    outputType: session.outputType || 'Refined Prompt',
+    messages: session.messages,
+    compareRuns: session.compareRuns || [],
+    evalSuite: session.evalSuite,
+    versions: session.versions || [],
+    headVersionId: session.headVersionId || null,
+    usage: session.usage,
+    budget: session.budget ?? null,
+    instructionOverride: session.instructionOverride ?? null,
+  };
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,27 @@
+import { BuilderSession } from '../types';
+import { RecordStore } from './db';
+
+export class SessionStore extends RecordStore<BuilderSession> {
+  constructor() {
+    super('sessions');
+  }
+
+  public async rename(id: string, name: string): Promise<void> {
+    const session = await this.get(id);
+    if (!session) return;
+    await this.save({ ...session, name, updatedAt: Date.now() });
+  }
+
+  public async duplicate(id: string): Promise<BuilderSession | undefined> {
+    const session = await this.get(id);
+    if (!session) return undefined;
+    const now = Date.now();
+    const copy: BuilderSession = { ...session, id: createSessionId(), name: `${session.name} (copy)`, createdAt: now, updatedAt: now };
+    await this.save(copy);
+    return copy;
+  }
+}
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const sessionStore = new SessionStore();
@@ -0,0 +1,46 @@
+import { RecordStore } from './db';
+import { DEFAULT_MOCK_CONFIG, MockConfig } from './llm';
+
+// Small app preferences, one record each in the shared 'settings' store.
+
+interface ProxySetting {
+  id: 'proxy';
+  url: string; // Empty means same-origin (the Vite plugin)
+  updatedAt: number;
+}
+
+interface MockSetting {
+  id: 'mock';
+  enabled: boolean;
+  config: MockConfig;
+  updatedAt: number;
+}
+
+interface SearchSetting {
+  id: 'search';
+  semantic: boolean; // Blend related-concept matches into command palette results
+  updatedAt: number;
+}
+
+const proxyStore = new RecordStore<ProxySetting>('settings');
+const mockStore = new RecordStore<MockSetting>('settings');
+const searchStore = new RecordStore<SearchSetting>('settings');
+
+export const loadProxyUrl = async (): Promise<string> => (await proxyStore.get('proxy'))?.url || '';
+
+export const saveProxyUrl = (url: string): Promise<void> =>
+  proxyStore.save({ id: 'proxy', url: url.trim(), updatedAt: Date.now() });
+
+// The config is kept while mock mode is off, so toggling it back restores the tuning
+export const loadMockSetting = async (): Promise<{ enabled: boolean; config: MockConfig }> => {
+  const record = await mockStore.get('mock');
+  return { enabled: !!record?.enabled, config: { ...DEFAULT_MOCK_CONFIG, ...record?.config } };
+};
+
+export const saveMockSetting = (enabled: boolean, config: MockConfig): Promise<void> =>
+  mockStore.save({ id: 'mock', enabled, config, updatedAt: Date.now() });
+
+export const loadSemanticSearch = async (): Promise<boolean> => !!(await searchStore.get('search'))?.semantic;
+
+export const saveSemanticSearch = (semantic: boolean): Promise<void> =>
+  searchStore.save({ id: 'search', semantic, updatedAt: Date.now() });
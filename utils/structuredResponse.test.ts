@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JSONRequest, LLMProvider } from './llm';
+import { describeStructuredError, generateStructured, PLAN_SPEC, SLIDES_SPEC, StructuredResponseError } from './structuredResponse';
+
+// A provider whose generateJSON returns `replies` in order
+const fakeProvider = (...replies: string[]) => {
+  const generateJSON = vi.fn(async (_request: JSONRequest) => ({ text: replies.shift() ?? '' }));
+  return { provider: { id: 'openai', generateJSON } as unknown as LLMProvider, generateJSON };
+};
+
+const REQUEST = { model: 'test-model', prompt: 'Plan it.' };
+const PLAN = { title: 'Plan', steps: [{ id: '1', label: 'Go', type: 'start' }, { id: '2', label: 'Stop', type: 'end' }] };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generateStructured', () => {
+  it('returns a valid reply and sends the schema with the request', async () => {
+    const { provider, generateJSON } = fakeProvider(JSON.stringify(PLAN));
+    await expect(generateStructured(provider, REQUEST, PLAN_SPEC)).resolves.toEqual(PLAN);
+    expect(generateJSON.mock.calls[0][0]).toMatchObject({ prompt: 'Plan it.', schema: PLAN_SPEC.schema });
+  });
+
+  it('repairs fences, surrounding prose and trailing commas locally', async () => {
+    const { provider } = fakeProvider('```json\nHere you go: {"title": "Plan", "steps": [{"id": "1", "label": "Go", "type": "start"}, {"id": "2", "label": "Stop", "type": "end"},],}\n```');
+    await expect(generateStructured(provider, REQUEST, PLAN_SPEC)).resolves.toEqual(PLAN);
+  });
+
+  it('coerces numbers, enum case, wrapped arrays and extra items', async () => {
+    const steps = Array.from({ length: 10 }, (_, i) => ({ id: i, label: `Step ${i}`, type: 'PROCESS' }));
+    const { provider } = fakeProvider(JSON.stringify({ title: 'Plan', steps }));
+    const plan = await generateStructured(provider, REQUEST, PLAN_SPEC);
+    expect(plan.steps).toHaveLength(8);
+    expect(plan.steps[0]).toEqual({ id: '0', label: 'Step 0', type: 'process' });
+
+    const deck = fakeProvider(JSON.stringify({ slides: [{ title: 'One', points: 'Only point' }] }));
+    await expect(generateStructured(deck.provider, REQUEST, SLIDES_SPEC)).resolves.toEqual([{ title: 'One', points: ['Only point'] }]);
+  });
+
+  it('sends the errors back to the model until the reply validates', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const duplicate = { ...PLAN, steps: [PLAN.steps[0], { ...PLAN.steps[1], id: '1' }] };
+    const { provider, generateJSON } = fakeProvider(JSON.stringify(duplicate), JSON.stringify(PLAN));
+    await expect(generateStructured(provider, REQUEST, PLAN_SPEC)).resolves.toEqual(PLAN);
+    expect(generateJSON).toHaveBeenCalledTimes(2);
+    const retry = generateJSON.mock.calls[1][0].prompt;
+    expect(retry).toContain('Plan it.');
+    expect(retry).toContain('- $.steps: id "1" is used more than once');
+  });
+
+  it('throws StructuredResponseError with the last errors once the attempts run out', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { provider, generateJSON } = fakeProvider('not json', '{"title": ""}');
+    const error = await generateStructured(provider, REQUEST, PLAN_SPEC, { attempts: 2 })
+      .then(() => { throw new Error('Expected the call to fail.'); }, (e: StructuredResponseError) => e);
+    expect(error).toBeInstanceOf(StructuredResponseError);
+    expect(error.message).toBe("The model's execution plan did not match the expected structure after 2 attempts.");
+    expect(error.errors).toEqual(['$.steps: is required', '$.title: must be at least 1 characters']);
+    expect(generateJSON).toHaveBeenCalledTimes(2);
+  });
+
+  it('makes no further attempts once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { provider, generateJSON } = fakeProvider(JSON.stringify(PLAN));
+    await expect(generateStructured(provider, REQUEST, PLAN_SPEC, { signal: controller.signal })).rejects.toThrow();
+    expect(generateJSON).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeStructuredError', () => {
+  it('lists the first few problems and counts the rest', () => {
+    const error = new StructuredResponseError('Bad plan.', ['a', 'b', 'c', 'd', 'e']);
+    expect(describeStructuredError(error)).toEqual(['Bad plan.', 'a', 'b', 'c', '...and 2 more']);
+    expect(describeStructuredError(new Error('Offline'))).toEqual(['Offline']);
+  });
+});
@@ -0,0 +1,199 @@
+import { PlanData, Slide } from '../types';
+import { JSONRequest, JSONSchema, LLMProvider, RequestOptions, stripFences } from './llm';
+import { validateSchema } from './jsonSchema';
+
+// JSON-mode calls whose result feeds UI directly (plans, slide decks). The
+// schema is sent with the request, the reply is checked against it, common
+// near-misses are repaired locally, and anything else is sent back to the
+// model with the errors until it validates or the attempts run out.
+
+export interface StructuredSpec<T> {
+  name: string; // Used in error messages, e.g. "execution plan"
+  schema: JSONSchema;
+  validate?: (data: T) => string[]; // Semantic checks; runs once the schema passes
+}
+
+export class StructuredResponseError extends Error {
+  constructor(message: string, public readonly errors: string[]) {
+    super(message);
+    this.name = 'StructuredResponseError';
+  }
+}
+
+// --- SPECS ---
+
+const PLAN_STEP_TYPES: PlanData['steps'][number]['type'][] = ['start', 'process', 'decision', 'end'];
+
+export const PLAN_SPEC: StructuredSpec<PlanData> = {
+  name: 'execution plan',
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      steps: {
+        type: 'array',
+        minItems: 2,
+        maxItems: 8,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            label: { type: 'string', minLength: 1 },
+            type: { type: 'string', enum: PLAN_STEP_TYPES },
+            details: { type: 'string' },
+          },
+          required: ['id', 'label', 'type'],
+        },
+      },
+    },
+    required: ['title', 'steps'],
+  },
+  validate: plan => {
+    const ids = plan.steps.map(s => s.id);
+    return ids
+      .filter((id, i) => ids.indexOf(id) !== i)
+      .map(id => `$.steps: id "${id}" is used more than once`);
+  },
+};
+
+export const SLIDES_SPEC: StructuredSpec<Slide[]> = {
+  name: 'slide deck',
+  schema: {
+    type: 'array',
+    minItems: 1,
+    maxItems: 8,
+    items: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 1 },
+        subtitle: { type: 'string' },
+        points: { type: 'array', items: { type: 'string' } },
+        visualDescription: { type: 'string' },
+      },
+      required: ['title', 'points'],
+    },
+  },
+};
+
+// --- LOCAL REPAIR ---
+
+// Parses the reply, tolerating prose around the JSON and trailing commas
+const parseLoose = (text: string): unknown => {
+  const body = stripFences(text);
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (start < 0 || end <= start) throw new Error('Response is not valid JSON.');
+    try {
+      return JSON.parse(body.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      throw new Error('Response is not valid JSON.');
+    }
+  }
+};
+
+// Nudges a parsed value towards `schema` where the intent is unambiguous:
+// numbers for strings, enum values in the wrong case, a lone item where an
+// array is expected, an array wrapped in a single-key object and arrays past
+// maxItems. Everything else is left for validation to report.
+const coerce = (schema: JSONSchema, value: unknown): unknown => {
+  const type = schema.type;
+
+  if (type === 'array') {
+    let items = value;
+    if (items && typeof items === 'object' && !Array.isArray(items)) {
+      const values = Object.values(items);
+      items = values.length === 1 && Array.isArray(values[0]) ? values[0] : [items];
+    } else if (typeof items === 'string') {
+      items = [items];
+    }
+    if (!Array.isArray(items)) return value;
+    const max = schema.maxItems as number | undefined;
+    const itemSchema = (schema.items || {}) as JSONSchema;
+    return (max !== undefined ? items.slice(0, max) : items).map(item => coerce(itemSchema, item));
+  }
+
+  if (type === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+    const properties = (schema.properties || {}) as Record<string, JSONSchema>;
+    return Object.fromEntries(Object.entries(value).map(([key, child]) =>
+      [key, properties[key] ? coerce(properties[key], child) : child]));
+  }
+
+  if (type === 'string') {
+    const text = typeof value === 'number' ? String(value) : value;
+    const options = schema.enum as string[] | undefined;
+    if (options && typeof text === 'string') {
+      return options.find(option => option.toLowerCase() === text.trim().toLowerCase()) ?? text;
+    }
+    return text;
+  }
+
+  return value;
+};
+
+const check = <T>(spec: StructuredSpec<T>, text: string): { data?: T; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = coerce(spec.schema, parseLoose(text));
+  } catch (e: any) {
+    return { errors: [e.message] };
+  }
+  const errors = validateSchema(spec.schema, data);
+  if (errors.length > 0) return { errors };
+  const semantic = spec.validate?.(data as T) || [];
+  return semantic.length > 0 ? { errors: semantic } : { data: data as T, errors: [] };
+};
+
+const MAX_REPORTED_ERRORS = 8;
+
+const repairPrompt = (prompt: string, previous: string, errors: string[]) => `${prompt}
+
+Your previous response could not be used:
+${previous.slice(0, 2000)}
+
+It had these problems:
+${errors.slice(0, MAX_REPORTED_ERRORS).map(e => `- ${e}`).join('\n')}
+
+Return only corrected JSON that fixes every problem above.`;
+
+// --- REQUEST ---
+
+// Requests `spec`-shaped JSON, making up to `attempts` calls in total. Provider
+// failures are not retried here and propagate unchanged; a reply that still
+// does not validate on the last attempt throws StructuredResponseError.
+export const generateStructured = async <T>(
+  provider: LLMProvider,
+  request: Omit<JSONRequest, 'schema'>,
+  spec: StructuredSpec<T>,
+  options: RequestOptions & { attempts?: number } = {}
+): Promise<T> => {
+  const attempts = Math.max(1, options.attempts ?? 3);
+  let prompt = request.prompt;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    // A cancelled request makes no further repair attempts
+    options.signal?.throwIfAborted();
+    const response = await provider.generateJSON({ ...request, prompt, schema: spec.schema }, { signal: options.signal });
+    const result = check(spec, response.text || '');
+    if (result.data !== undefined) return result.data;
+
+    errors = result.errors;
+    console.warn(`Invalid ${spec.name} (attempt ${attempt}/${attempts})`, errors);
+    prompt = repairPrompt(request.prompt, response.text || '', errors);
+  }
+
+  throw new StructuredResponseError(
+    `The model's ${spec.name} did not match the expected structure after ${attempts} attempt${attempts === 1 ? '' : 's'}.`,
+    errors
+  );
+};
+
+// Lines for the UI: the message plus the first few problems
+export const describeStructuredError = (e: unknown, limit = 3): string[] => {
+  if (!(e instanceof StructuredResponseError)) return [e instanceof Error ? e.message : String(e)];
+  const extra = e.errors.length - limit;
+  return [e.message, ...e.errors.slice(0, limit), ...(extra > 0 ? [`...and ${extra} more`] : [])];
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bulkToCSV, bulkToJSONL, CSVParseError, extractVariables, missingVariables, parseCSV, renderBulk, renderTemplate, toCSV
+} from './templateVars';
+
+describe('extractVariables', () => {
+  it('lists unique names in order of first appearance', () => {
+    expect(extractVariables('{{b}} {{ a }} {{b}} {{c.d-e}}')).toEqual(['b', 'a', 'c.d-e']);
+  });
+
+  it('ignores malformed placeholders', () => {
+    expect(extractVariables('{{1a}} {{}} {a}')).toEqual([]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills known variables and keeps the rest as placeholders', () => {
+    expect(renderTemplate('Hi {{name}}, {{ role }}', { name: 'Ada' })).toBe('Hi Ada, {{ role }}');
+  });
+
+  it('renders a blank value as blank', () => {
+    expect(renderTemplate('[{{x}}]', { x: '' })).toBe('[]');
+  });
+
+  it('does not resolve names through the prototype chain', () => {
+    expect(renderTemplate('{{constructor}} {{toString}}', {})).toBe('{{constructor}} {{toString}}');
+  });
+});
+
+describe('missingVariables', () => {
+  it('reports variables without a value', () => {
+    expect(missingVariables('{{a}} {{b}} {{constructor}}', { a: 'x', b: '' })).toEqual(['constructor']);
+  });
+});
+
+describe('parseCSV', () => {
+  it('parses headers and rows', () => {
+    expect(parseCSV('name,role\nAda,engineer\nGrace,admiral')).toEqual({
+      headers: ['name', 'role'],
+      rows: [{ name: 'Ada', role: 'engineer' }, { name: 'Grace', role: 'admiral' }],
+    });
+  });
+
+  it('handles quotes, escaped quotes, embedded newlines, CRLF and a BOM', () => {
+    const table = parseCSV('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\r\n');
+    expect(table.headers).toEqual(['a', 'b']);
+    expect(table.rows).toEqual([{ a: 'x, y', b: 'say "hi"\nthere' }]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCSV('a\n\n1\n\n2\n').rows).toEqual([{ a: '1' }, { a: '2' }]);
+  });
+
+  it('leaves cells a short row omits unfilled', () => {
+    expect(parseCSV('a,b\n1').rows).toEqual([{ a: '1' }]);
+  });
+
+  it('reports the source line of a row with too many columns', () => {
+    expect(() => parseCSV('a,b\n\n1,2\n\n"multi\nline",2,3')).toThrow('Line 5 has 3 columns, expected 2.');
+  });
+
+  it('rejects empty input, missing headers and unterminated quotes', () => {
+    expect(() => parseCSV('')).toThrow(CSVParseError);
+    expect(() => parseCSV('a,,c\n1,2,3')).toThrow('Every column needs a header.');
+    expect(() => parseCSV('a\n"open')).toThrow('Unterminated quoted field.');
+  });
+});
+
+describe('toCSV', () => {
+  it('quotes cells that need it and round-trips through parseCSV', () => {
+    const rows = [{ a: 'x, "y"', b: 'line\nbreak' }];
+    const csv = toCSV(['a', 'b'], rows);
+    expect(csv).toBe('a,b\n"x, ""y""","line\nbreak"');
+    expect(parseCSV(csv).rows).toEqual(rows);
+  });
+});
+
+describe('bulk rendering', () => {
+  const table = parseCSV('name,prompt\nAda,mine\nGrace,');
+
+  it('renders each row and reports what it is missing', () => {
+    const rendered = renderBulk('{{name}} / {{prompt}} / {{team}}', table);
+    expect(rendered.map(r => r.row)).toEqual([1, 2]);
+    expect(rendered[0].prompt).toBe('Ada / mine / {{team}}');
+    expect(rendered[1].missing).toEqual(['team']);
+  });
+
+  it('adds the rendered prompt without overwriting a source column', () => {
+    const csv = bulkToCSV(table, renderBulk('Hi {{name}}', table));
+    expect(parseCSV(csv)).toEqual({
+      headers: ['name', 'prompt', 'rendered_prompt'],
+      rows: [
+        { name: 'Ada', prompt: 'mine', rendered_prompt: 'Hi Ada' },
+        { name: 'Grace', prompt: '', rendered_prompt: 'Hi Grace' },
+      ],
+    });
+  });
+
+  it('suffixes the output column when that name is taken too', () => {
+    const taken = parseCSV('rendered_prompt,rendered_prompt_2\n1,2');
+    expect(parseCSV(bulkToCSV(taken, renderBulk('x', taken))).headers[2]).toBe('rendered_prompt_3');
+  });
+
+  it('writes one JSON object per row', () => {
+    const lines = bulkToJSONL(renderBulk('Hi {{name}}', table)).split('\n').map(line => JSON.parse(line));
+    expect(lines[0]).toEqual({ row: 1, variables: { name: 'Ada', prompt: 'mine' }, prompt: 'Hi Ada' });
+  });
+});
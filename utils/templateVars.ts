@@ -0,0 +1,132 @@
+// {{variable}} placeholders in generated prompts: detection, filling, and bulk
+// rendering across the rows of a CSV whose headers are variable names.
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+// Unique names in order of first appearance
+export const extractVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1])));
+
+// Own keys only, so names like {{constructor}} don't resolve to Object.prototype.
+// An empty string is a value: the variable is filled in, deliberately blank.
+export const variableValue = (values: Record<string, string>, name: string): string | undefined =>
+  Object.hasOwn(values, name) ? values[name] : undefined;
+
+// Unfilled variables stay as placeholders so the output is still a usable template
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => variableValue(values, name) ?? placeholder);
+
+export const missingVariables = (template: string, values: Record<string, string>): string[] =>
+  extractVariables(template).filter(name => variableValue(values, name) === undefined);
+
+// --- CSV ---
+
+export interface CSVTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export class CSVParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CSVParseError';
+  }
+}
+
+interface CSVRecord {
+  cells: string[];
+  line: number; // 1-based line the record starts on, for error messages
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes
+const parseRecords = (text: string): CSVRecord[] => {
+  const records: CSVRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let start = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ cells: record, line: start });
+      record = [];
+      field = '';
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new CSVParseError("Unterminated quoted field.");
+  if (field || record.length) records.push({ cells: [...record, field], line: start });
+
+  return records.filter(r => r.cells.some(cell => cell.trim() !== ''));
+};
+
+export const parseCSV = (text: string): CSVTable => {
+  const [headerRow, ...body] = parseRecords(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) throw new CSVParseError("CSV is empty.");
+  const headers = headerRow.cells.map(h => h.trim());
+  if (headers.some(h => !h)) throw new CSVParseError("Every column needs a header.");
+
+  const rows = body.map(({ cells, line }) => {
+    if (cells.length > headers.length) throw new CSVParseError(`Line ${line} has ${cells.length} columns, expected ${headers.length}.`);
+    // Cells a short row leaves out stay unfilled; empty cells are blank values
+    return Object.fromEntries(headers.slice(0, cells.length).map((h, j) => [h, cells[j]]));
+  });
+  return { headers, rows };
+};
+
+const escapeCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCSV = (headers: string[], rows: Record<string, string>[]): string =>
+  [headers, ...rows.map(row => headers.map(h => row[h] ?? ''))]
+    .map(cells => cells.map(escapeCell).join(','))
+    .join('\n');
+
+// --- BULK RENDER ---
+
+export interface RenderedRow {
+  row: number; // 1-based data row, matching spreadsheet numbering minus the header
+  values: Record<string, string>;
+  prompt: string;
+  missing: string[];
+}
+
+export const renderBulk = (template: string, table: CSVTable): RenderedRow[] =>
+  table.rows.map((values, i) => ({
+    row: i + 1,
+    values,
+    prompt: renderTemplate(template, values),
+    missing: missingVariables(template, values),
+  }));
+
+// The rendered prompt goes in a column of its own, named so it can't overwrite one of the source's
+const outputColumn = (headers: string[]) => {
+  let name = 'rendered_prompt';
+  for (let n = 2; headers.includes(name); n++) name = `rendered_prompt_${n}`;
+  return name;
+};
+
+export const bulkToCSV = (table: CSVTable, rendered: RenderedRow[]): string => {
+  const column = outputColumn(table.headers);
+  return toCSV([...table.headers, column], rendered.map(r => ({ ...r.values, [column]: r.prompt })));
+};
+
+export const bulkToJSONL = (rendered: RenderedRow[]): string =>
+  rendered.map(r => JSON.stringify({ row: r.row, variables: r.values, prompt: r.prompt })).join('\n');
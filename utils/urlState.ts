@@ -0,0 +1,85 @@
+import { ElementTab, LinkState } from '../types';
+
+// App state mirrored into the URL hash as query parameters, so a view can be
+// linked and browser back/forward moves between views:
+//   #el=Th&tab=examples&cat=Claude&b=Th,Pl&model=Claude+4+Opus&out=System+Prompt&tech=React
+// Each component writes only the keys it owns and leaves the others alone.
+
+export const ELEMENT_TABS: ElementTab[] = ['overview', 'specs', 'code', 'examples'];
+
+const KEYS: Record<keyof LinkState, string> = {
+  element: 'el',
+  tab: 'tab',
+  category: 'cat',
+  builder: 'b',
+  targetModel: 'model',
+  outputType: 'out',
+  tech: 'tech',
+};
+
+const LIST_KEYS: (keyof LinkState)[] = ['builder', 'tech'];
+
+// Marks history entries the app wrote, as opposed to a link typed or pasted into the address bar
+const HISTORY_MARKER = { periodicTable: true };
+
+const hashParams = (hash: string) => new URLSearchParams(hash.replace(/^#/, ''));
+
+const splitList = (value: string | null) => {
+  const items = (value || '').split(',').map(v => v.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+};
+
+// Commas separate list items and stay readable in the link
+const serialize = (params: URLSearchParams) => params.toString().replace(/%2C/gi, ',');
+
+export const readLinkState = (hash: string = window.location.hash): LinkState => {
+  const params = hashParams(hash);
+  const tab = params.get(KEYS.tab) as ElementTab | null;
+  const state: LinkState = {
+    element: params.get(KEYS.element) || undefined,
+    tab: tab && ELEMENT_TABS.includes(tab) ? tab : undefined,
+    category: params.get(KEYS.category) || undefined,
+    builder: splitList(params.get(KEYS.builder)),
+    targetModel: params.get(KEYS.targetModel) || undefined,
+    outputType: params.get(KEYS.outputType) || undefined,
+    tech: splitList(params.get(KEYS.tech)),
+  };
+  (Object.keys(state) as (keyof LinkState)[]).forEach(key => state[key] === undefined && delete state[key]);
+  return state;
+};
+
+// Rewrites the hash through `update`. 'push' adds a history entry that back
+// returns from; 'replace' updates the current one. An unchanged URL only gets
+// the marker, once.
+export const updateHash = (update: (params: URLSearchParams) => void, mode: 'push' | 'replace' = 'replace') => {
+  const { pathname, search, hash } = window.location;
+  const params = hashParams(hash);
+  const current = serialize(params);
+  update(params);
+  const next = serialize(params);
+  const unchanged = next === current;
+  if (unchanged && window.history.state?.periodicTable) return;
+  const url = `${pathname}${search}${next ? `#${next}` : ''}`;
+  if (mode === 'push' && !unchanged) window.history.pushState(HISTORY_MARKER, '', url);
+  else window.history.replaceState(HISTORY_MARKER, '', url);
+};
+
+// Keys present in `patch` are written; undefined, empty strings and empty lists remove them
+export const writeLinkState = (patch: Partial<LinkState>, mode: 'push' | 'replace' = 'replace') =>
+  updateHash(params => {
+    (Object.keys(patch) as (keyof LinkState)[]).forEach(key => {
+      const value = patch[key];
+      const text = LIST_KEYS.includes(key) ? (value as string[] | undefined)?.join(',') : value as string | undefined;
+      if (text) params.set(KEYS[key], text);
+      else params.delete(KEYS[key]);
+    });
+  }, mode);
+
+// Fires on back/forward and on links entered in the address bar. `external` is
+// true for the latter: URLs the app did not write, whose builder part should be
+// applied too (the builder is not tracked in history, see App).
+export const onLinkStateChange = (listener: (state: LinkState, external: boolean) => void) => {
+  const handle = (e: PopStateEvent) => listener(readLinkState(), !e.state?.periodicTable);
+  window.addEventListener('popstate', handle);
+  return () => window.removeEventListener('popstate', handle);
+};
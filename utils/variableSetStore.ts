@@ -0,0 +1,7 @@
+import { VariableSet } from '../types';
+import { RecordStore } from './db';
+
+// Named variable values (per customer, dataset, ...) shared across sessions
+export const variableSetStore = new RecordStore<VariableSet>('variableSets');
+
+export const createVariableSetId = () => `vars-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,52 @@
+import { PromptVersion } from '../types';
+import { ChatTurn } from './llm';
+
+// Versions form a tree: every generation is a child of the version that was
+// the head when it ran, so rolling back and refining again starts a branch.
+
+export const createVersionId = () => `version-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Numbered in creation order, which stays stable as branches are added
+export const versionLabel = (versions: PromptVersion[], id: string | null) => {
+  const index = versions.findIndex(v => v.id === id);
+  return index === -1 ? '—' : `v${index + 1}`;
+};
+
+// Root first, ending at `id`
+export const lineage = (versions: PromptVersion[], id: string | null): PromptVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const path: PromptVersion[] = [];
+  for (let v = id ? byId.get(id) : undefined; v; v = v.parentId ? byId.get(v.parentId) : undefined) {
+    path.unshift(v);
+  }
+  return path;
+};
+
+// Conversation replayed to a fresh chat so it continues from the head version.
+// Local drafts are kept out of it, as they are from the live chat.
+export const lineageHistory = (versions: PromptVersion[], headId: string | null): ChatTurn[] =>
+  lineage(versions, headId)
+    .filter(v => v.source !== 'assemble')
+    .flatMap(v => [
+      ...(v.note ? [{ role: 'user' as const, text: v.note, image: v.image }] : []),
+      { role: 'model' as const, text: v.text },
+    ]);
+
+// Depth-first order with nesting depth, for rendering the tree as a list
+export const flattenTree = (versions: PromptVersion[]): { version: PromptVersion; depth: number }[] => {
+  const children = new Map<string | null, PromptVersion[]>();
+  versions.forEach(v => {
+    const parent = v.parentId && versions.some(p => p.id === v.parentId) ? v.parentId : null;
+    children.set(parent, [...(children.get(parent) || []), v]);
+  });
+
+  const rows: { version: PromptVersion; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || []).forEach(v => {
+      rows.push({ version: v, depth });
+      visit(v.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return rows;
+};
@@ -1,19 +1,17 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { llmProxy } from './server/vitePlugin';
 
 export default defineConfig(({ mode }) => {
+    // Server-side only: keys here reach the proxy, never the bundle
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), llmProxy(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),